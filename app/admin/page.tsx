@@ -0,0 +1,144 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ROLES, Role, User } from '@/lib/auth/types';
+
+/**
+ * Admin Page
+ *
+ * Lists accounts in the local credential store and creates new ones,
+ * including clinician and admin accounts.
+ */
+
+export default function AdminPage() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<Role>('clinician');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      if (!response.ok) {
+        throw new Error('Failed to load users');
+      }
+      setUsers(await response.json());
+    } catch (err) {
+      console.error('Error loading users:', err);
+      setError('Users could not be loaded.');
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password, role }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        throw new Error(error || 'Failed to create user');
+      }
+
+      setUsername('');
+      setPassword('');
+      await loadUsers();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Spacer for fixed header */}
+      <div className="h-14 shrink-0" />
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto max-w-3xl py-8 px-4 space-y-10">
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold">Accounts</h2>
+            <div className="rounded-lg border border-border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Username</th>
+                    <th className="px-4 py-2 font-medium">Role</th>
+                    <th className="px-4 py-2 font-medium">Created</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {users.map((user) => (
+                    <tr key={user.id}>
+                      <td className="px-4 py-2">{user.username}</td>
+                      <td className="px-4 py-2 capitalize">{user.role}</td>
+                      <td className="px-4 py-2 text-muted-foreground">
+                        {new Date(user.createdAt).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <form onSubmit={handleCreate} className="space-y-4 max-w-sm">
+            <h3 className="text-lg font-semibold">Create Account</h3>
+            <div className="space-y-2">
+              <Label htmlFor="new-username">Username</Label>
+              <Input id="new-username" value={username} onChange={(e) => setUsername(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <RadioGroup value={role} onValueChange={(value) => setRole(value as Role)} className="flex gap-4">
+                {ROLES.map((r) => (
+                  <div key={r} className="flex items-center space-x-2">
+                    <RadioGroupItem value={r} id={`role-${r}`} />
+                    <Label htmlFor={`role-${r}`} className="font-normal capitalize cursor-pointer">
+                      {r}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" disabled={isSubmitting}>
+              Create Account
+            </Button>
+          </form>
+        </div>
+      </div>
+    </>
+  );
+}
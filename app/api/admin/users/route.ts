@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import {
+  UsernameTakenError,
+  getUserStore,
+  isRole,
+  normalizeUsername,
+  validateCredentials,
+} from '@/lib/auth';
+
+/**
+ * Admin Users API Route
+ *
+ * GET lists accounts (without password hashes).
+ * POST creates an account with any role. Admin only (enforced by middleware).
+ */
+
+export async function GET() {
+  try {
+    const users = await (await getUserStore()).list();
+    return new Response(JSON.stringify(users), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Admin users API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to list users' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { username, password, role } = await req.json();
+    const normalized = typeof username === 'string' ? normalizeUsername(username) : '';
+    const problem = isRole(role)
+      ? validateCredentials(normalized, password)
+      : 'role must be one of patient, clinician, admin';
+    if (problem) {
+      return new Response(
+        JSON.stringify({ error: problem }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await (await getUserStore()).create({ username: normalized, password, role });
+
+    return new Response(JSON.stringify(user), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    if (error instanceof UsernameTakenError) {
+      return new Response(
+        JSON.stringify({ error: 'That username is already taken' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Admin users API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to create user' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
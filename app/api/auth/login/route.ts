@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { authenticate, createSessionCookie } from '@/lib/auth';
+import { getHomePath } from '@/lib/auth/access';
+
+/**
+ * Login API Route
+ *
+ * Checks a username and password against the local credential store and sets
+ * the signed session cookie.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    const { username, password } = await req.json();
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Username and password are required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await authenticate(username, password);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid username or password' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(JSON.stringify({ user, home: getHomePath(user.role) }), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Set-Cookie': await createSessionCookie(user),
+      },
+    });
+  } catch (error: any) {
+    console.error('Login API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to sign in' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { clearSessionCookie } from '@/lib/auth';
+
+/**
+ * Logout API Route
+ *
+ * Clears the session cookie.
+ */
+
+export async function POST() {
+  return new Response(JSON.stringify({ ok: true }), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Set-Cookie': clearSessionCookie(),
+    },
+  });
+}
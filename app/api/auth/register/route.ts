@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import {
+  UsernameTakenError,
+  createSessionCookie,
+  getUserStore,
+  normalizeUsername,
+  validateCredentials,
+} from '@/lib/auth';
+import { getHomePath } from '@/lib/auth/access';
+
+/**
+ * Registration API Route
+ *
+ * Patient self-registration. Always creates a patient account; clinician and
+ * admin accounts are created by an admin.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    const { username, password } = await req.json();
+    const normalized = typeof username === 'string' ? normalizeUsername(username) : '';
+    const problem = validateCredentials(normalized, password);
+    if (problem) {
+      return new Response(
+        JSON.stringify({ error: problem }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await (await getUserStore()).create({ username: normalized, password, role: 'patient' });
+    const sessionUser = { id: user.id, username: user.username, role: user.role };
+
+    return new Response(JSON.stringify({ user: sessionUser, home: getHomePath(user.role) }), {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+        'Set-Cookie': await createSessionCookie(sessionUser),
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof UsernameTakenError) {
+      return new Response(
+        JSON.stringify({ error: 'That username is already taken' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Registration API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to register' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
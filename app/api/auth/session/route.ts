@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+
+/**
+ * Session API Route
+ *
+ * Returns the signed-in user, or null.
+ */
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  return new Response(JSON.stringify({ user }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -1,69 +1,111 @@
 import { NextRequest } from 'next/server';
-import OpenAI from 'openai';
-import { INTAKE_AGENT_SYSTEM_PROMPT } from '@/lib/agents/intake-agent';
+import {
+  INTAKE_COMPLETE_MARKER,
+  buildIntakeSystemPrompt,
+  buildPhaseContext,
+  deriveIntakeAgentState,
+  getIntakeTransition,
+} from '@/lib/agents/intake-agent';
+import { buildIntakeMemory } from '@/lib/agents/intake-memory';
+import {
+  CRISIS_RESPONSE_MESSAGES,
+  SafetyEvent,
+  classifyCrisisRisk,
+  createSafetyEvent,
+} from '@/lib/safety/crisis-detector';
+import { getLLMConfigError, getLLMProvider } from '@/lib/llm';
+import { countTextTokens } from '@/lib/llm/tokens';
+import { CHAT_STREAM_HEADERS, createChatEventStream, createMarkerFilter } from '@/lib/chat/stream';
+import { DEFAULT_LANGUAGE, Language, isLanguage } from '@/lib/i18n';
 
 /**
  * Chat API Route
  * 
- * Handles streaming chat responses from GPT-4 for the intake agent.
- * Uses OpenAI's streaming API to provide real-time responses.
+ * Handles streaming chat responses for the intake agent.
+ * Streams from the configured LLM provider as typed Server-Sent Events (see lib/chat/stream.ts).
+ * Each patient message is screened for crisis language before the model is called.
+ * The interview and the crisis response are in the language the patient chose.
+ * The client sends the full transcript; the request to the model is kept within
+ * a token budget by condensing older turns (see lib/agents/intake-memory.ts).
+ * The agent's completion marker is stripped from the reply and sent as a
+ * transition event instead.
  */
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 export async function POST(req: NextRequest) {
   try {
-    const { messages } = await req.json();
+    const { messages, language: requestedLanguage } = await req.json();
+    const language: Language = isLanguage(requestedLanguage) ? requestedLanguage : DEFAULT_LANGUAGE;
+
+    const configError = getLLMConfigError();
+    const provider = configError ? undefined : getLLMProvider();
+
+    // Screen the latest patient message before it reaches the intake agent
+    const lastUserMessage = [...messages].reverse().find(
+      (msg: { role: string; content: string }) => msg.role === 'user'
+    );
+    if (lastUserMessage) {
+      const detection = await classifyCrisisRisk(lastUserMessage.content, language, provider);
+      const safetyEvent = createSafetyEvent(detection);
+      if (safetyEvent) {
+        return createCrisisResponse(safetyEvent, language);
+      }
+    }
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!provider) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        JSON.stringify({ error: configError }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // Build conversation with system prompt
-    const conversationMessages = [
-      { role: 'system' as const, content: INTAKE_AGENT_SYSTEM_PROMPT },
-      ...messages,
-    ];
+    // Derive the interview phase from the transcript so topic coverage is tracked server-side
+    const intakeState = deriveIntakeAgentState(messages, language);
 
-    // Create streaming response
-    const stream = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: conversationMessages,
-      stream: true,
-      temperature: 0.7,
-    });
+    // Build conversation with system prompt and phase context, condensing older turns to fit the budget
+    const memory = buildIntakeMemory(
+      [
+        { role: 'system', content: buildIntakeSystemPrompt(language) },
+        { role: 'system', content: buildPhaseContext(intakeState) },
+      ],
+      messages,
+      language
+    );
+    if (!memory.withinBudget) {
+      return new Response(
+        JSON.stringify({ error: 'Message is too long', tokens: memory.tokens, budget: memory.budget }),
+        { status: 413, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Create a readable stream for the response
-    const encoder = new TextEncoder();
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content || '';
-            if (content) {
-              controller.enqueue(encoder.encode(content));
-            }
-          }
-          controller.close();
-        } catch (error) {
-          console.error('Streaming error:', error);
-          controller.error(error);
-        }
-      },
-    });
+    const readable = createChatEventStream(async (send, signal) => {
+      send({ type: 'phase', phase: intakeState.currentPhase });
+
+      // Stopping the reply in the client cancels the model request too
+      const stream = await provider.streamChat(memory.messages, { task: 'intake', signal });
+      const marker = createMarkerFilter(INTAKE_COMPLETE_MARKER);
+      let reply = '';
+      for await (const text of stream) {
+        reply += text;
+        const visible = marker.push(text);
+        if (visible) send({ type: 'token', text: visible });
+      }
+      const rest = marker.flush();
+      if (rest) send({ type: 'token', text: rest });
 
-    return new Response(readable, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
-      },
+      // Signal the step change explicitly instead of leaving it to the reply text
+      const transition = getIntakeTransition(intakeState, marker.found());
+      if (transition) send({ type: 'transition', ...transition });
+
+      send({
+        type: 'usage',
+        promptTokens: memory.tokens,
+        completionTokens: countTextTokens(reply),
+        budget: memory.budget,
+        condensedMessages: memory.condensedMessages,
+      });
     });
+
+    return new Response(readable, { headers: CHAT_STREAM_HEADERS });
   } catch (error: any) {
     console.error('Chat API error:', error);
     return new Response(
@@ -73,3 +115,15 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Streams the fixed crisis response in place of the intake turn,
+ * after the safety event for the client's persistent alert
+ */
+function createCrisisResponse(safetyEvent: SafetyEvent, language: Language): Response {
+  const readable = createChatEventStream(async (send) => {
+    send({ type: 'safety', event: safetyEvent });
+    send({ type: 'token', text: CRISIS_RESPONSE_MESSAGES[language] });
+  });
+
+  return new Response(readable, { headers: CHAT_STREAM_HEADERS });
+}
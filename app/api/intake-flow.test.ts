@@ -0,0 +1,266 @@
+/**
+ * Intake Flow Tests
+ *
+ * Drives the chat, summary, and recommendations routes in-process with the mock
+ * provider, the way the intake page does: a full interview, then the summary of
+ * that interview, then clinician recommendations for the summary.
+ */
+
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST as chatRoute } from '@/app/api/chat/route';
+import { POST as recommendationsRoute } from '@/app/api/recommendations/route';
+import { POST as summaryRoute } from '@/app/api/summary/route';
+import { INTAKE_COMPLETE_MARKER, IntakePhase, getIntakeGreeting } from '@/lib/agents/intake-agent';
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { ChatStreamEvent, createChatStreamParser } from '@/lib/chat/stream';
+import { Language } from '@/lib/i18n';
+import { IntakeEvalTransition, createScriptedPatient, runIntakeEval } from '@/lib/eval/harness';
+import { PATIENT_PERSONAS } from '@/lib/eval/personas';
+import { MOCK_INTAKE_SCRIPTS } from '@/lib/llm/mock-provider';
+import { CRISIS_RESPONSE_MESSAGES } from '@/lib/safety/crisis-detector';
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+const INTERVIEW_ORDER: IntakePhase[] = [
+  'identifying_info',
+  'chief_complaint',
+  'history_present_illness',
+  'past_psychiatric',
+  'family_history',
+  'medical_history',
+  'substance_use',
+  'mental_status',
+  'functioning',
+  'wrap_up',
+];
+
+const ANSWERS: Record<Language, Partial<Record<IntakePhase, string>>> = {
+  en: {
+    reason_for_visit: "I've been feeling really low for months.",
+    identifying_info: "I'm 34 and I work as a teacher.",
+    chief_complaint: "Mostly that I can't get out of bed in the morning.",
+    history_present_illness: 'It began last winter after I lost my job.',
+    past_psychiatric: 'I saw a therapist in college for anxiety.',
+    family_history: 'My mother has depression.',
+    medical_history: 'I have asthma.',
+    substance_use: 'A glass of wine on weekends.',
+    mental_status: 'Sad and tired most days.',
+    functioning: "I've missed a lot of work.",
+    wrap_up: "No, that's everything.",
+  },
+  es: {
+    reason_for_visit: 'Me he sentido muy triste desde hace meses.',
+    identifying_info: 'Tengo 34 años y soy maestra.',
+    chief_complaint: 'Sobre todo que no puedo levantarme de la cama.',
+    history_present_illness: 'Empezó el invierno pasado cuando perdí el trabajo.',
+    past_psychiatric: 'Vi a una terapeuta en la universidad por ansiedad.',
+    family_history: 'Mi madre tiene depresión.',
+    medical_history: 'Tengo asma.',
+    substance_use: 'Una copa de vino los fines de semana.',
+    mental_status: 'Triste y cansada casi todos los días.',
+    functioning: 'He faltado mucho al trabajo.',
+    wrap_up: 'No, eso es todo.',
+  },
+};
+
+function jsonRequest(path: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function readEvents(response: Response): Promise<ChatStreamEvent[]> {
+  const parser = createChatStreamParser();
+  return [...parser.push(await response.text()), ...parser.push('')];
+}
+
+async function chatTurn(messages: ChatMessage[], language: Language) {
+  const response = await chatRoute(jsonRequest('/api/chat', { messages, language }));
+  expect(response.status).toBe(200);
+
+  const events = await readEvents(response);
+  const phase = events.find((e): e is Extract<ChatStreamEvent, { type: 'phase' }> => e.type === 'phase');
+  const transition = events.find((e): e is Extract<ChatStreamEvent, { type: 'transition' }> => e.type === 'transition');
+  const reply = events.map((e) => (e.type === 'token' ? e.text : '')).join('');
+
+  expect(events[events.length - 1]).toEqual({ type: 'done' });
+  return {
+    reply,
+    phase: phase?.phase,
+    transition: transition ? { transition: transition.transition, reason: transition.reason } : null,
+    events,
+  };
+}
+
+/**
+ * Answers the opening question and then each scripted question in turn
+ */
+async function runInterview(
+  language: Language
+): Promise<{ transcript: ChatMessage[]; transition: IntakeEvalTransition | null }> {
+  const transcript: ChatMessage[] = [
+    { role: 'assistant', content: getIntakeGreeting(language) },
+    { role: 'user', content: ANSWERS[language].reason_for_visit! },
+  ];
+  let transition: IntakeEvalTransition | null = null;
+
+  for (const phase of [...INTERVIEW_ORDER, 'complete' as const]) {
+    const turn = await chatTurn(transcript, language);
+    expect(turn.phase).toBe(phase);
+    expect(turn.reply).toContain(MOCK_INTAKE_SCRIPTS[language][phase]);
+    transcript.push({ role: 'assistant', content: turn.reply });
+    transition = turn.transition;
+
+    if (phase === 'complete') break;
+    expect(transition).toBeNull();
+    transcript.push({ role: 'user', content: ANSWERS[language][phase]! });
+  }
+
+  return { transcript, transition };
+}
+
+async function summarize(transcript: ChatMessage[], language: Language, phq9: number[]): Promise<ClinicalSummary> {
+  const response = await summaryRoute(
+    jsonRequest('/api/summary', {
+      conversationHistory: transcript,
+      instrumentResponses: { phq9 },
+      riskFlag: null,
+      language,
+    })
+  );
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+beforeAll(() => {
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+});
+
+describe('intake with the mock provider', () => {
+  it('asks one scripted question per topic and moves on to the questionnaires', async () => {
+    const { transcript, transition } = await runInterview('en');
+
+    expect(transition).toEqual({ transition: 'questionnaires', reason: 'agent' });
+    // Greeting, opening answer, then a question and answer per topic, then the closing line
+    expect(transcript).toHaveLength(2 + INTERVIEW_ORDER.length * 2 + 1);
+  });
+
+  it('strips the completion marker from the closing reply', async () => {
+    const { transcript } = await runInterview('en');
+
+    expect(transcript[transcript.length - 1].content).toBe(`Thank you. ${MOCK_INTAKE_SCRIPTS.en.complete}`);
+    transcript.forEach((msg) => expect(msg.content).not.toContain(INTAKE_COMPLETE_MARKER));
+  });
+
+  it('interviews in Spanish', async () => {
+    const { transcript, transition } = await runInterview('es');
+
+    expect(transition).toEqual({ transition: 'questionnaires', reason: 'agent' });
+    expect(transcript[transcript.length - 1].content).toContain(MOCK_INTAKE_SCRIPTS.es.complete);
+  });
+
+  it('streams the crisis response instead of the next question', async () => {
+    const turn = await chatTurn(
+      [
+        { role: 'assistant', content: getIntakeGreeting('en') },
+        { role: 'user', content: 'I want to kill myself.' },
+      ],
+      'en'
+    );
+
+    expect(turn.events[0].type).toBe('safety');
+    expect(turn.events.some((e) => e.type === 'phase')).toBe(false);
+    expect(turn.reply).toContain('988');
+  });
+
+  it('screens Spanish messages with the Spanish lexicon', async () => {
+    const turn = await chatTurn(
+      [
+        { role: 'assistant', content: getIntakeGreeting('es') },
+        { role: 'user', content: 'Quiero matarme.' },
+      ],
+      'es'
+    );
+
+    expect(turn.events[0]).toMatchObject({ type: 'safety', event: { category: 'intent' } });
+    expect(turn.reply).toBe(CRISIS_RESPONSE_MESSAGES.es);
+  });
+});
+
+describe('summary and recommendations with the mock provider', () => {
+  it('summarizes each topic from the patient answer with citations', async () => {
+    const { transcript } = await runInterview('en');
+    const summary = await summarize(transcript, 'en', [2, 2, 1, 1, 2, 1, 1, 2, 0]);
+
+    expect(summary.familyHistory).toBe(`Patient reports: ${ANSWERS.en.family_history}`);
+    expect(summary.substanceUse).toBe(`Patient reports: ${ANSWERS.en.substance_use}`);
+    expect(summary.medicalHistory).toBe(`Patient reports: ${ANSWERS.en.medical_history}`);
+    expect(summary.phq9Score).toBe(12);
+    expect(summary.phq9Severity).toBe('Moderate Depression');
+    expect(summary.instrumentScores.map((s) => [s.instrumentId, s.score, s.severity])).toEqual([
+      ['phq9', 12, 'Moderate Depression'],
+      ['phq2', 4, 'Positive Screen'],
+    ]);
+    expect(summary.language).toBe('en');
+
+    const familyIndex = transcript.findIndex((msg) => msg.content === ANSWERS.en.family_history);
+    expect(summary.citations?.familyHistory).toEqual([familyIndex]);
+  });
+
+  it('keeps Spanish answers as original-language quotes', async () => {
+    const { transcript } = await runInterview('es');
+    const summary = await summarize(transcript, 'es', [1, 1, 1, 1, 1, 0, 0, 0, 0]);
+
+    expect(summary.language).toBe('es');
+    expect(summary.originalQuotes?.familyHistory).toEqual([ANSWERS.es.family_history]);
+  });
+
+  it('recommends by the fixed triage rules with the model rationale', async () => {
+    const { transcript } = await runInterview('en');
+    const summary = await summarize(transcript, 'en', [3, 3, 3, 3, 3, 2, 2, 3, 0]);
+
+    const response = await recommendationsRoute(
+      jsonRequest('/api/recommendations', { summary, phq9Item9: 0, safetyEvents: [] })
+    );
+    expect(response.status).toBe(200);
+    const recommendations = await response.json();
+
+    expect(recommendations.urgency).toBe('high');
+    expect(recommendations.assessment).toBe('Urgency high is based on the triage rules listed for this intake.');
+    expect(recommendations.recommendations.length).toBeGreaterThan(0);
+    expect(recommendations.triageReasons.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a recommendations request without a summary', async () => {
+    const response = await recommendationsRoute(jsonRequest('/api/recommendations', {}));
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('simulated patients with the mock provider', () => {
+  it.each(PATIENT_PERSONAS.map((persona) => [persona.id, persona] as const))(
+    'covers every topic once with the %s persona',
+    async (_id, persona) => {
+      const result = await runIntakeEval(
+        persona,
+        createScriptedPatient(persona),
+        {
+          chat: async (transcript, p) => {
+            const turn = await chatTurn(transcript, p.language);
+            return { reply: turn.reply, transition: turn.transition };
+          },
+          summarize: (transcript, p) => summarize(transcript, p.language, p.phq9Responses),
+        },
+        { mode: 'scripted' }
+      );
+
+      expect(result.completed).toBe(true);
+      expect(result.endedBy).toBe('agent');
+      expect(result.scores.topicCoverage).toBe(1);
+      expect(result.scores.repeatedQuestions).toBe(0);
+    }
+  );
+});
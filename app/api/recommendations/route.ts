@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { createEmptySummary } from '@/lib/agents/summary-agent';
+import { createTriageInput, generateRecommendations } from '@/lib/agents/recommendation-agent';
+import { getLLMConfigError, getLLMProvider } from '@/lib/llm';
+
+/**
+ * Recommendations API Route
+ *
+ * Produces clinician-only recommendations for a completed intake.
+ * Urgency comes from deterministic triage rules; the model writes the rationale.
+ * Responses from this route must never be shown to the patient.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    const { summary, phq9Item9, safetyEvents } = await req.json();
+
+    if (!summary) {
+      return new Response(
+        JSON.stringify({ error: 'A clinical summary is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const configError = getLLMConfigError();
+    if (configError) {
+      return new Response(
+        JSON.stringify({ error: configError }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const fullSummary = { ...createEmptySummary(), ...summary };
+    const recommendations = await generateRecommendations(
+      getLLMProvider(),
+      fullSummary,
+      createTriageInput(fullSummary, phq9Item9 ?? 0, safetyEvents ?? [])
+    );
+
+    return new Response(JSON.stringify(recommendations), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Recommendations API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to generate recommendations' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { getSubmissionStore } from '@/lib/storage';
+import { buildAssessmentBundle } from '@/lib/fhir/export';
+import { checkRoundTrip, validateBundle } from '@/lib/fhir/validate';
+
+/**
+ * FHIR Export API Route
+ *
+ * GET returns a submission as a FHIR R4 document Bundle (Composition, Patient,
+ * PHQ-9 QuestionnaireResponse, and score Observation). The Bundle is validated
+ * and read back before it is returned; a Bundle that fails is never sent.
+ */
+
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const submission = await getSubmissionStore().get(params.id);
+    if (!submission) {
+      return new Response(
+        JSON.stringify({ error: `Submission not found: ${params.id}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const bundle = buildAssessmentBundle(submission);
+    const issues = [...validateBundle(bundle), ...checkRoundTrip(submission, bundle)];
+    if (issues.length > 0) {
+      console.error('FHIR export failed validation:', issues);
+      return new Response(
+        JSON.stringify({ error: 'The FHIR export failed validation', details: issues }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/fhir+json',
+        'Content-Disposition': `attachment; filename="assessment-${submission.id}.fhir.json"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('FHIR export API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to export submission' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { getSubmissionStore } from '@/lib/storage';
+import {
+  NOTE_TEMPLATES,
+  getClinicNoteTemplateId,
+  isNoteFormat,
+  isNoteTemplateId,
+  renderNote,
+} from '@/lib/notes';
+
+/**
+ * Clinical Note API Route
+ *
+ * GET renders a submission as a clinical note.
+ * Query: template (soap, psychiatric_hp, dap; default the clinic's template),
+ * format (markdown or text; default markdown), download (1 to return the note
+ * itself as a file instead of the JSON preview).
+ */
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const query = req.nextUrl.searchParams;
+    const templateId = query.get('template') ?? getClinicNoteTemplateId();
+    const format = query.get('format') ?? 'markdown';
+
+    if (!isNoteTemplateId(templateId) || !isNoteFormat(format)) {
+      return new Response(
+        JSON.stringify({
+          error: `Unknown ${isNoteTemplateId(templateId) ? `format: ${format}` : `template: ${templateId}`}`,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const submission = await getSubmissionStore().get(params.id);
+    if (!submission) {
+      return new Response(
+        JSON.stringify({ error: `Submission not found: ${params.id}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const content = renderNote(NOTE_TEMPLATES[templateId], submission, format);
+
+    if (query.get('download') === '1') {
+      const extension = format === 'markdown' ? 'md' : 'txt';
+      return new Response(content, {
+        headers: {
+          'Content-Type': `${format === 'markdown' ? 'text/markdown' : 'text/plain'}; charset=utf-8`,
+          'Content-Disposition': `attachment; filename="${templateId}-note-${submission.id}.${extension}"`,
+        },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        templateId,
+        format,
+        content,
+        clinicTemplateId: getClinicNoteTemplateId(),
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Note API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to render note' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { getSubmissionStore } from '@/lib/storage';
+import { getSessionUser } from '@/lib/auth';
+
+/**
+ * Submission Notes API Route
+ *
+ * POST adds a clinician note to a submission, attributed to the signed-in user.
+ */
+
+const MAX_NOTE_LENGTH = 10000;
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { text } = await req.json();
+    const trimmed = typeof text === 'string' ? text.trim() : '';
+    if (!trimmed || trimmed.length > MAX_NOTE_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `Note text is required (up to ${MAX_NOTE_LENGTH} characters)` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await getSessionUser(req);
+    const note = await getSubmissionStore().addNote(params.id, trimmed, user?.username ?? 'unknown');
+    if (!note) {
+      return new Response(
+        JSON.stringify({ error: `Submission not found: ${params.id}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(JSON.stringify(note), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Submission notes API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to add note' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
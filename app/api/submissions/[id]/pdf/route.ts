@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { getSubmissionStore } from '@/lib/storage';
+import { renderSummaryPDF } from '@/lib/pdf/summary-pdf';
+
+/**
+ * Submission PDF API Route
+ *
+ * GET returns a stored submission's clinical summary as a PDF document.
+ */
+
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const submission = await getSubmissionStore().get(params.id);
+    if (!submission) {
+      return new Response(
+        JSON.stringify({ error: `Submission not found: ${params.id}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const pdf = await renderSummaryPDF({
+      summary: submission.summary,
+      phq9Responses: submission.phq9Responses,
+      safetyEvents: submission.safetyEvents,
+      reference: submission.id,
+    });
+
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="assessment-${submission.id}.pdf"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Submission PDF API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to generate PDF' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
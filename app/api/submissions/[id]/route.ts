@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { getSubmissionStore } from '@/lib/storage';
+import { isSubmissionStatus } from '@/lib/storage/validation';
+
+/**
+ * Submission API Route
+ *
+ * GET returns a single submission.
+ * PATCH updates its status (received, reviewed, or closed).
+ */
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(id: string) {
+  return new Response(
+    JSON.stringify({ error: `Submission not found: ${id}` }),
+    { status: 404, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const submission = await getSubmissionStore().get(params.id);
+    if (!submission) return notFound(params.id);
+
+    return new Response(JSON.stringify(submission), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Submission API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to load submission' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { status } = await req.json();
+    if (!isSubmissionStatus(status)) {
+      return new Response(
+        JSON.stringify({ error: 'status must be one of received, reviewed, closed' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const submission = await getSubmissionStore().updateStatus(params.id, status);
+    if (!submission) return notFound(params.id);
+
+    return new Response(JSON.stringify(submission), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Submission API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to update submission' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { getSubmissionStore } from '@/lib/storage';
+import { diffSummaries } from '@/lib/agents/summary-diff';
+import { sortReviewQueue, toReviewQueueItem } from '@/lib/clinician/review-queue';
+import { isSubmissionStatus, validateNewSubmission } from '@/lib/storage/validation';
+
+/**
+ * Submissions API Route
+ *
+ * POST stores a submitted assessment (final summary, the agent's draft, PHQ-9
+ * answers, transcript, and safety events) with status "received" and returns its
+ * id. The patient's edits to the draft are recorded as a field-level diff.
+ * GET returns the clinician review queue, most urgent first, optionally
+ * filtered by ?status=.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    const result = validateNewSubmission(await req.json());
+    if (!result.value) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid submission', details: result.errors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { summary, draft } = result.value;
+    const edits = draft ? diffSummaries(draft, summary) : [];
+
+    const submission = await getSubmissionStore().create(result.value, edits);
+
+    return new Response(
+      JSON.stringify({ id: submission.id, status: submission.status, createdAt: submission.createdAt }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Submissions API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to store submission' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const status = req.nextUrl.searchParams.get('status');
+    if (status !== null && !isSubmissionStatus(status)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown status: ${status}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const submissions = await getSubmissionStore().list(status ? { status } : {});
+    const queue = sortReviewQueue(submissions.map(toReviewQueueItem));
+
+    return new Response(JSON.stringify(queue), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Submissions API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to list submissions' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
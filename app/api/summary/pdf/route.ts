@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { validateClinicalSummary } from '@/lib/agents/summary-schema';
+import { isPHQ9Answers } from '@/lib/storage/validation';
+import { PHQ9 } from '@/lib/instruments';
+import { renderSummaryPDF } from '@/lib/pdf/summary-pdf';
+
+/**
+ * Summary PDF API Route
+ *
+ * POST renders the patient's reviewed summary as a PDF for download.
+ * Body: { summary, phq9Responses, safetyEvents?, reference? } where reference
+ * is the submission id returned when the assessment was submitted.
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    const { summary, phq9Responses, safetyEvents = [], reference } = await req.json();
+
+    const result = validateClinicalSummary(summary);
+    const errors = result.errors.map((e) => ({ ...e, field: `summary.${e.field}` }));
+    if (!isPHQ9Answers(phq9Responses)) {
+      errors.push({ field: 'phq9Responses', message: `expected ${PHQ9.items.length} answers between 0 and 3` });
+    }
+    if (!Array.isArray(safetyEvents)) {
+      errors.push({ field: 'safetyEvents', message: 'expected an array' });
+    }
+    if (errors.length > 0 || !result.value) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid summary', details: errors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const pdf = await renderSummaryPDF({
+      summary: result.value,
+      phq9Responses,
+      safetyEvents,
+      reference: typeof reference === 'string' && reference ? reference : null,
+    });
+
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="intake-summary.pdf"',
+      },
+    });
+  } catch (error: any) {
+    console.error('Summary PDF API error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to generate PDF' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,44 +1,82 @@
 import { NextRequest } from 'next/server';
-import OpenAI from 'openai';
-import { SUMMARY_AGENT_SYSTEM_PROMPT, getPHQ9Severity } from '@/lib/agents/summary-agent';
+import {
+  ClinicalSummary,
+  SUMMARY_AGENT_SYSTEM_PROMPT,
+  getPHQ9Severity,
+  sanitizeCitations,
+  sanitizeQuotes,
+} from '@/lib/agents/summary-agent';
+import {
+  SUMMARY_MODEL_FIELDS,
+  SchemaResult,
+  SummaryModelField,
+  buildRepairPrompt,
+  parseSummaryResponse,
+} from '@/lib/agents/summary-schema';
+import { checkDemographics } from '@/lib/agents/demographics';
+import { formatRiskFlag } from '@/lib/safety/suicide-risk';
+import { InstrumentResponses, PHQ9, formatInstrumentScores, scoreInstrument, scoreInstruments } from '@/lib/instruments';
+import { LLMMessage, getLLMConfigError, getLLMProvider } from '@/lib/llm';
+import { DEFAULT_LANGUAGE, Language, getLanguageName, isLanguage } from '@/lib/i18n';
 
 /**
  * Summary API Route
  * 
- * Generates a clinical summary from the intake conversation and PHQ-9 data.
- * Uses GPT-4 to create a structured, factual clinical summary.
+ * Generates a clinical summary from the intake conversation and questionnaire data.
+ * Uses the configured LLM provider to create a structured, factual clinical summary.
+ * Output is validated against the summary schema; invalid output is re-asked
+ * with the errors, and fields that never validate are reported back. Demographic
+ * details are normalized and marked for the patient to confirm where needed.
+ * Intakes in other languages are summarized in English with the patient's
+ * original-language quotes kept alongside.
  */
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const MAX_SUMMARY_ATTEMPTS = 3;
 
 export async function POST(req: NextRequest) {
   try {
-    const { conversationHistory, phq9Score } = await req.json();
+    const { conversationHistory, instrumentResponses, riskFlag, language: requestedLanguage } = await req.json();
+    const language: Language = isLanguage(requestedLanguage) ? requestedLanguage : DEFAULT_LANGUAGE;
 
-    if (!process.env.OPENAI_API_KEY) {
+    const configError = getLLMConfigError();
+    if (configError) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        JSON.stringify({ error: configError }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // Build prompt for summary generation
+    // Build prompt for summary generation; messages are numbered so sections can cite them
     const conversationText = conversationHistory
-      .map((msg: { role: string; content: string }) => `${msg.role}: ${msg.content}`)
+      .map((msg: { role: string; content: string }, idx: number) => `[${idx}] ${msg.role}: ${msg.content}`)
       .join('\n\n');
 
+    // Scores are computed here from the raw responses, never taken from the client or the model
+    const responses: InstrumentResponses = instrumentResponses ?? {};
+    const phq9Score = scoreInstrument(PHQ9, responses.phq9 ?? []);
     const phq9Severity = getPHQ9Severity(phq9Score);
+    const instrumentScores = scoreInstruments(responses);
+    const otherScores = instrumentScores.filter((s) => s.instrumentId !== 'phq9');
 
-    const summaryPrompt = `Based on the following intake conversation and PHQ-9 assessment, generate a structured clinical summary.
+    const languageName = getLanguageName(language);
+    const languageInstructions = language === 'en'
+      ? 'The conversation was conducted in English. Use {} for "originalQuotes".'
+      : `The conversation was conducted in ${languageName}. Write every section in English, translating what the patient said. In "originalQuotes", give for each section up to 3 short quotes that support it, copied word for word in ${languageName} from the patient's messages.`;
+
+    const summaryPrompt = `Conversation language: ${languageName} (${language})
+
+Based on the following intake conversation and PHQ-9 assessment, generate a structured clinical summary.
 
 PHQ-9 Score: ${phq9Score} / 27
 PHQ-9 Severity: ${phq9Severity}
-
+${otherScores.length > 0 ? `\nOther Screening Instruments:\n${formatInstrumentScores(otherScores)}\n` : ''}${riskFlag ? `\nSafety Screening (C-SSRS follow-up to PHQ-9 item 9):\n${formatRiskFlag(riskFlag)}\n` : ''}
 Conversation:
 ${conversationText}
 
+${languageInstructions}
+
+Extract the patient's identifying details from the identifying information they gave: name, date of birth, gender, pronouns, race/ethnicity, address, phone, email, and emergency contact (name, relationship, and phone). Copy each detail as the patient wrote it. Use "" for any detail the patient did not state; never guess or infer one.
+
 Please generate a comprehensive clinical summary with the following structure:
 - Chief Complaint
 - History of Present Illness
@@ -52,6 +90,15 @@ Please generate a comprehensive clinical summary with the following structure:
 
 Format the response as a JSON object with these fields:
 {
+  "name": "...",
+  "dob": "...",
+  "gender": "...",
+  "pronouns": "...",
+  "raceEthnicity": "...",
+  "address": "...",
+  "phone": "...",
+  "email": "...",
+  "emergencyContact": "...",
   "chiefComplaint": "...",
   "historyOfPresentIllness": "...",
   "pastPsychiatricHistory": "...",
@@ -61,44 +108,69 @@ Format the response as a JSON object with these fields:
   "mentalStatus": "...",
   "functioning": "...",
   "phq9Severity": "${phq9Severity}",
-  "additionalNotes": "..."
+  "additionalNotes": "...",
+  "citations": {
+    "chiefComplaint": [1],
+    "historyOfPresentIllness": [3, 5],
+    ...
+  },
+  "originalQuotes": {
+    "chiefComplaint": ["..."],
+    ...
+  }
 }
 
+In "citations", list for each section the bracketed numbers of the user messages that support it. Only cite user messages. Use [] for a section with no supporting message.
+
 Return only valid JSON, no additional text.`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: SUMMARY_AGENT_SYSTEM_PROMPT },
-        { role: 'user', content: summaryPrompt },
-      ],
-      temperature: 0.5,
-    });
+    // Ask for the summary, re-asking with the schema errors until the output validates
+    const provider = getLLMProvider();
+    const messages: LLMMessage[] = [
+      { role: 'system', content: SUMMARY_AGENT_SYSTEM_PROMPT },
+      { role: 'user', content: summaryPrompt },
+    ];
+
+    let result: SchemaResult<Pick<ClinicalSummary, SummaryModelField>> = { value: null, errors: [] };
+    for (let attempt = 1; attempt <= MAX_SUMMARY_ATTEMPTS; attempt++) {
+      const responseText = await provider.completeJSON(messages, { task: 'summary' });
+      result = parseSummaryResponse(responseText, SUMMARY_MODEL_FIELDS);
+      if (result.value) break;
+
+      console.warn(`Summary attempt ${attempt} failed validation:`, result.errors);
+      messages.push(
+        { role: 'assistant', content: responseText },
+        { role: 'user', content: buildRepairPrompt(result.errors) }
+      );
+    }
 
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    
-    // Try to parse JSON, fallback to structured text parsing if needed
-    let summaryData;
-    try {
-      summaryData = JSON.parse(responseText);
-    } catch (parseError) {
-      // If JSON parsing fails, extract structured data from text
-      summaryData = {
-        chiefComplaint: extractSection(responseText, 'Chief Complaint'),
-        historyOfPresentIllness: extractSection(responseText, 'History of Present Illness'),
-        pastPsychiatricHistory: extractSection(responseText, 'Past Psychiatric History'),
-        familyHistory: extractSection(responseText, 'Family History'),
-        medicalHistory: extractSection(responseText, 'Medical History'),
-        substanceUse: extractSection(responseText, 'Substance Use'),
-        mentalStatus: extractSection(responseText, 'Mental Status'),
-        functioning: extractSection(responseText, 'Social/Occupational Functioning'),
-        phq9Severity: phq9Severity,
-        additionalNotes: extractSection(responseText, 'Additional Notes') || '',
-      };
+    if (!result.value) {
+      return new Response(
+        JSON.stringify({
+          error: 'The summary could not be produced in the required format',
+          fields: Array.from(new Set(result.errors.map((e) => e.field))),
+          details: result.errors,
+        }),
+        { status: 422, headers: { 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Add PHQ-9 score
+    const demographics = checkDemographics(result.value, conversationHistory);
+
+    const summaryData: Partial<ClinicalSummary> = {
+      ...result.value,
+      ...demographics.values,
+      demographicChecks: demographics.checks,
+      citations: sanitizeCitations(result.value.citations, conversationHistory),
+      language,
+      originalQuotes: language === 'en' ? {} : sanitizeQuotes(result.value.originalQuotes, conversationHistory),
+    };
+
+    // Add instrument scores, severity and the structured risk flag (never model-generated)
     summaryData.phq9Score = phq9Score;
+    summaryData.phq9Severity = phq9Severity;
+    summaryData.instrumentScores = instrumentScores;
+    summaryData.riskFlag = riskFlag ?? null;
 
     return new Response(JSON.stringify(summaryData), {
       headers: { 'Content-Type': 'application/json' },
@@ -112,11 +184,3 @@ Return only valid JSON, no additional text.`;
   }
 }
 
-/**
- * Helper function to extract section content from text
- */
-function extractSection(text: string, sectionName: string): string {
-  const regex = new RegExp(`${sectionName}[:\\-]?\\s*([^\\n]+(?:\\n(?!\\w+[:\\-])[^\\n]+)*)`, 'i');
-  const match = text.match(regex);
-  return match ? match[1].trim() : '';
-}
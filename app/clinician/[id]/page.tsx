@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChatMessage } from '@/components/ChatMessage';
+import { ClinicianNotes } from '@/components/ClinicianNotes';
+import { InstrumentAnswers } from '@/components/InstrumentAnswers';
+import { NotePreview } from '@/components/NotePreview';
+import { RecommendationPanel } from '@/components/RecommendationPanel';
+import { SummaryEdits } from '@/components/SummaryEdits';
+import { SummaryView } from '@/components/SummaryView';
+import { Button } from '@/components/ui/button';
+import { getPHQ9Item9 } from '@/lib/clinician/review-queue';
+import { PHQ9 } from '@/lib/instruments';
+import { ClinicianNote, Submission, SubmissionStatus } from '@/lib/storage/types';
+
+/**
+ * Submission Review Page
+ *
+ * Read-only clinician view of one submitted intake: summary, the patient's edits
+ * to the AI draft, PHQ-9 item answers, recommendations, and the full transcript.
+ * Clinicians can mark the intake reviewed or closed and add notes; the patient's
+ * content cannot be edited here.
+ */
+
+export default function SubmissionReviewPage({ params }: { params: { id: string } }) {
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    const loadSubmission = async () => {
+      try {
+        const response = await fetch(`/api/submissions/${params.id}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Submission not found.' : 'Submission could not be loaded.');
+        }
+        setSubmission(await response.json());
+      } catch (err) {
+        console.error('Error loading submission:', err);
+        setError((err as Error).message);
+      }
+    };
+
+    loadSubmission();
+  }, [params.id]);
+
+  const updateStatus = async (status: SubmissionStatus) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/submissions/${params.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update status');
+      }
+      setSubmission(await response.json());
+    } catch (err) {
+      console.error('Error updating status:', err);
+      alert('The status could not be updated. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleNoteAdded = (note: ClinicianNote) => {
+    setSubmission((prev) => (prev ? { ...prev, notes: [...prev.notes, note] } : prev));
+  };
+
+  return (
+    <>
+      {/* Spacer for fixed header */}
+      <div className="h-14 shrink-0" />
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto max-w-4xl py-8 px-4 space-y-8">
+          <Link href="/clinician" className="text-sm text-muted-foreground hover:text-foreground">
+            ← Back to submissions
+          </Link>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {!submission && !error && <p className="text-sm text-muted-foreground">Loading submission...</p>}
+
+          {submission && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <h2 className="text-2xl font-semibold">{submission.summary.name || 'Unnamed patient'}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Submitted {new Date(submission.createdAt).toLocaleString()} · Status:{' '}
+                    <span className="capitalize">{submission.status}</span>
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" asChild>
+                    <a href={`/api/submissions/${submission.id}/fhir`} download>
+                      Export FHIR
+                    </a>
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <a href={`/api/submissions/${submission.id}/pdf`} download>
+                      Export PDF
+                    </a>
+                  </Button>
+                  {submission.status === 'received' && (
+                    <Button onClick={() => updateStatus('reviewed')} disabled={isUpdating}>
+                      Mark Reviewed
+                    </Button>
+                  )}
+                  {submission.status !== 'closed' && (
+                    <Button variant="outline" onClick={() => updateStatus('closed')} disabled={isUpdating}>
+                      Close
+                    </Button>
+                  )}
+                  {submission.status === 'closed' && (
+                    <Button variant="outline" onClick={() => updateStatus('reviewed')} disabled={isUpdating}>
+                      Reopen
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {submission.safetyEvents.length > 0 && (
+                <section className="rounded-lg border border-destructive p-4 space-y-2">
+                  <h3 className="font-semibold text-destructive">Crisis language detected during intake</h3>
+                  <ul className="list-disc pl-5 text-sm space-y-1">
+                    {submission.safetyEvents.map((event, idx) => (
+                      <li key={idx}>
+                        <span className="capitalize">{event.category.replace(/_/g, ' ')}</span> ({event.level} risk,{' '}
+                        {event.source}) at {new Date(event.detectedAt).toLocaleString()}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              <RecommendationPanel
+                summary={submission.summary}
+                phq9Item9={getPHQ9Item9(submission)}
+                safetyEvents={submission.safetyEvents}
+              />
+
+              <SummaryView summary={submission.summary} transcript={submission.transcript} />
+
+              <SummaryEdits edits={submission.edits} hasDraft={submission.draft !== null} />
+
+              <section className="space-y-3">
+                <h3 className="text-lg font-semibold">PHQ-9 Item Answers</h3>
+                <InstrumentAnswers instrument={PHQ9} values={submission.phq9Responses} />
+              </section>
+
+              <NotePreview submissionId={submission.id} />
+
+              <ClinicianNotes
+                submissionId={submission.id}
+                notes={submission.notes}
+                onNoteAdded={handleNoteAdded}
+              />
+
+              <section className="space-y-3">
+                <h3 className="text-lg font-semibold">Transcript</h3>
+                <div className="rounded-lg border border-border p-4">
+                  {submission.transcript.map((msg, idx) => (
+                    <ChatMessage key={idx} role={msg.role} content={msg.content} />
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { UrgencyBadge } from '@/components/UrgencyBadge';
+import { Button } from '@/components/ui/button';
+import { ReviewQueueItem } from '@/lib/clinician/review-queue';
+import { SUBMISSION_STATUSES, SubmissionStatus } from '@/lib/storage/types';
+import { getRiskLevelLabel } from '@/lib/safety/suicide-risk';
+import { cn } from '@/lib/utils';
+
+/**
+ * Clinician Dashboard
+ *
+ * Lists submitted intakes, most urgent first (triage urgency, then PHQ-9 score),
+ * with a status filter. Each row opens the read-only review page.
+ */
+
+type StatusFilter = SubmissionStatus | 'all';
+
+export default function ClinicianDashboard() {
+  const [filter, setFilter] = useState<StatusFilter>('received');
+  const [items, setItems] = useState<ReviewQueueItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setItems(null);
+      setError(null);
+      try {
+        const query = filter === 'all' ? '' : `?status=${filter}`;
+        const response = await fetch(`/api/submissions${query}`);
+        if (!response.ok) {
+          throw new Error('Failed to load submissions');
+        }
+        setItems(await response.json());
+      } catch (err) {
+        console.error('Error loading submissions:', err);
+        setError('Submissions could not be loaded.');
+      }
+    };
+
+    loadQueue();
+  }, [filter]);
+
+  return (
+    <>
+      {/* Spacer for fixed header */}
+      <div className="h-14 shrink-0" />
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto py-8 px-4 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <h2 className="text-2xl font-semibold">Submitted Intakes</h2>
+            <div className="flex gap-2">
+              {(['all', ...SUBMISSION_STATUSES] as StatusFilter[]).map((status) => (
+                <Button
+                  key={status}
+                  variant={filter === status ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setFilter(status)}
+                  className="capitalize"
+                >
+                  {status}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {!items && !error && <p className="text-sm text-muted-foreground">Loading submissions...</p>}
+          {items?.length === 0 && <p className="text-sm text-muted-foreground">No submissions.</p>}
+
+          {items && items.length > 0 && (
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Urgency</th>
+                    <th className="px-4 py-2 font-medium">Patient</th>
+                    <th className="px-4 py-2 font-medium">Chief Complaint</th>
+                    <th className="px-4 py-2 font-medium">PHQ-9</th>
+                    <th className="px-4 py-2 font-medium">Risk</th>
+                    <th className="px-4 py-2 font-medium">Status</th>
+                    <th className="px-4 py-2 font-medium">Submitted</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {items.map((item) => (
+                    <tr key={item.id} className="hover:bg-muted/30">
+                      <td className="px-4 py-3">
+                        <UrgencyBadge urgency={item.urgency} />
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link href={`/clinician/${item.id}`} className="font-medium underline-offset-4 hover:underline">
+                          {item.patientName || 'Unnamed patient'}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 max-w-xs truncate">{item.chiefComplaint || '—'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {item.phq9Score} — {item.phq9Severity}
+                      </td>
+                      <td className={cn('px-4 py-3 whitespace-nowrap', item.riskLevel !== 'none' && 'text-destructive')}>
+                        {item.riskLevel === 'none' ? '—' : getRiskLevelLabel(item.riskLevel)}
+                      </td>
+                      <td className="px-4 py-3 capitalize">{item.status}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-muted-foreground">
+                        {new Date(item.createdAt).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -3,6 +3,7 @@ import { Inter } from 'next/font/google';
 import './globals.css';
 import { AssessmentProvider } from '@/contexts/AssessmentContext';
 import { AppHeader } from '@/components/AppHeader';
+import { ResumeSessionPrompt } from '@/components/ResumeSessionPrompt';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -21,6 +22,7 @@ export default function RootLayout({
       <body className={inter.className}>
         <AssessmentProvider>
           <AppHeader />
+          <ResumeSessionPrompt />
           {children}
         </AssessmentProvider>
       </body>
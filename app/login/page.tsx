@@ -0,0 +1,19 @@
+import { AuthForm } from '@/components/AuthForm';
+
+/**
+ * Login Page
+ *
+ * Sign-in for patients, clinicians, and admins.
+ */
+
+export default function LoginPage({ searchParams }: { searchParams: { next?: string } }) {
+  return (
+    <>
+      {/* Spacer for fixed header */}
+      <div className="h-14 shrink-0" />
+      <div className="min-h-screen bg-background py-16 px-4">
+        <AuthForm mode="login" next={searchParams.next} />
+      </div>
+    </>
+  );
+}
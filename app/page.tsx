@@ -1,127 +1,167 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { ImportantBanner } from '@/components/ImportantBanner';
 import { ChatBox } from '@/components/ChatBox';
 import { ChatMessage } from '@/components/ChatMessage';
-import { PHQ9Form } from '@/components/PHQ9Form';
+import { InstrumentForm } from '@/components/InstrumentForm';
+import { SuicideRiskScreener } from '@/components/SuicideRiskScreener';
+import { CrisisResources } from '@/components/CrisisResources';
+import { CrisisAlert } from '@/components/CrisisAlert';
+import { LanguagePicker } from '@/components/LanguagePicker';
 import { useAssessment } from '@/contexts/AssessmentContext';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChatRequest, useChatStream } from '@/hooks/useChatStream';
+import { ArrowRight, Pencil, RotateCcw } from 'lucide-react';
+import { PHQ9_SELF_HARM_ITEM_INDEX, requiresRiskFollowUp } from '@/lib/safety/suicide-risk';
+import { INTAKE_CONTINUE_AFTER_TURNS, countPatientTurns, getIntakeGreeting } from '@/lib/agents/intake-agent';
+import { ADMINISTERED_INSTRUMENTS, InstrumentId, getInstrument } from '@/lib/instruments';
+import { Language, getMessages } from '@/lib/i18n';
 
 /**
  * Main Intake Page
  * 
  * Handles the intake conversation flow with the intake agent.
- * Manages transitions between chat, PHQ-9 form, and summary generation.
+ * Manages transitions between chat, questionnaires, safety follow-up, and summary generation.
+ * The patient picks a language first; the conversation and questionnaires follow it.
+ * During the interview the patient can stop a reply, regenerate it, or edit their last message.
+ * Once they have answered enough questions they can also move on to the questionnaires
+ * themselves, so an interview the agent does not end never leaves them stuck.
  */
 
 export default function Home() {
-  const { state, addMessage, setCurrentStep, setClinicalSummary } = useAssessment();
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [streamingContent, setStreamingContent] = useState('');
+  const {
+    state,
+    setLanguage,
+    addMessage,
+    truncateConversation,
+    replaceMessage,
+    addSafetyEvent,
+    setCurrentStep,
+    setSummaryDraft,
+    setRiskFlag,
+  } = useAssessment();
+  const { streamChat, stop, isStreaming, streamingContent, error: chatError } = useChatStream();
+  // Index of the patient message being rewritten, if any
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
+  const t = getMessages(state.language);
+
+  // Next questionnaire the patient has not completed yet
+  const nextInstrumentId = ADMINISTERED_INSTRUMENTS.find(
+    (id) => !state.completedInstruments.includes(id)
+  );
 
   // Scroll to bottom when messages update
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [state.conversationHistory, streamingContent]);
 
-  // Initialize with greeting if conversation is empty
-  useEffect(() => {
-    if (state.conversationHistory.length === 0 && state.currentStep === 'intake') {
-      handleInitialGreeting();
+  // Regenerate and edit act on the patient's latest message and everything after it
+  const lastUserIndex = state.conversationHistory.map((msg) => msg.role).lastIndexOf('user');
+
+  const canContinueToQuestionnaires =
+    countPatientTurns(state.conversationHistory) >= INTAKE_CONTINUE_AFTER_TURNS;
+
+  // A new intake starts by choosing a language; sessions saved before languages were offered continue as they are
+  const needsLanguage = state.language === null && state.conversationHistory.length === 0;
+
+  // The intake agent greets the patient once they have chosen a language
+  const handleLanguageSelected = (language: Language) => {
+    setLanguage(language);
+    if (state.conversationHistory.length === 0) {
+      addMessage('assistant', getIntakeGreeting(language));
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  };
+
+  /**
+   * Streams the agent's reply to a conversation that ends with a patient message
+   */
+  const requestReply = async (messages: ChatRequest['messages']) => {
+    const reply = await streamChat(
+      { messages, language: state.language },
+      // The chat route replaces the turn with a crisis response when it detects risk
+      { onSafetyEvent: addSafetyEvent }
+    );
+    if (!reply) return;
 
-  const handleInitialGreeting = async () => {
-    const greeting = "Hello! I'm here to help you with your psychiatric intake assessment. I'll ask you some questions about your mental health history, symptoms, and current concerns. This information will help us understand your situation better.\n\nLet's begin. Can you tell me what brings you in today? What's your main concern or reason for seeking psychiatric care?";
-    addMessage('assistant', greeting);
+    // A stopped reply keeps what had arrived, and can be regenerated
+    if (reply.content) {
+      addMessage('assistant', reply.content);
+    }
+
+    // The intake agent signals when the interview is complete
+    if (reply.transition === 'questionnaires') {
+      // Small delay before transitioning
+      setTimeout(() => {
+        setCurrentStep('questionnaires');
+      }, 2000);
+    }
   };
 
   const handleSendMessage = async (userMessage: string) => {
-    addMessage('user', userMessage);
-
-    // Check if user wants to proceed to PHQ-9
-    const lowerMessage = userMessage.toLowerCase();
-    if (lowerMessage.includes('phq-9') || lowerMessage.includes('phq9') || 
-        lowerMessage.includes('questionnaire') || lowerMessage.includes('complete')) {
-      setCurrentStep('phq9');
+    if (editingIndex !== null) {
+      const edited = [
+        ...state.conversationHistory.slice(0, editingIndex),
+        { role: 'user' as const, content: userMessage },
+      ];
+      replaceMessage(editingIndex, userMessage);
+      setEditingIndex(null);
+      await requestReply(edited);
       return;
     }
 
-    setIsStreaming(true);
-    setStreamingContent('');
+    addMessage('user', userMessage);
+    await requestReply([...state.conversationHistory, { role: 'user' as const, content: userMessage }]);
+  };
 
-    try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [
-            ...state.conversationHistory.map(msg => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-            { role: 'user' as const, content: userMessage },
-          ],
-        }),
-      });
+  const handleRegenerate = async () => {
+    const history = state.conversationHistory.slice(0, lastUserIndex + 1);
+    truncateConversation(history.length);
+    await requestReply(history);
+  };
 
-      if (!response.ok) {
-        throw new Error('Failed to get response');
+  const handleInstrumentComplete = async (id: InstrumentId) => {
+    // Any positive answer to PHQ-9 item 9 requires the suicide risk follow-up first
+    if (id === 'phq9') {
+      const item9 = state.phq9Responses[PHQ9_SELF_HARM_ITEM_INDEX]?.value ?? 0;
+      if (requiresRiskFollowUp(item9)) {
+        setRiskFlag(null);
+        setCurrentStep('safety');
+        return;
       }
+    }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (reader) {
-        let fullContent = '';
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value);
-          fullContent += chunk;
-          setStreamingContent(fullContent);
-        }
-
-        addMessage('assistant', fullContent);
-        setStreamingContent('');
-
-        // Check if assistant is asking to proceed to PHQ-9
-        if (fullContent.toLowerCase().includes('phq-9') || 
-            fullContent.toLowerCase().includes('questionnaire')) {
-          // Small delay before transitioning
-          setTimeout(() => {
-            setCurrentStep('phq9');
-          }, 2000);
-        }
-      }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      addMessage('assistant', 'I apologize, but I encountered an error. Please try again.');
-    } finally {
-      setIsStreaming(false);
-      setStreamingContent('');
+    // Remaining questionnaires render next; the summary follows the last one
+    const remaining = ADMINISTERED_INSTRUMENTS.filter(
+      (other) => other !== id && !state.completedInstruments.includes(other)
+    );
+    if (remaining.length === 0) {
+      await promptForSummary();
     }
   };
 
-  const handlePHQ9Complete = async () => {
+  const handleSafetyAcknowledged = async () => {
+    if (nextInstrumentId) {
+      setCurrentStep('questionnaires');
+      return;
+    }
+
+    await promptForSummary();
+  };
+
+  const promptForSummary = async () => {
     // Ask if user wants to review summary
-    const wantsSummary = window.confirm(
-      'Would you like to review a clinical summary based on what you\'ve shared?'
-    );
+    const wantsSummary = window.confirm(t.questionnaires.reviewSummaryPrompt);
 
     if (wantsSummary) {
       setCurrentStep('summary');
       await generateSummary();
     } else {
-      // Stay on PHQ-9 or allow them to go back
+      // Allow them to go back to the conversation
       setCurrentStep('intake');
     }
   };
@@ -135,22 +175,29 @@ export default function Home() {
         },
         body: JSON.stringify({
           conversationHistory: state.conversationHistory,
-          phq9Score: state.phq9Score,
+          instrumentResponses: state.instrumentResponses,
+          riskFlag: state.riskFlag,
+          language: state.language,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate summary');
+        const { error, fields } = await response.json().catch(() => ({}));
+        throw new Error(
+          fields?.length
+            ? `${error}. Fields that could not be produced: ${fields.join(', ')}`
+            : error || 'Failed to generate summary'
+        );
       }
 
       const summaryData = await response.json();
       
       // Set the summary in context - the summary page will use it
-      setClinicalSummary(summaryData);
+      setSummaryDraft(summaryData);
       router.push('/summary');
     } catch (error) {
       console.error('Error generating summary:', error);
-      alert('Failed to generate summary. Please try again.');
+      alert(`Failed to generate summary: ${(error as Error).message}. Please try again.`);
     }
   };
 
@@ -166,11 +213,20 @@ export default function Home() {
         {/* Important Banner - Always visible below header */}
         <div className="w-full px-4 py-3 sm:px-6 border-b border-border bg-background shrink-0">
           <ImportantBanner />
+          {state.safetyEvents.length > 0 && (
+            <div className="mt-3">
+              <CrisisAlert safetyEvent={state.safetyEvents[state.safetyEvents.length - 1]} />
+            </div>
+          )}
         </div>
 
         {/* Main Content Area */}
         <div className="flex-1 overflow-y-auto p-4">
-          {state.currentStep === 'intake' && (
+          {state.currentStep === 'intake' && needsLanguage && (
+            <LanguagePicker onSelect={handleLanguageSelected} />
+          )}
+
+          {state.currentStep === 'intake' && !needsLanguage && (
             <div className="max-w-3xl mx-auto space-y-4">
               {state.conversationHistory.map((msg, idx) => (
                 <ChatMessage
@@ -186,31 +242,86 @@ export default function Home() {
                   isStreaming={true}
                 />
               )}
+              {!isStreaming && editingIndex === null && lastUserIndex >= 0 && (
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={handleRegenerate}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {t.chat.regenerate}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setEditingIndex(lastUserIndex)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    {t.chat.editLast}
+                  </Button>
+                  {canContinueToQuestionnaires && (
+                    <Button variant="outline" size="sm" onClick={() => setCurrentStep('questionnaires')}>
+                      {t.chat.continueToQuestionnaires}
+                      <ArrowRight className="h-4 w-4 ml-2" />
+                    </Button>
+                  )}
+                </div>
+              )}
+              {chatError && !isStreaming && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {chatError === 'too_long' ? t.chat.tooLong : t.chat.error}
+                  </AlertDescription>
+                </Alert>
+              )}
               <div ref={messagesEndRef} />
             </div>
           )}
 
-          {state.currentStep === 'phq9' && (
+          {state.currentStep === 'questionnaires' && nextInstrumentId && (
             <div className="max-w-3xl mx-auto">
-              <PHQ9Form onComplete={handlePHQ9Complete} />
+              <InstrumentForm
+                key={nextInstrumentId}
+                instrument={getInstrument(nextInstrumentId)}
+                onComplete={() => handleInstrumentComplete(nextInstrumentId)}
+              />
+            </div>
+          )}
+
+          {state.currentStep === 'safety' && (
+            <div className="max-w-3xl mx-auto">
+              {state.riskFlag ? (
+                <CrisisResources
+                  riskLevel={state.riskFlag.level}
+                  onAcknowledge={handleSafetyAcknowledged}
+                />
+              ) : (
+                <SuicideRiskScreener />
+              )}
             </div>
           )}
         </div>
 
         {/* Chat Input (only show during intake) */}
-        {state.currentStep === 'intake' && (
-          <ChatBox
-            onMessageSent={handleSendMessage}
-            disabled={isStreaming}
-          />
+        {state.currentStep === 'intake' && !needsLanguage && (
+          <>
+            {editingIndex !== null && (
+              <div className="flex items-center justify-between gap-2 px-4 pt-3 text-sm text-muted-foreground">
+                <span>{t.chat.editing}</span>
+                <Button variant="ghost" size="sm" onClick={() => setEditingIndex(null)}>
+                  {t.chat.cancelEdit}
+                </Button>
+              </div>
+            )}
+            <ChatBox
+              key={editingIndex ?? 'new'}
+              initialValue={editingIndex !== null ? state.conversationHistory[editingIndex]?.content : undefined}
+              onMessageSent={handleSendMessage}
+              disabled={isStreaming}
+              onStop={isStreaming ? stop : undefined}
+            />
+          </>
         )}
 
-        {/* Navigation buttons for PHQ-9 */}
-        {state.currentStep === 'phq9' && state.phq9Completed && (
+        {/* Navigation buttons once all questionnaires are done */}
+        {state.currentStep === 'questionnaires' && !nextInstrumentId && (
           <div className="p-4 border-t border-border">
             <div className="max-w-3xl mx-auto">
               <Button onClick={handleContinueToSummary} className="w-full" size="lg">
-                Continue to Summary
+                {t.questionnaires.continueToSummary}
               </Button>
             </div>
           </div>
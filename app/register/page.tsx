@@ -0,0 +1,19 @@
+import { AuthForm } from '@/components/AuthForm';
+
+/**
+ * Registration Page
+ *
+ * Patient self-registration. Clinician and admin accounts are created by an admin.
+ */
+
+export default function RegisterPage() {
+  return (
+    <>
+      {/* Spacer for fixed header */}
+      <div className="h-14 shrink-0" />
+      <div className="min-h-screen bg-background py-16 px-4">
+        <AuthForm mode="register" />
+      </div>
+    </>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { ImportantBanner } from '@/components/ImportantBanner';
+import { CrisisAlert } from '@/components/CrisisAlert';
 import { SummaryForm } from '@/components/SummaryForm';
 import { useAssessment } from '@/contexts/AssessmentContext';
 import { ClinicalSummary, createEmptySummary } from '@/lib/agents/summary-agent';
@@ -15,27 +16,33 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { getMessages } from '@/lib/i18n';
 
 /**
  * Summary Page
  * 
  * Displays the clinical summary with editable form fields.
- * Allows patients to review and edit before final submission.
+ * Allows patients to review and edit before final submission. The summary is in
+ * English; the surrounding text follows the patient's language.
  */
 
 export default function SummaryPage() {
-  const { state, setClinicalSummary } = useAssessment();
+  const { state, setSummaryDraft, setCurrentStep } = useAssessment();
   const router = useRouter();
   const [isGenerating, setIsGenerating] = useState(false);
   const [showThankYouModal, setShowThankYouModal] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submissionId, setSubmissionId] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const t = getMessages(state.language).summary;
 
   useEffect(() => {
-    // Generate summary if not already generated
-    if (!state.summaryGenerated && state.conversationHistory.length > 0) {
+    // Generate summary if not already generated (also after resuming a saved session)
+    if (!state.summaryGenerated && state.conversationHistory.length > 0 && !isGenerating) {
       generateSummary();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [state.conversationHistory.length]);
 
   const generateSummary = async () => {
     setIsGenerating(true);
@@ -47,12 +54,19 @@ export default function SummaryPage() {
         },
         body: JSON.stringify({
           conversationHistory: state.conversationHistory,
-          phq9Score: state.phq9Score,
+          instrumentResponses: state.instrumentResponses,
+          riskFlag: state.riskFlag,
+          language: state.language,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate summary');
+        const { error, fields } = await response.json().catch(() => ({}));
+        throw new Error(
+          fields?.length
+            ? `${error}. Fields that could not be produced: ${fields.join(', ')}`
+            : error || 'Failed to generate summary'
+        );
       }
 
       const summaryData = await response.json();
@@ -61,22 +75,91 @@ export default function SummaryPage() {
       const fullSummary: ClinicalSummary = {
         ...createEmptySummary(),
         ...summaryData,
-        phq9Score: state.phq9Score,
+        riskFlag: state.riskFlag,
       };
 
-      setClinicalSummary(fullSummary);
+      setSummaryDraft(fullSummary);
     } catch (error) {
       console.error('Error generating summary:', error);
-      alert('Failed to generate summary. Please try again.');
+      alert(`Failed to generate summary: ${(error as Error).message}. Please try again.`);
     } finally {
       setIsGenerating(false);
     }
   };
 
-  const handleSubmit = () => {
-    // In a real application, this would send data to a backend
-    // Show thank you modal
-    setShowThankYouModal(true);
+  const handleSubmit = async (summary: ClinicalSummary) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/submissions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          summary,
+          draft: state.summaryDraft,
+          phq9Responses: state.phq9Responses.map((r) => r.value),
+          transcript: state.conversationHistory,
+          safetyEvents: state.safetyEvents,
+        }),
+      });
+
+      if (!response.ok) {
+        const { error, details } = await response.json().catch(() => ({}));
+        // Field rule failures the form did not catch, e.g. from an outdated page
+        const fieldErrors = Array.isArray(details) ? details.map((d: { message: string }) => d.message) : [];
+        throw new Error(fieldErrors.length > 0 ? fieldErrors.join('; ') : error || 'Failed to submit assessment');
+      }
+
+      const { id } = await response.json();
+      setSubmissionId(id);
+      // A completed assessment is no longer offered for resuming
+      setCurrentStep('complete');
+      // Show thank you modal
+      setShowThankYouModal(true);
+    } catch (error) {
+      console.error('Error submitting assessment:', error);
+      alert(`Failed to submit assessment: ${(error as Error).message}. Please try again.`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownloadPDF = async () => {
+    if (!state.clinicalSummary) return;
+
+    setIsDownloading(true);
+    try {
+      const response = await fetch('/api/summary/pdf', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          summary: state.clinicalSummary,
+          phq9Responses: state.phq9Responses.map((r) => r.value),
+          safetyEvents: state.safetyEvents,
+          reference: submissionId,
+        }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        throw new Error(error || 'Failed to generate PDF');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = submissionId ? `intake-summary-${submissionId}.pdf` : 'intake-summary.pdf';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading PDF:', error);
+      alert(`Failed to download PDF: ${(error as Error).message}. Please try again.`);
+    } finally {
+      setIsDownloading(false);
+    }
   };
 
   const handleCloseModal = () => {
@@ -92,6 +175,11 @@ export default function SummaryPage() {
         <div className="w-full px-4 py-3 sm:px-6 border-b border-border bg-background shrink-0">
           <div className="max-w-7xl mx-auto">
             <ImportantBanner />
+            {state.safetyEvents.length > 0 && (
+              <div className="mt-3">
+                <CrisisAlert safetyEvent={state.safetyEvents[state.safetyEvents.length - 1]} />
+              </div>
+            )}
           </div>
         </div>
         <div className="container mx-auto py-8 px-4">
@@ -100,11 +188,18 @@ export default function SummaryPage() {
             <div className="flex items-center justify-center min-h-[400px]">
               <div className="text-center space-y-4">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
-                <p className="text-muted-foreground">Generating clinical summary...</p>
+                <p className="text-muted-foreground">{t.generating}</p>
               </div>
             </div>
           ) : (
-            <SummaryForm onSubmit={handleSubmit} />
+            <>
+              {state.language && state.language !== 'en' && (
+                <p className="w-full max-w-4xl mx-auto mb-6 text-sm text-muted-foreground" lang={state.language}>
+                  {t.englishNotice}
+                </p>
+              )}
+              <SummaryForm onSubmit={handleSubmit} isSubmitting={isSubmitting} />
+            </>
           )}
         </div>
       </div>
@@ -113,13 +208,21 @@ export default function SummaryPage() {
       <Dialog open={showThankYouModal} onOpenChange={setShowThankYouModal}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>Thank You</DialogTitle>
+            <DialogTitle>{t.thankYouTitle}</DialogTitle>
             <DialogDescription className="pt-2">
-              Thank you for submitting. Our psychiatry team will follow up with you soon.
+              {t.thankYouMessage}
+              {submissionId && (
+                <span className="block pt-2 text-xs">
+                  {t.reference} {submissionId}
+                </span>
+              )}
             </DialogDescription>
           </DialogHeader>
-          <DialogFooter>
-            <Button onClick={handleCloseModal}>Close</Button>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={handleDownloadPDF} disabled={isDownloading}>
+              {isDownloading ? t.preparingPDF : t.downloadPDF}
+            </Button>
+            <Button onClick={handleCloseModal}>{t.close}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
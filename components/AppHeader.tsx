@@ -1,21 +1,77 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import { SessionUser } from '@/lib/auth/types';
+
 /**
  * AppHeader Component
  * 
  * Persistent header with app title displayed at the top left.
  * Matches the minimalist, monotone design of the application.
+ * Shows the signed-in user, links to the areas their role can open, and sign out.
  */
 
 export function AppHeader() {
+  const { resetAssessment } = useAssessment();
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const pathname = usePathname();
+  const router = useRouter();
+
+  // Re-check on navigation so the header follows sign in and sign out
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        const data = await response.json();
+        setUser(data.user);
+      } catch {
+        setUser(null);
+      }
+    };
+
+    loadSession();
+  }, [pathname]);
+
+  const handleSignOut = async () => {
+    // Saved progress is cleared so the next person on this device cannot resume it
+    resetAssessment();
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setUser(null);
+    router.push('/login');
+    router.refresh();
+  };
+
+  const isStaff = user?.role === 'clinician' || user?.role === 'admin';
+
   return (
     <header className="fixed top-0 left-0 right-0 z-50 w-full border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-      <div className="flex h-14 items-center px-4 sm:px-6 lg:px-8">
+      <div className="flex h-14 items-center justify-between gap-4 px-4 sm:px-6 lg:px-8">
         <h1 className="text-base sm:text-lg font-medium text-foreground">
           Psychiatry Intake Assistant
         </h1>
+        {user && (
+          <nav className="flex items-center gap-4 text-sm">
+            {isStaff && (
+              <Link href="/clinician" className="text-muted-foreground hover:text-foreground">
+                Clinician
+              </Link>
+            )}
+            {user.role === 'admin' && (
+              <Link href="/admin" className="text-muted-foreground hover:text-foreground">
+                Admin
+              </Link>
+            )}
+            <span className="hidden sm:inline text-muted-foreground">{user.username}</span>
+            <Button variant="outline" size="sm" onClick={handleSignOut}>
+              Sign Out
+            </Button>
+          </nav>
+        )}
       </div>
     </header>
   );
 }
-
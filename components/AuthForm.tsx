@@ -0,0 +1,110 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { isSafeRedirect } from '@/lib/auth/access';
+
+/**
+ * AuthForm Component
+ *
+ * Username and password form for signing in or registering a patient account.
+ * On success the user goes to the page they asked for, or their role's home page.
+ */
+
+interface AuthFormProps {
+  mode: 'login' | 'register';
+  next?: string;
+}
+
+export function AuthForm({ mode, next }: AuthFormProps) {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Something went wrong');
+      }
+
+      router.push(isSafeRedirect(next, window.location.origin) ? next : data.home);
+      router.refresh();
+    } catch (err) {
+      setError((err as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  const isLogin = mode === 'login';
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-sm mx-auto space-y-6">
+      <h2 className="text-2xl font-semibold">{isLogin ? 'Sign In' : 'Create Patient Account'}</h2>
+
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={isLogin ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit" className="w-full" size="lg" disabled={isSubmitting}>
+        {isLogin ? 'Sign In' : 'Create Account'}
+      </Button>
+
+      <p className="text-sm text-muted-foreground text-center">
+        {isLogin ? (
+          <>
+            New patient?{' '}
+            <Link href="/register" className="underline hover:text-foreground">
+              Create an account
+            </Link>
+          </>
+        ) : (
+          <>
+            Already have an account?{' '}
+            <Link href="/login" className="underline hover:text-foreground">
+              Sign in
+            </Link>
+          </>
+        )}
+      </p>
+    </form>
+  );
+}
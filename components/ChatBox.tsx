@@ -4,24 +4,40 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { useAssessment } from '@/contexts/AssessmentContext';
-import { Send } from 'lucide-react';
+import { getMessages } from '@/lib/i18n';
+import { Send, Square } from 'lucide-react';
 
 /**
  * ChatBox Component
  * 
  * Provides a ChatGPT-like chat interface with streaming responses.
- * Auto-resizes textarea and handles message sending.
+ * Auto-resizes textarea and handles message sending. While a reply streams,
+ * the send button becomes a stop button.
  */
 
 interface ChatBoxProps {
   onMessageSent?: (message: string) => void;
   disabled?: boolean;
+  /** Shows the stop button in place of send while a reply streams */
+  onStop?: () => void;
+  /** Text to start with, e.g. a message being edited; remount with a new key to change it */
+  initialValue?: string;
 }
 
-export function ChatBox({ onMessageSent, disabled = false }: ChatBoxProps) {
-  const [input, setInput] = useState('');
+export function ChatBox({ onMessageSent, disabled = false, onStop, initialValue = '' }: ChatBoxProps) {
+  const { state } = useAssessment();
+  const t = getMessages(state.language).chat;
+  const [input, setInput] = useState(initialValue);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Put the cursor at the end of prefilled text so it can be edited straight away
+  useEffect(() => {
+    if (initialValue && textareaRef.current) {
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(initialValue.length, initialValue.length);
+    }
+  }, [initialValue]);
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -64,20 +80,34 @@ export function ChatBox({ onMessageSent, disabled = false }: ChatBoxProps) {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Type your message..."
+            placeholder={t.placeholder}
             disabled={disabled}
             className="min-h-[44px] max-h-[200px] resize-none pr-12"
             rows={1}
           />
         </div>
-        <Button
-          type="submit"
-          disabled={!input.trim() || disabled}
-          size="icon"
-          className="h-11 w-11 shrink-0"
-        >
-          <Send className="h-4 w-4" />
-        </Button>
+        {onStop ? (
+          <Button
+            type="button"
+            onClick={onStop}
+            variant="outline"
+            size="icon"
+            className="h-11 w-11 shrink-0"
+            aria-label={t.stop}
+          >
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            disabled={!input.trim() || disabled}
+            size="icon"
+            className="h-11 w-11 shrink-0"
+            aria-label={t.send}
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        )}
       </div>
     </form>
   );
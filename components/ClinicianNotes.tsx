@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ClinicianNote } from '@/lib/storage/types';
+
+/**
+ * ClinicianNotes Component
+ *
+ * Lists a submission's clinician notes and adds new ones through the notes API.
+ */
+
+interface ClinicianNotesProps {
+  submissionId: string;
+  notes: ClinicianNote[];
+  onNoteAdded: (note: ClinicianNote) => void;
+}
+
+export function ClinicianNotes({ submissionId, notes, onNoteAdded }: ClinicianNotesProps) {
+  const [text, setText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleAdd = async () => {
+    if (!text.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/submissions/${submissionId}/notes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        throw new Error(error || 'Failed to add note');
+      }
+
+      onNoteAdded(await response.json());
+      setText('');
+    } catch (error) {
+      console.error('Error adding note:', error);
+      alert(`Failed to add note: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <h3 className="text-lg font-semibold">Clinician Notes</h3>
+      {notes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No notes yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {notes.map((note) => (
+            <li key={note.id} className="rounded-md border border-border p-3 text-sm">
+              <p className="whitespace-pre-wrap">{note.text}</p>
+              <p className="pt-2 text-xs text-muted-foreground">
+                {note.author} · {new Date(note.createdAt).toLocaleString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Add a note for the care team..."
+        rows={3}
+      />
+      <Button onClick={handleAdd} disabled={isSaving || !text.trim()}>
+        {isSaving ? 'Saving...' : 'Add Note'}
+      </Button>
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { DemographicCheck } from '@/lib/agents/demographics';
+
+/**
+ * ConfirmationStatus Component
+ *
+ * Marks a demographic field the patient still needs to confirm, with the reason
+ * and a button to confirm the value as shown. Confirmed fields show nothing.
+ */
+
+interface ConfirmationStatusProps {
+  check?: DemographicCheck;
+  onConfirm: () => void;
+}
+
+export function ConfirmationStatus({ check, onConfirm }: ConfirmationStatusProps) {
+  if (!check || check.status === 'confirmed') return null;
+
+  return (
+    <span className="ml-2 inline-flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <span className="rounded-md border border-border px-1.5 py-0.5 font-medium text-foreground">Please confirm</span>
+      {check.reason && <span>{check.reason}</span>}
+      <button type="button" onClick={onConfirm} className="underline hover:text-foreground">
+        Confirm
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import { getMessages } from '@/lib/i18n';
+
+/**
+ * CrisisAlert Component
+ *
+ * Persistent alert shown once the chat route reports crisis language.
+ * Stays visible for the rest of the session and cannot be dismissed.
+ */
+
+interface CrisisAlertProps {
+  safetyEvent: SafetyEvent;
+}
+
+export function CrisisAlert({ safetyEvent }: CrisisAlertProps) {
+  const { state } = useAssessment();
+  const t = getMessages(state.language).crisis;
+  const isImminent = safetyEvent.category === 'imminent';
+
+  return (
+    <Alert variant="destructive" className="w-full">
+      <AlertTriangle className="h-4 w-4" />
+      <div className="flex-1 min-w-0">
+        <AlertTitle className="font-semibold mb-1">
+          {isImminent ? t.alertImminentTitle : t.alertTitle}
+        </AlertTitle>
+        <AlertDescription className="text-sm leading-relaxed break-words">
+          {t.callOrText}{' '}
+          <a href="tel:988" className="font-semibold underline whitespace-nowrap">
+            988
+          </a>{' '}
+          {t.lifelineTextHome}{' '}
+          <a href={`sms:741741?body=${t.textLineKeyword}`} className="font-semibold underline whitespace-nowrap">
+            741741
+          </a>
+          {t.orCall}{' '}
+          <a href="tel:911" className="font-semibold underline whitespace-nowrap">
+            911
+          </a>{' '}
+          {t.emergencyRoom}
+        </AlertDescription>
+      </div>
+    </Alert>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, MessageSquare, Phone } from 'lucide-react';
+import { RiskLevel } from '@/lib/safety/suicide-risk';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import { UIMessages, getMessages } from '@/lib/i18n';
+
+/**
+ * CrisisResources Component
+ *
+ * Full crisis resource screen shown after the suicide risk follow-up.
+ * Lists immediate contact options; wording escalates with the assessed risk level.
+ */
+
+interface CrisisResourcesProps {
+  riskLevel: RiskLevel;
+  onAcknowledge: () => void;
+}
+
+function getCrisisContacts(t: UIMessages['crisis']) {
+  return [
+    {
+      name: t.lifelineName,
+      detail: t.lifelineDetail,
+      href: 'tel:988',
+      icon: Phone,
+    },
+    {
+      name: t.textLineName,
+      detail: t.textLineDetail,
+      href: `sms:741741?body=${t.textLineKeyword}`,
+      icon: MessageSquare,
+    },
+    {
+      name: t.emergencyName,
+      detail: t.emergencyDetail,
+      href: 'tel:911',
+      icon: AlertTriangle,
+    },
+  ];
+}
+
+export function CrisisResources({ riskLevel, onAcknowledge }: CrisisResourcesProps) {
+  const { state } = useAssessment();
+  const t = getMessages(state.language).crisis;
+  const isUrgent = riskLevel === 'high';
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <Alert variant={isUrgent ? 'destructive' : 'default'} className="w-full">
+        <AlertTriangle className="h-4 w-4" />
+        <div className="flex-1 min-w-0">
+          <AlertTitle className="font-semibold mb-1">
+            {isUrgent ? t.urgentTitle : t.supportTitle}
+          </AlertTitle>
+          <AlertDescription className="text-sm leading-relaxed break-words">
+            {isUrgent ? t.urgentMessage : t.supportMessage}
+          </AlertDescription>
+        </div>
+      </Alert>
+
+      <div className="space-y-3">
+        {getCrisisContacts(t).map((contact) => (
+          <a
+            key={contact.name}
+            href={contact.href}
+            className="flex items-center gap-4 rounded-lg border border-border p-4 hover:bg-muted/50 transition-colors"
+          >
+            <contact.icon className="h-5 w-5 shrink-0" />
+            <div className="min-w-0">
+              <p className="font-semibold">{contact.name}</p>
+              <p className="text-sm text-muted-foreground">{contact.detail}</p>
+            </div>
+          </a>
+        ))}
+      </div>
+
+      <p className="text-sm text-muted-foreground">{t.followUp}</p>
+
+      <Button onClick={onAcknowledge} className="w-full" size="lg">
+        {t.acknowledge}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { forwardRef } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+
+/**
+ * ErrorSummary Component
+ *
+ * Lists the fields that are blocking a form submission, each linked to its
+ * input. Focusable so it can be announced and focused when a submission fails.
+ */
+
+export interface FieldErrorLink {
+  id: string;
+  label: string;
+  message: string;
+}
+
+interface ErrorSummaryProps {
+  errors: FieldErrorLink[];
+}
+
+export const ErrorSummary = forwardRef<HTMLDivElement, ErrorSummaryProps>(function ErrorSummary(
+  { errors },
+  ref
+) {
+  if (errors.length === 0) return null;
+
+  const focusField = (id: string) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    document.getElementById(id)?.focus();
+  };
+
+  return (
+    <Alert ref={ref} variant="destructive" tabIndex={-1} aria-labelledby="error-summary-title">
+      <div>
+        <AlertTitle id="error-summary-title">
+          {errors.length === 1 ? '1 field needs attention' : `${errors.length} fields need attention`}
+        </AlertTitle>
+        <AlertDescription>
+          <ul className="list-disc pl-5 space-y-1">
+            {errors.map((error) => (
+              <li key={error.id}>
+                <a href={`#${error.id}`} onClick={focusField(error.id)} className="underline">
+                  {error.label}: {error.message}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </AlertDescription>
+      </div>
+    </Alert>
+  );
+});
@@ -2,6 +2,8 @@
 
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Info } from 'lucide-react';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import { getMessages } from '@/lib/i18n';
 
 /**
  * Important Banner Component
@@ -9,22 +11,26 @@ import { Info } from 'lucide-react';
  * Displays the important notice at the top of the application.
  * Warns users that this is not a diagnostic or emergency service.
  * Always fully visible, positioned below app title, with responsive text wrapping.
+ * Shown in the patient's chosen language.
  */
 export function ImportantBanner() {
+  const { state } = useAssessment();
+  const t = getMessages(state.language).banner;
+
   return (
     <Alert className="w-full border-border bg-muted/50">
       <Info className="h-4 w-4" />
       <div className="flex-1 min-w-0">
-        <AlertTitle className="font-semibold mb-1">Important:</AlertTitle>
+        <AlertTitle className="font-semibold mb-1">{t.title}</AlertTitle>
         <AlertDescription className="text-sm leading-relaxed break-words">
-          This is not a diagnostic or emergency service. If you are in crisis, please contact{' '}
+          {t.beforeLifeline}{' '}
           <a
             href="tel:988"
             className="font-semibold text-primary underline hover:text-primary/80 whitespace-nowrap"
           >
             988
           </a>{' '}
-          (Suicide & Crisis Lifeline) or go to your nearest emergency room immediately.
+          {t.afterLifeline}
         </AlertDescription>
       </div>
     </Alert>
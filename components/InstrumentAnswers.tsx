@@ -0,0 +1,42 @@
+'use client';
+
+import { Instrument, getItemOptions, getSeverity, scoreInstrument } from '@/lib/instruments';
+
+/**
+ * InstrumentAnswers Component
+ *
+ * Read-only table of a completed instrument's item answers with the total score.
+ */
+
+interface InstrumentAnswersProps {
+  instrument: Instrument;
+  values: number[];
+}
+
+export function InstrumentAnswers({ instrument, values }: InstrumentAnswersProps) {
+  const score = scoreInstrument(instrument, values);
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-border">
+          {instrument.items.map((item, idx) => {
+            const option = getItemOptions(instrument, item).find((o) => o.value === values[idx]);
+            return (
+              <tr key={item.id}>
+                <td className="py-2 pr-4 align-top text-muted-foreground">{idx + 1}.</td>
+                <td className="py-2 pr-4">{item.text}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  {option ? `${option.label} (${option.value})` : 'Not answered'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-sm font-medium text-right">
+        Total: {score} — {getSeverity(instrument, score)}
+      </p>
+    </div>
+  );
+}
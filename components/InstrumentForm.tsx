@@ -0,0 +1,113 @@
+'use client';
+
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import {
+  Instrument,
+  createEmptyResponses,
+  getItemOptions,
+  getMaxScore,
+  getSeverity,
+  isInstrumentAvailableIn,
+  isInstrumentComplete,
+  localizeInstrument,
+  scoreInstrument,
+} from '@/lib/instruments';
+import { DEFAULT_LANGUAGE, getMessages } from '@/lib/i18n';
+
+/**
+ * InstrumentForm Component
+ *
+ * Renders any declaratively defined screening instrument (PHQ-9, GAD-7, AUDIT-C, ...).
+ * Tracks responses and calculates total score with severity interpretation.
+ * Shown in the patient's language when a validated translation exists, and in
+ * English with a notice otherwise.
+ */
+
+interface InstrumentFormProps {
+  instrument: Instrument;
+  onComplete: () => void;
+}
+
+export function InstrumentForm({ instrument: source, onComplete }: InstrumentFormProps) {
+  const { state, setInstrumentResponses, setInstrumentCompleted } = useAssessment();
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const t = getMessages(language).questionnaires;
+  const instrument = localizeInstrument(source, language);
+  const responses = state.instrumentResponses[instrument.id] ?? createEmptyResponses(instrument);
+
+  const handleResponseChange = (itemIndex: number, value: string) => {
+    const updated = responses.map((v, idx) => (idx === itemIndex ? parseInt(value, 10) : v));
+    setInstrumentResponses(instrument.id, updated);
+  };
+
+  const handleSubmit = () => {
+    // Validate all questions answered
+    if (!isInstrumentComplete(instrument, responses)) {
+      alert(t.answerAll);
+      return;
+    }
+
+    setInstrumentCompleted(instrument.id);
+    onComplete();
+  };
+
+  const currentScore = scoreInstrument(instrument, responses);
+  const severity = getSeverity(instrument, currentScore);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">{instrument.title}</h2>
+        <p className="text-muted-foreground">{instrument.instructions}</p>
+        {!isInstrumentAvailableIn(instrument.id, language) && (
+          <p className="text-sm text-muted-foreground italic">{t.englishOnly}</p>
+        )}
+      </div>
+
+      <div className="space-y-8">
+        {instrument.items.map((item, index) => (
+          <div key={item.id} className="space-y-4">
+            <Label className="text-base font-medium">
+              {index + 1}. {item.text}
+            </Label>
+            <RadioGroup
+              value={responses[index] >= 0 ? responses[index].toString() : ''}
+              onValueChange={(value) => handleResponseChange(index, value)}
+              className="flex flex-col sm:flex-row sm:flex-wrap gap-4"
+            >
+              {getItemOptions(instrument, item).map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value.toString()} id={`${item.id}-${option.value}`} />
+                  <Label
+                    htmlFor={`${item.id}-${option.value}`}
+                    className="font-normal cursor-pointer"
+                  >
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t pt-4 space-y-4">
+        <div className="flex justify-between items-center">
+          <span className="text-lg font-semibold">{t.totalScore}</span>
+          <span className="text-2xl font-bold">{currentScore} / {getMaxScore(instrument)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-muted-foreground">{t.severity}</span>
+          <span className="font-medium">{severity}</span>
+        </div>
+      </div>
+
+      <Button onClick={handleSubmit} className="w-full" size="lg">
+        {t.submit(instrument.name)}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { LANGUAGES, Language, getMessages } from '@/lib/i18n';
+
+/**
+ * LanguagePicker Component
+ *
+ * Shown before the intake starts. Each option is labeled in its own language,
+ * so patients can find theirs without reading English.
+ */
+
+interface LanguagePickerProps {
+  onSelect: (language: Language) => void;
+}
+
+export function LanguagePicker({ onSelect }: LanguagePickerProps) {
+  const languages = Object.values(LANGUAGES);
+
+  return (
+    <div className="w-full max-w-md mx-auto space-y-6 py-8">
+      <h2 className="text-2xl font-semibold text-center">
+        {languages.map((info) => (
+          <span key={info.code} lang={info.code} className="block">
+            {getMessages(info.code).languagePicker.title}
+          </span>
+        ))}
+      </h2>
+      <div className="space-y-3">
+        {languages.map((info) => (
+          <Button
+            key={info.code}
+            lang={info.code}
+            variant="outline"
+            size="lg"
+            className="w-full h-auto flex-col items-start py-3"
+            onClick={() => onSelect(info.code)}
+          >
+            <span className="text-base font-semibold">{info.nativeName}</span>
+            <span className="text-sm font-normal text-muted-foreground">
+              {getMessages(info.code).languagePicker.continueIn}
+            </span>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { NOTE_TEMPLATES, NoteFormat, NoteTemplateId } from '@/lib/notes';
+
+/**
+ * NotePreview Component
+ *
+ * Previews a submission rendered in any clinical note template, as Markdown or
+ * plain text, opening on the clinic's default template. The note can be copied
+ * or downloaded in the selected format.
+ */
+
+interface NotePreviewProps {
+  submissionId: string;
+}
+
+interface RenderedNote {
+  templateId: NoteTemplateId;
+  format: NoteFormat;
+  content: string;
+  clinicTemplateId: NoteTemplateId;
+}
+
+const FORMAT_LABELS: Record<NoteFormat, string> = {
+  markdown: 'Markdown',
+  text: 'Plain Text',
+};
+
+export function NotePreview({ submissionId }: NotePreviewProps) {
+  // null until the first response tells us the clinic's default template
+  const [templateId, setTemplateId] = useState<NoteTemplateId | null>(null);
+  const [format, setFormat] = useState<NoteFormat>('markdown');
+  const [note, setNote] = useState<RenderedNote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadNote = async () => {
+      try {
+        const query = new URLSearchParams({ format });
+        if (templateId) query.set('template', templateId);
+
+        const response = await fetch(`/api/submissions/${submissionId}/note?${query}`);
+        if (!response.ok) {
+          const { error } = await response.json().catch(() => ({}));
+          throw new Error(error || 'Failed to render note');
+        }
+
+        const rendered: RenderedNote = await response.json();
+        setNote(rendered);
+        setTemplateId(rendered.templateId);
+        setError(null);
+      } catch (err) {
+        console.error('Error rendering note:', err);
+        setError((err as Error).message);
+      }
+    };
+
+    loadNote();
+  }, [submissionId, templateId, format]);
+
+  const handleCopy = async () => {
+    if (!note) return;
+    await navigator.clipboard.writeText(note.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold">Clinical Note</h3>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={!note}>
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+          {note && (
+            <Button variant="outline" size="sm" asChild>
+              <a
+                href={`/api/submissions/${submissionId}/note?template=${note.templateId}&format=${note.format}&download=1`}
+                download
+              >
+                Download
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.values(NOTE_TEMPLATES).map((template) => (
+          <Button
+            key={template.id}
+            variant={templateId === template.id ? 'default' : 'outline'}
+            size="sm"
+            title={template.description}
+            onClick={() => setTemplateId(template.id)}
+          >
+            {template.name}
+            {note?.clinicTemplateId === template.id && ' (clinic default)'}
+          </Button>
+        ))}
+        <div className="flex gap-2 sm:ml-auto">
+          {(Object.keys(FORMAT_LABELS) as NoteFormat[]).map((value) => (
+            <Button
+              key={value}
+              variant={format === value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFormat(value)}
+            >
+              {FORMAT_LABELS[value]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {note ? (
+        <pre className="max-h-[32rem] overflow-auto whitespace-pre-wrap rounded-lg border border-border p-4 text-sm font-mono">
+          {note.content}
+        </pre>
+      ) : (
+        !error && <p className="text-sm text-muted-foreground">Rendering note...</p>
+      )}
+    </section>
+  );
+}
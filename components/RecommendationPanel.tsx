@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { RecommendationData } from '@/lib/agents/recommendation-agent';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+import { UrgencyBadge } from '@/components/UrgencyBadge';
+
+/**
+ * RecommendationPanel Component
+ *
+ * Clinician-only view of the recommendation agent's triage urgency, rationale,
+ * and recommendations. Must only be rendered in clinician areas, never to patients.
+ */
+
+interface RecommendationPanelProps {
+  summary: ClinicalSummary;
+  phq9Item9: number;
+  safetyEvents?: SafetyEvent[];
+}
+
+const NO_SAFETY_EVENTS: SafetyEvent[] = [];
+
+export function RecommendationPanel({ summary, phq9Item9, safetyEvents = NO_SAFETY_EVENTS }: RecommendationPanelProps) {
+  const [data, setData] = useState<RecommendationData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRecommendations = async () => {
+      try {
+        const response = await fetch('/api/recommendations', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ summary, phq9Item9, safetyEvents }),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to load recommendations');
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error loading recommendations:', err);
+        setError('Recommendations could not be generated.');
+      }
+    };
+
+    loadRecommendations();
+  }, [summary, phq9Item9, safetyEvents]);
+
+  return (
+    <section className="space-y-4 rounded-lg border border-border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold">Recommendations (Clinician Only)</h3>
+        {data && <UrgencyBadge urgency={data.urgency} />}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {!data && !error && <p className="text-sm text-muted-foreground">Generating recommendations...</p>}
+
+      {data && (
+        <div className="space-y-4 text-sm">
+          <p className="leading-relaxed">{data.assessment}</p>
+          <div className="space-y-1">
+            <p className="font-medium">Recommendations</p>
+            <ul className="list-disc pl-5 space-y-1">
+              {data.recommendations.map((r) => (
+                <li key={r}>{r}</li>
+              ))}
+            </ul>
+          </div>
+          <div className="space-y-1">
+            <p className="font-medium text-muted-foreground">Triage rules applied</p>
+            <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+              {data.triageReasons.map((r) => (
+                <li key={r}>{r}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
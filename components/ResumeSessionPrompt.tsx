@@ -0,0 +1,64 @@
+'use client';
+
+import { usePathname, useRouter } from 'next/navigation';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { getMessages } from '@/lib/i18n';
+
+/**
+ * ResumeSessionPrompt Component
+ *
+ * Offers to resume a saved, unfinished assessment when the app loads.
+ * Dismissing the dialog resumes, so saved answers are never lost by accident.
+ * Only shown on the patient intake pages, in the saved assessment's language.
+ */
+
+const PATIENT_PATHS = ['/', '/summary'];
+export function ResumeSessionPrompt() {
+  const { resumableSession, resumeSession, discardSavedSession } = useAssessment();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  if (!resumableSession || !PATIENT_PATHS.includes(pathname)) return null;
+
+  const handleResume = () => {
+    const step = resumableSession.data.currentStep;
+    resumeSession();
+    router.push(step === 'summary' || step === 'complete' ? '/summary' : '/');
+  };
+
+  const handleStartOver = () => {
+    discardSavedSession();
+    router.push('/');
+  };
+
+  const { language } = resumableSession.data;
+  const t = getMessages(language).resume;
+  const savedAt = new Date(resumableSession.updatedAt).toLocaleString(language ?? undefined);
+  const expiresAt = new Date(resumableSession.expiresAt).toLocaleString(language ?? undefined);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && handleResume()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t.title}</DialogTitle>
+          <DialogDescription className="pt-2">{t.description(savedAt, expiresAt)}</DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleStartOver}>
+            {t.startOver}
+          </Button>
+          <Button onClick={handleResume}>{t.resume}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { RiskFlag, getRiskLevelLabel } from '@/lib/safety/suicide-risk';
+
+/**
+ * RiskFlagBanner Component
+ *
+ * Read-only display of a suicide risk flag, placed above the summary content
+ * so the clinical team sees it before anything else.
+ */
+
+interface RiskFlagBannerProps {
+  riskFlag: RiskFlag;
+}
+
+export function RiskFlagBanner({ riskFlag }: RiskFlagBannerProps) {
+  const endorsed = riskFlag.cssrsResponses.filter((r) => r.answer);
+
+  return (
+    <Alert
+      variant={riskFlag.level === 'high' || riskFlag.level === 'moderate' ? 'destructive' : 'default'}
+      className="w-full"
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <div className="flex-1 min-w-0">
+        <AlertTitle className="font-semibold mb-1">
+          {getRiskLevelLabel(riskFlag.level)}
+        </AlertTitle>
+        <AlertDescription className="text-sm leading-relaxed break-words space-y-1">
+          <p>PHQ-9 item 9 answered {riskFlag.phq9Item9} / 3.</p>
+          {endorsed.length > 0 ? (
+            <ul className="list-disc pl-5">
+              {endorsed.map((r) => (
+                <li key={r.questionId}>{r.question}</li>
+              ))}
+            </ul>
+          ) : (
+            <p>No items endorsed on the C-SSRS follow-up.</p>
+          )}
+        </AlertDescription>
+      </div>
+    </Alert>
+  );
+}
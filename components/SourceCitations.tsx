@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+/**
+ * SourceCitations Component
+ *
+ * Clickable citations linking a summary section back to the transcript.
+ * Each citation opens the exact patient message, with the question it answered.
+ */
+
+interface SourceCitationsProps {
+  indices?: number[];
+  // Transcript the indices refer to; defaults to the current session's conversation
+  transcript?: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export function SourceCitations({ indices = [], transcript }: SourceCitationsProps) {
+  const { state } = useAssessment();
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const messages = transcript ?? state.conversationHistory;
+
+  const available = indices.filter((idx) => messages[idx]?.role === 'user');
+  if (available.length === 0) return null;
+
+  const quote = openIndex !== null ? messages[openIndex] : null;
+  const question = openIndex !== null ? messages[openIndex - 1] : null;
+
+  return (
+    <>
+      <span className="inline-flex flex-wrap gap-1 ml-2 align-middle">
+        {available.map((idx) => (
+          <button
+            key={idx}
+            type="button"
+            onClick={() => setOpenIndex(idx)}
+            className="text-xs text-muted-foreground underline hover:text-foreground"
+            aria-label={`View source message ${idx + 1}`}
+          >
+            [{idx + 1}]
+          </button>
+        ))}
+      </span>
+
+      <Dialog open={openIndex !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Source: message {openIndex !== null ? openIndex + 1 : ''}</DialogTitle>
+            {question?.role === 'assistant' && (
+              <DialogDescription className="pt-2">
+                In response to: &ldquo;{question.content}&rdquo;
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {quote && (
+            <blockquote className="border-l-2 border-border pl-4 text-sm whitespace-pre-wrap">
+              {quote.content}
+            </blockquote>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
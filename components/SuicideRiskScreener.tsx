@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useAssessment } from '@/contexts/AssessmentContext';
+import {
+  CSSRSAnswers,
+  PHQ9_SELF_HARM_ITEM_INDEX,
+  evaluateSuicideRisk,
+  getApplicableQuestions,
+  isScreenerComplete,
+} from '@/lib/safety/suicide-risk';
+import { getMessages } from '@/lib/i18n';
+
+/**
+ * SuicideRiskScreener Component
+ *
+ * C-SSRS style follow-up shown when PHQ-9 item 9 is answered with a non-zero value.
+ * Follow-up questions appear based on earlier answers; the result is stored as a risk flag.
+ * There is no validated translation in the app, so it is always shown in English.
+ */
+
+interface SuicideRiskScreenerProps {
+  onComplete?: () => void;
+}
+
+export function SuicideRiskScreener({ onComplete }: SuicideRiskScreenerProps) {
+  const { state, setRiskFlag } = useAssessment();
+  const [answers, setAnswers] = useState<CSSRSAnswers>({});
+
+  const questions = getApplicableQuestions(answers);
+
+  const handleAnswerChange = (questionId: keyof CSSRSAnswers, value: string) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: value === 'yes' }));
+  };
+
+  const handleSubmit = () => {
+    if (!isScreenerComplete(answers)) {
+      alert('Please answer all questions before continuing.');
+      return;
+    }
+
+    const item9 = state.phq9Responses[PHQ9_SELF_HARM_ITEM_INDEX]?.value ?? 0;
+    setRiskFlag(evaluateSuicideRisk(item9, answers));
+    onComplete?.();
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">A Few Follow-Up Questions</h2>
+        <p className="text-muted-foreground">
+          You mentioned having thoughts of being better off dead or of hurting yourself.
+          These questions help us make sure you get the right support.
+        </p>
+        {state.language && state.language !== 'en' && (
+          <p className="text-sm text-muted-foreground italic" lang={state.language}>
+            {getMessages(state.language).questionnaires.englishOnly}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-8">
+        {questions.map((question, index) => (
+          <div key={question.id} className="space-y-4">
+            <Label className="text-base font-medium">
+              {index + 1}. {question.text}
+            </Label>
+            <RadioGroup
+              value={
+                answers[question.id] === undefined ? '' : answers[question.id] ? 'yes' : 'no'
+              }
+              onValueChange={(value) => handleAnswerChange(question.id, value)}
+              className="flex flex-row gap-6"
+            >
+              {['yes', 'no'].map((option) => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+                  <Label
+                    htmlFor={`${question.id}-${option}`}
+                    className="font-normal cursor-pointer capitalize"
+                  >
+                    {option}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={handleSubmit} className="w-full" size="lg">
+        Continue
+      </Button>
+    </div>
+  );
+}
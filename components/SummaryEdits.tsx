@@ -0,0 +1,70 @@
+'use client';
+
+import { SUMMARY_FIELD_LABELS, SummaryFieldChange, formatFieldValue } from '@/lib/agents/summary-diff';
+
+/**
+ * SummaryEdits Component
+ *
+ * Shows what the patient changed in the AI-drafted summary before submitting,
+ * field by field. Changes to derived fields (questionnaire scores, risk flag)
+ * are flagged, since the form does not allow them.
+ */
+
+interface SummaryEditsProps {
+  edits: SummaryFieldChange[];
+  // False for submissions stored without a draft
+  hasDraft: boolean;
+}
+
+export function SummaryEdits({ edits, hasDraft }: SummaryEditsProps) {
+  const derivedChanges = edits.filter((edit) => edit.derived);
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-lg font-semibold">Patient Edits to AI Draft</h3>
+
+      {!hasDraft && (
+        <p className="text-sm text-muted-foreground">No AI draft was stored with this submission.</p>
+      )}
+      {hasDraft && edits.length === 0 && (
+        <p className="text-sm text-muted-foreground">The patient submitted the AI draft without changes.</p>
+      )}
+
+      {derivedChanges.length > 0 && (
+        <p className="rounded-md border border-destructive p-3 text-sm text-destructive">
+          Calculated fields were changed after drafting:{' '}
+          {derivedChanges.map((edit) => SUMMARY_FIELD_LABELS[edit.field]).join(', ')}. Verify them against the
+          questionnaire answers.
+        </p>
+      )}
+
+      {edits.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-left">
+              <tr>
+                <th className="px-3 py-2 font-medium">Field</th>
+                <th className="px-3 py-2 font-medium">AI Draft</th>
+                <th className="px-3 py-2 font-medium">Submitted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {edits.map((edit) => (
+                <tr key={edit.field} className={edit.derived ? 'text-destructive' : undefined}>
+                  <td className="px-3 py-2 align-top font-medium whitespace-nowrap">
+                    {SUMMARY_FIELD_LABELS[edit.field]}
+                    {edit.derived && <span className="block text-xs font-normal">Calculated field</span>}
+                  </td>
+                  <td className="px-3 py-2 align-top whitespace-pre-wrap text-muted-foreground line-through">
+                    {formatFieldValue(edit.draft)}
+                  </td>
+                  <td className="px-3 py-2 align-top whitespace-pre-wrap">{formatFieldValue(edit.final)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
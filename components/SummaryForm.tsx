@@ -1,25 +1,37 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import { RiskFlagBanner } from '@/components/RiskFlagBanner';
+import { SourceCitations } from '@/components/SourceCitations';
+import { ConfirmationStatus } from '@/components/ConfirmationStatus';
+import { ErrorSummary } from '@/components/ErrorSummary';
 import { useAssessment } from '@/contexts/AssessmentContext';
 import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { DemographicField, isDemographicField } from '@/lib/agents/demographics';
+import { DEFAULT_LANGUAGE } from '@/lib/i18n';
+import { SUMMARY_FIELD_RULES, validateSummaryRules } from '@/lib/agents/summary-rules';
 
 /**
  * SummaryForm Component
  * 
  * Displays and allows editing of the clinical summary with patient information.
- * All fields are editable before final submission.
+ * Fields written by the summary agent are editable before final submission;
+ * scores computed from the questionnaires are shown read-only. Demographic values
+ * the patient has not confirmed are marked until they confirm or edit them.
+ * Fields are checked against the summary field rules as the patient leaves them,
+ * and submission is blocked with an error summary until every field is valid.
  */
 
 interface SummaryFormProps {
-  onSubmit: () => void;
+  onSubmit: (summary: ClinicalSummary) => void;
+  isSubmitting?: boolean;
 }
 
-export function SummaryForm({ onSubmit }: SummaryFormProps) {
+export function SummaryForm({ onSubmit, isSubmitting = false }: SummaryFormProps) {
   const { state, setClinicalSummary } = useAssessment();
   const [formData, setFormData] = useState<ClinicalSummary>(
     state.clinicalSummary || {
@@ -32,6 +44,7 @@ export function SummaryForm({ onSubmit }: SummaryFormProps) {
       phone: '',
       email: '',
       emergencyContact: '',
+      demographicChecks: {},
       chiefComplaint: '',
       historyOfPresentIllness: '',
       pastPsychiatricHistory: '',
@@ -42,23 +55,85 @@ export function SummaryForm({ onSubmit }: SummaryFormProps) {
       functioning: '',
       phq9Score: state.phq9Score,
       phq9Severity: '',
+      instrumentScores: [],
       additionalNotes: '',
+      riskFlag: state.riskFlag,
+      citations: {},
+      language: state.language ?? DEFAULT_LANGUAGE,
+      originalQuotes: {},
     }
   );
 
+  // Fields the patient has left at least once; errors show for these, or for all after a submit attempt
+  const [touched, setTouched] = useState<Set<keyof ClinicalSummary>>(new Set());
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  const errorSummaryRef = useRef<HTMLDivElement>(null);
+
+  const errors = validateSummaryRules(formData);
+  const errorFor = (field: keyof ClinicalSummary) =>
+    submitAttempted || touched.has(field) ? errors.find((e) => e.field === field)?.message : undefined;
+
+  const touch = (field: keyof ClinicalSummary) => {
+    setTouched((prev) => (prev.has(field) ? prev : new Set(prev).add(field)));
+  };
+
+  const fieldProps = (field: keyof ClinicalSummary) => ({
+    'aria-required': SUMMARY_FIELD_RULES[field]?.required || undefined,
+    'aria-invalid': errorFor(field) ? true : undefined,
+    'aria-describedby': errorFor(field) ? `${field}-error` : undefined,
+    onBlur: () => touch(field),
+  });
+
+  const fieldError = (field: keyof ClinicalSummary) => {
+    const message = errorFor(field);
+    return message ? (
+      <p id={`${field}-error`} className="text-sm text-destructive">
+        {message}
+      </p>
+    ) : null;
+  };
+
+  const requiredMark = (field: keyof ClinicalSummary) =>
+    SUMMARY_FIELD_RULES[field]?.required ? (
+      <span aria-hidden="true" className="text-destructive">
+        {' '}*
+      </span>
+    ) : null;
+
   useEffect(() => {
     if (state.clinicalSummary) {
       setFormData(state.clinicalSummary);
     }
   }, [state.clinicalSummary]);
 
-  const handleChange = (field: keyof ClinicalSummary, value: string | number) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
+  const handleChange = (field: keyof ClinicalSummary, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value,
+      // A demographic value the patient types is their own, so it counts as confirmed
+      ...(isDemographicField(field)
+        ? { demographicChecks: { ...prev.demographicChecks, [field]: { status: 'confirmed' } } }
+        : {}),
+    }));
+  };
+
+  const confirmField = (field: DemographicField) => {
+    setFormData((prev) => ({
+      ...prev,
+      demographicChecks: { ...prev.demographicChecks, [field]: { status: 'confirmed' } },
+    }));
   };
 
   const handleSubmit = () => {
+    if (errors.length > 0) {
+      setSubmitAttempted(true);
+      // Wait for the summary to render before moving focus to it
+      setTimeout(() => errorSummaryRef.current?.focus(), 0);
+      return;
+    }
+
     setClinicalSummary(formData);
-    onSubmit();
+    onSubmit(formData);
   };
 
   return (
@@ -66,88 +141,179 @@ export function SummaryForm({ onSubmit }: SummaryFormProps) {
       <div className="space-y-2">
         <h2 className="text-2xl font-semibold">Clinical Summary</h2>
         <p className="text-muted-foreground">
-          Please review and edit the information below. All fields are editable.
+          Please review and edit the information below. Questionnaire scores are
+          calculated from your answers and cannot be changed here.
+          Numbers in brackets link each section to the messages it was drawn from.
+          Fields marked * are required.
         </p>
       </div>
 
+      {submitAttempted && (
+        <ErrorSummary
+          ref={errorSummaryRef}
+          errors={errors.map((e) => ({
+            id: e.field,
+            label: SUMMARY_FIELD_RULES[e.field as keyof ClinicalSummary]?.label ?? e.field,
+            message: e.message,
+          }))}
+        />
+      )}
+
+      {/* Risk flag - shown first so clinicians see it before anything else */}
+      {formData.riskFlag && formData.riskFlag.level !== 'none' && (
+        <RiskFlagBanner riskFlag={formData.riskFlag} />
+      )}
+
       <div className="space-y-6">
         {/* Patient Information */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold border-b pb-2">Patient Information</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="name">Name</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="name">Name{requiredMark('name')}</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.name}
+                  onConfirm={() => confirmField('name')}
+                />
+              </div>
               <Input
                 id="name"
+                {...fieldProps('name')}
                 value={formData.name}
                 onChange={(e) => handleChange('name', e.target.value)}
               />
+              {fieldError('name')}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="dob">Date of Birth</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="dob">Date of Birth{requiredMark('dob')}</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.dob}
+                  onConfirm={() => confirmField('dob')}
+                />
+              </div>
               <Input
                 id="dob"
+                {...fieldProps('dob')}
                 value={formData.dob}
                 onChange={(e) => handleChange('dob', e.target.value)}
-                placeholder="MM/DD/YYYY"
+                placeholder="YYYY-MM-DD"
               />
+              {fieldError('dob')}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="gender">Gender</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="gender">Gender</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.gender}
+                  onConfirm={() => confirmField('gender')}
+                />
+              </div>
               <Input
                 id="gender"
+                {...fieldProps('gender')}
                 value={formData.gender}
                 onChange={(e) => handleChange('gender', e.target.value)}
               />
+              {fieldError('gender')}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="pronouns">Pronouns</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="pronouns">Pronouns</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.pronouns}
+                  onConfirm={() => confirmField('pronouns')}
+                />
+              </div>
               <Input
                 id="pronouns"
+                {...fieldProps('pronouns')}
                 value={formData.pronouns}
                 onChange={(e) => handleChange('pronouns', e.target.value)}
               />
+              {fieldError('pronouns')}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="raceEthnicity">Race/Ethnicity</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="raceEthnicity">Race/Ethnicity</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.raceEthnicity}
+                  onConfirm={() => confirmField('raceEthnicity')}
+                />
+              </div>
               <Input
                 id="raceEthnicity"
+                {...fieldProps('raceEthnicity')}
                 value={formData.raceEthnicity}
                 onChange={(e) => handleChange('raceEthnicity', e.target.value)}
               />
+              {fieldError('raceEthnicity')}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="address">Address</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="address">Address</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.address}
+                  onConfirm={() => confirmField('address')}
+                />
+              </div>
               <Input
                 id="address"
+                {...fieldProps('address')}
                 value={formData.address}
                 onChange={(e) => handleChange('address', e.target.value)}
               />
+              {fieldError('address')}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="phone">Phone</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="phone">Phone{requiredMark('phone')}</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.phone}
+                  onConfirm={() => confirmField('phone')}
+                />
+              </div>
               <Input
                 id="phone"
+                {...fieldProps('phone')}
                 value={formData.phone}
                 onChange={(e) => handleChange('phone', e.target.value)}
               />
+              {fieldError('phone')}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="email">Email</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.email}
+                  onConfirm={() => confirmField('email')}
+                />
+              </div>
               <Input
                 id="email"
+                {...fieldProps('email')}
                 type="email"
                 value={formData.email}
                 onChange={(e) => handleChange('email', e.target.value)}
               />
+              {fieldError('email')}
             </div>
             <div className="space-y-2 md:col-span-2">
-              <Label htmlFor="emergencyContact">Emergency Contact</Label>
+              <div className="flex flex-wrap items-center">
+                <Label htmlFor="emergencyContact">Emergency Contact{requiredMark('emergencyContact')}</Label>
+                <ConfirmationStatus
+                  check={formData.demographicChecks?.emergencyContact}
+                  onConfirm={() => confirmField('emergencyContact')}
+                />
+              </div>
               <Input
                 id="emergencyContact"
+                {...fieldProps('emergencyContact')}
                 value={formData.emergencyContact}
                 onChange={(e) => handleChange('emergencyContact', e.target.value)}
               />
+              {fieldError('emergencyContact')}
             </div>
           </div>
         </div>
@@ -157,83 +323,123 @@ export function SummaryForm({ onSubmit }: SummaryFormProps) {
           <h3 className="text-lg font-semibold border-b pb-2">Clinical Assessment</h3>
           
           <div className="space-y-2">
-            <Label htmlFor="chiefComplaint">Chief Complaint</Label>
+            <div className="flex items-center">
+              <Label htmlFor="chiefComplaint">Chief Complaint</Label>
+              <SourceCitations indices={formData.citations?.chiefComplaint} />
+            </div>
             <Textarea
               id="chiefComplaint"
+              {...fieldProps('chiefComplaint')}
               value={formData.chiefComplaint}
               onChange={(e) => handleChange('chiefComplaint', e.target.value)}
               rows={3}
             />
+            {fieldError('chiefComplaint')}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="historyOfPresentIllness">History of Present Illness</Label>
+            <div className="flex items-center">
+              <Label htmlFor="historyOfPresentIllness">History of Present Illness</Label>
+              <SourceCitations indices={formData.citations?.historyOfPresentIllness} />
+            </div>
             <Textarea
               id="historyOfPresentIllness"
+              {...fieldProps('historyOfPresentIllness')}
               value={formData.historyOfPresentIllness}
               onChange={(e) => handleChange('historyOfPresentIllness', e.target.value)}
               rows={4}
             />
+            {fieldError('historyOfPresentIllness')}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="pastPsychiatricHistory">Past Psychiatric History</Label>
+            <div className="flex items-center">
+              <Label htmlFor="pastPsychiatricHistory">Past Psychiatric History</Label>
+              <SourceCitations indices={formData.citations?.pastPsychiatricHistory} />
+            </div>
             <Textarea
               id="pastPsychiatricHistory"
+              {...fieldProps('pastPsychiatricHistory')}
               value={formData.pastPsychiatricHistory}
               onChange={(e) => handleChange('pastPsychiatricHistory', e.target.value)}
               rows={3}
             />
+            {fieldError('pastPsychiatricHistory')}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="familyHistory">Family History</Label>
+            <div className="flex items-center">
+              <Label htmlFor="familyHistory">Family History</Label>
+              <SourceCitations indices={formData.citations?.familyHistory} />
+            </div>
             <Textarea
               id="familyHistory"
+              {...fieldProps('familyHistory')}
               value={formData.familyHistory}
               onChange={(e) => handleChange('familyHistory', e.target.value)}
               rows={3}
             />
+            {fieldError('familyHistory')}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="medicalHistory">Medical History</Label>
+            <div className="flex items-center">
+              <Label htmlFor="medicalHistory">Medical History</Label>
+              <SourceCitations indices={formData.citations?.medicalHistory} />
+            </div>
             <Textarea
               id="medicalHistory"
+              {...fieldProps('medicalHistory')}
               value={formData.medicalHistory}
               onChange={(e) => handleChange('medicalHistory', e.target.value)}
               rows={3}
             />
+            {fieldError('medicalHistory')}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="substanceUse">Substance Use</Label>
+            <div className="flex items-center">
+              <Label htmlFor="substanceUse">Substance Use</Label>
+              <SourceCitations indices={formData.citations?.substanceUse} />
+            </div>
             <Textarea
               id="substanceUse"
+              {...fieldProps('substanceUse')}
               value={formData.substanceUse}
               onChange={(e) => handleChange('substanceUse', e.target.value)}
               rows={3}
             />
+            {fieldError('substanceUse')}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="mentalStatus">Mental Status</Label>
+            <div className="flex items-center">
+              <Label htmlFor="mentalStatus">Mental Status</Label>
+              <SourceCitations indices={formData.citations?.mentalStatus} />
+            </div>
             <Textarea
               id="mentalStatus"
+              {...fieldProps('mentalStatus')}
               value={formData.mentalStatus}
               onChange={(e) => handleChange('mentalStatus', e.target.value)}
               rows={3}
             />
+            {fieldError('mentalStatus')}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="functioning">Social/Occupational Functioning</Label>
+            <div className="flex items-center">
+              <Label htmlFor="functioning">Social/Occupational Functioning</Label>
+              <SourceCitations indices={formData.citations?.functioning} />
+            </div>
             <Textarea
               id="functioning"
+              {...fieldProps('functioning')}
               value={formData.functioning}
               onChange={(e) => handleChange('functioning', e.target.value)}
               rows={3}
             />
+            {fieldError('functioning')}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -241,12 +447,14 @@ export function SummaryForm({ onSubmit }: SummaryFormProps) {
               <Label htmlFor="phq9Score">PHQ-9 Score</Label>
               <Input
                 id="phq9Score"
+                {...fieldProps('phq9Score')}
                 type="number"
                 min="0"
                 max="27"
                 value={formData.phq9Score}
-                onChange={(e) => handleChange('phq9Score', parseInt(e.target.value) || 0)}
+                readOnly
               />
+              {fieldError('phq9Score')}
             </div>
             <div className="space-y-2">
               <Label htmlFor="phq9Severity">PHQ-9 Severity</Label>
@@ -259,21 +467,44 @@ export function SummaryForm({ onSubmit }: SummaryFormProps) {
             </div>
           </div>
 
+          {formData.instrumentScores?.some((s) => s.instrumentId !== 'phq9') && (
+            <div className="space-y-2">
+              <Label>Other Screening Instruments</Label>
+              <ul className="rounded-md border border-input divide-y text-sm">
+                {formData.instrumentScores
+                  .filter((s) => s.instrumentId !== 'phq9')
+                  .map((s) => (
+                    <li key={s.instrumentId} className="flex justify-between px-3 py-2">
+                      <span className="font-medium">{s.name}</span>
+                      <span>
+                        {s.score} / {s.maxScore} — {s.severity}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label htmlFor="additionalNotes">Additional Notes</Label>
+            <div className="flex items-center">
+              <Label htmlFor="additionalNotes">Additional Notes</Label>
+              <SourceCitations indices={formData.citations?.additionalNotes} />
+            </div>
             <Textarea
               id="additionalNotes"
+              {...fieldProps('additionalNotes')}
               value={formData.additionalNotes}
               onChange={(e) => handleChange('additionalNotes', e.target.value)}
               rows={3}
             />
+            {fieldError('additionalNotes')}
           </div>
         </div>
       </div>
 
       <div className="flex gap-4 pt-4 border-t">
-        <Button onClick={handleSubmit} size="lg" className="flex-1">
-          Submit Assessment
+        <Button onClick={handleSubmit} size="lg" className="flex-1" disabled={isSubmitting}>
+          {isSubmitting ? 'Submitting...' : 'Submit Assessment'}
         </Button>
       </div>
     </div>
@@ -0,0 +1,111 @@
+'use client';
+
+import { ClinicalSummary, CITABLE_SECTIONS, SECTION_LABELS } from '@/lib/agents/summary-agent';
+import { DemographicField } from '@/lib/agents/demographics';
+import { RiskFlagBanner } from '@/components/RiskFlagBanner';
+import { SourceCitations } from '@/components/SourceCitations';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/i18n';
+
+/**
+ * SummaryView Component
+ *
+ * Read-only rendering of a submitted ClinicalSummary for clinician review.
+ * Citations resolve against the submission's own transcript. Demographic values
+ * the patient did not confirm are marked. For intakes in another language, the
+ * patient's original-language quotes are shown under each section.
+ */
+
+interface SummaryViewProps {
+  summary: ClinicalSummary;
+  transcript: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+const PATIENT_FIELDS: Array<{ field: DemographicField; label: string }> = [
+  { field: 'name', label: 'Name' },
+  { field: 'dob', label: 'Date of Birth' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'pronouns', label: 'Pronouns' },
+  { field: 'raceEthnicity', label: 'Race/Ethnicity' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'email', label: 'Email' },
+  { field: 'address', label: 'Address' },
+  { field: 'emergencyContact', label: 'Emergency Contact' },
+];
+
+export function SummaryView({ summary, transcript }: SummaryViewProps) {
+  // Summaries submitted before intakes were offered in other languages have none recorded
+  const language = summary.language ?? DEFAULT_LANGUAGE;
+
+  return (
+    <div className="space-y-8">
+      {summary.riskFlag && summary.riskFlag.level !== 'none' && (
+        <RiskFlagBanner riskFlag={summary.riskFlag} />
+      )}
+
+      <section className="space-y-3">
+        <h3 className="text-lg font-semibold">Patient Information</h3>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+          {PATIENT_FIELDS.map(({ field, label }) => (
+            <div key={field} className="flex gap-2">
+              <dt className="text-muted-foreground min-w-[140px]">{label}</dt>
+              <dd>
+                {summary[field] || '—'}
+                {summary[field] && summary.demographicChecks?.[field]?.status === 'needs_confirmation' && (
+                  <span className="ml-2 text-xs text-muted-foreground">(not confirmed by patient)</span>
+                )}
+              </dd>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <dt className="text-muted-foreground min-w-[140px]">Intake Language</dt>
+            <dd>{getLanguageName(language)}</dd>
+          </div>
+        </dl>
+      </section>
+
+      <section className="space-y-4">
+        <h3 className="text-lg font-semibold">Clinical Information</h3>
+        {CITABLE_SECTIONS.map((section) => (
+          <div key={section} className="space-y-1">
+            <div className="flex items-center text-sm font-medium">
+              {SECTION_LABELS[section]}
+              <SourceCitations indices={summary.citations?.[section]} transcript={transcript} />
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{summary[section] || '—'}</p>
+            {summary.originalQuotes?.[section]?.map((quote, idx) => (
+              <blockquote
+                key={idx}
+                lang={language}
+                className="border-l-2 border-border pl-3 text-sm italic text-muted-foreground"
+              >
+                “{quote}”
+              </blockquote>
+            ))}
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Screening Instruments</h3>
+        <ul className="rounded-md border border-border divide-y text-sm">
+          <li className="flex justify-between px-3 py-2">
+            <span className="font-medium">PHQ-9</span>
+            <span>
+              {summary.phq9Score} / 27 — {summary.phq9Severity}
+            </span>
+          </li>
+          {summary.instrumentScores
+            ?.filter((s) => s.instrumentId !== 'phq9')
+            .map((s) => (
+              <li key={s.instrumentId} className="flex justify-between px-3 py-2">
+                <span className="font-medium">{s.name}</span>
+                <span>
+                  {s.score} / {s.maxScore} — {s.severity}
+                </span>
+              </li>
+            ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
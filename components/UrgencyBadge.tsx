@@ -0,0 +1,25 @@
+'use client';
+
+import { Urgency } from '@/lib/agents/recommendation-agent';
+import { cn } from '@/lib/utils';
+
+/**
+ * UrgencyBadge Component
+ *
+ * Compact label for a triage urgency level. Clinician areas only.
+ */
+
+const URGENCY_STYLES: Record<Urgency, string> = {
+  urgent: 'bg-destructive text-destructive-foreground',
+  high: 'border border-destructive text-destructive',
+  moderate: 'bg-secondary text-secondary-foreground',
+  low: 'bg-muted text-muted-foreground',
+};
+
+export function UrgencyBadge({ urgency }: { urgency: Urgency }) {
+  return (
+    <span className={cn('rounded-md px-2 py-1 text-xs font-semibold uppercase', URGENCY_STYLES[urgency])}>
+      {urgency}
+    </span>
+  );
+}
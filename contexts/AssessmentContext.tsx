@@ -1,13 +1,34 @@
 'use client';
 
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { RiskFlag } from '@/lib/safety/suicide-risk';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+import { DEFAULT_LANGUAGE, Language } from '@/lib/i18n';
+import {
+  InstrumentId,
+  InstrumentResponses,
+  PHQ9,
+  getInstrument,
+  scoreInstrument,
+} from '@/lib/instruments';
+import {
+  SavedSession,
+  createSessionId,
+  deleteSession,
+  getActiveSessionId,
+  loadSession,
+  saveSession,
+} from '@/lib/session/session-store';
 
 /**
  * Assessment Context
  * 
  * Manages global state for the psychiatric intake assessment session.
- * Tracks conversation history, PHQ-9 responses, and clinical summary data.
+ * Tracks conversation history, questionnaire responses, and clinical summary data.
+ * State is saved, encrypted, to browser storage so an interrupted assessment can
+ * be resumed; a saved session is only restored once the patient chooses to resume it.
+ * The language the patient picks at the start applies to everything they see.
  */
 
 export interface PHQ9Response {
@@ -16,59 +37,136 @@ export interface PHQ9Response {
 }
 
 export interface AssessmentState {
+  // Patient's chosen language; null until they pick one
+  language: Language | null;
+
   // Conversation data
   conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
   
-  // PHQ-9 data
+  // Crisis language detected by the chat route
+  safetyEvents: SafetyEvent[];
+  
+  // Questionnaire data, keyed by instrument (-1 marks an unanswered item)
+  instrumentResponses: InstrumentResponses;
+  completedInstruments: InstrumentId[];
+  
+  // PHQ-9 data (kept in sync with instrumentResponses.phq9)
   phq9Responses: PHQ9Response[];
   phq9Score: number;
   phq9Completed: boolean;
   
+  // Suicide risk follow-up (set when PHQ-9 item 9 is positive)
+  riskFlag: RiskFlag | null;
+  
   // Clinical summary
   clinicalSummary: ClinicalSummary | null;
+  // Summary as the summary agent drafted it, kept unchanged while the patient edits
+  summaryDraft: ClinicalSummary | null;
   summaryGenerated: boolean;
   
   // Flow control
-  currentStep: 'intake' | 'phq9' | 'summary' | 'complete';
+  currentStep: 'intake' | 'questionnaires' | 'safety' | 'summary' | 'complete';
 }
 
 interface AssessmentContextType {
   state: AssessmentState;
+  setLanguage: (language: Language) => void;
   addMessage: (role: 'user' | 'assistant', content: string) => void;
-  setPHQ9Responses: (responses: PHQ9Response[]) => void;
-  setPHQ9Score: (score: number) => void;
-  setPHQ9Completed: (completed: boolean) => void;
+  // Keeps the first `length` messages, e.g. to regenerate the latest reply
+  truncateConversation: (length: number) => void;
+  // Replaces a message's text and drops the messages after it, which no longer follow from it
+  replaceMessage: (index: number, content: string) => void;
+  addSafetyEvent: (event: SafetyEvent) => void;
+  setInstrumentResponses: (id: InstrumentId, values: number[]) => void;
+  setInstrumentCompleted: (id: InstrumentId) => void;
+  setRiskFlag: (flag: RiskFlag | null) => void;
   setClinicalSummary: (summary: ClinicalSummary) => void;
+  setSummaryDraft: (draft: ClinicalSummary) => void;
   setCurrentStep: (step: AssessmentState['currentStep']) => void;
   resetAssessment: () => void;
+  // Saved session found on load, waiting for the patient to resume or discard it
+  resumableSession: SavedSession<AssessmentState> | null;
+  resumeSession: () => void;
+  discardSavedSession: () => void;
 }
 
 const AssessmentContext = createContext<AssessmentContextType | undefined>(undefined);
 
-const initialPHQ9Questions = [
-  'Little interest or pleasure in doing things',
-  'Feeling down, depressed, or hopeless',
-  'Trouble falling or staying asleep, or sleeping too much',
-  'Feeling tired or having little energy',
-  'Poor appetite or overeating',
-  'Feeling bad about yourself — or that you are a failure or have let yourself or your family down',
-  'Trouble concentrating on things, such as reading the newspaper or watching television',
-  'Moving or speaking so slowly that other people could have noticed. Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual',
-  'Thoughts that you would be better off dead, or of hurting yourself',
-];
-
 const initialState: AssessmentState = {
+  language: null,
   conversationHistory: [],
-  phq9Responses: initialPHQ9Questions.map(q => ({ question: q, value: -1 })),
+  safetyEvents: [],
+  instrumentResponses: {},
+  completedInstruments: [],
+  phq9Responses: PHQ9.items.map(item => ({ question: item.text, value: -1 })),
   phq9Score: 0,
   phq9Completed: false,
+  riskFlag: null,
   clinicalSummary: null,
+  summaryDraft: null,
   summaryGenerated: false,
   currentStep: 'intake',
 };
 
+// Delay before saving so bursts of updates are written once
+const SAVE_DEBOUNCE_MS = 300;
+
+/**
+ * A saved session is worth resuming once the patient has answered something
+ */
+function hasProgress(state: AssessmentState): boolean {
+  return (
+    state.currentStep !== 'complete' &&
+    (state.conversationHistory.some((m) => m.role === 'user') ||
+      state.completedInstruments.length > 0)
+  );
+}
+
 export function AssessmentProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<AssessmentState>(initialState);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [resumableSession, setResumableSession] = useState<SavedSession<AssessmentState> | null>(null);
+
+  // Look for a saved session to offer before anything new is written
+  useEffect(() => {
+    const restore = async () => {
+      const activeId = getActiveSessionId();
+      const saved = activeId ? await loadSession<AssessmentState>(activeId) : null;
+      if (saved && hasProgress(saved.data)) {
+        setResumableSession(saved);
+        return;
+      }
+
+      if (activeId) deleteSession(activeId);
+      setSessionId(createSessionId());
+    };
+
+    restore().catch((error) => {
+      console.error('Error restoring session:', error);
+      setSessionId(createSessionId());
+    });
+  }, []);
+
+  // Save automatically once a session is active
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const timer = setTimeout(() => {
+      saveSession(sessionId, state).catch((error) => {
+        console.error('Error saving session:', error);
+      });
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, state]);
+
+  // Keep the document language in step so assistive technology reads it correctly
+  useEffect(() => {
+    document.documentElement.lang = state.language ?? DEFAULT_LANGUAGE;
+  }, [state.language]);
+
+  const setLanguage = (language: Language) => {
+    setState(prev => ({ ...prev, language }));
+  };
 
   const addMessage = (role: 'user' | 'assistant', content: string) => {
     setState(prev => ({
@@ -77,21 +175,63 @@ export function AssessmentProvider({ children }: { children: ReactNode }) {
     }));
   };
 
-  const setPHQ9Responses = (responses: PHQ9Response[]) => {
-    const score = responses.reduce((sum, r) => sum + (r.value >= 0 ? r.value : 0), 0);
+  const truncateConversation = (length: number) => {
+    setState(prev => ({
+      ...prev,
+      conversationHistory: prev.conversationHistory.slice(0, length),
+    }));
+  };
+
+  const replaceMessage = (index: number, content: string) => {
+    setState(prev => {
+      const message = prev.conversationHistory[index];
+      if (!message) return prev;
+
+      return {
+        ...prev,
+        conversationHistory: [...prev.conversationHistory.slice(0, index), { ...message, content }],
+      };
+    });
+  };
+
+  const addSafetyEvent = (event: SafetyEvent) => {
     setState(prev => ({
       ...prev,
-      phq9Responses: responses,
-      phq9Score: score,
+      safetyEvents: [...prev.safetyEvents, event],
     }));
   };
 
-  const setPHQ9Score = (score: number) => {
-    setState(prev => ({ ...prev, phq9Score: score }));
+  const setInstrumentResponses = (id: InstrumentId, values: number[]) => {
+    setState(prev => {
+      const next = {
+        ...prev,
+        instrumentResponses: { ...prev.instrumentResponses, [id]: values },
+      };
+      if (id !== 'phq9') return next;
+
+      return {
+        ...next,
+        phq9Responses: PHQ9.items.map((item, idx) => ({
+          question: item.text,
+          value: values[idx] ?? -1,
+        })),
+        phq9Score: scoreInstrument(getInstrument('phq9'), values),
+      };
+    });
+  };
+
+  const setInstrumentCompleted = (id: InstrumentId) => {
+    setState(prev => ({
+      ...prev,
+      completedInstruments: prev.completedInstruments.includes(id)
+        ? prev.completedInstruments
+        : [...prev.completedInstruments, id],
+      phq9Completed: prev.phq9Completed || id === 'phq9',
+    }));
   };
 
-  const setPHQ9Completed = (completed: boolean) => {
-    setState(prev => ({ ...prev, phq9Completed: completed }));
+  const setRiskFlag = (flag: RiskFlag | null) => {
+    setState(prev => ({ ...prev, riskFlag: flag }));
   };
 
   const setClinicalSummary = (summary: ClinicalSummary) => {
@@ -102,25 +242,60 @@ export function AssessmentProvider({ children }: { children: ReactNode }) {
     }));
   };
 
+  const setSummaryDraft = (draft: ClinicalSummary) => {
+    setState(prev => ({
+      ...prev,
+      clinicalSummary: draft,
+      summaryDraft: draft,
+      summaryGenerated: true,
+    }));
+  };
+
   const setCurrentStep = (step: AssessmentState['currentStep']) => {
     setState(prev => ({ ...prev, currentStep: step }));
   };
 
   const resetAssessment = () => {
+    if (sessionId) deleteSession(sessionId);
     setState(initialState);
+    setSessionId(createSessionId());
+  };
+
+  const resumeSession = () => {
+    if (!resumableSession) return;
+
+    setState({ ...initialState, ...resumableSession.data });
+    setSessionId(resumableSession.id);
+    setResumableSession(null);
+  };
+
+  const discardSavedSession = () => {
+    if (!resumableSession) return;
+
+    deleteSession(resumableSession.id);
+    setResumableSession(null);
+    setSessionId(createSessionId());
   };
 
   return (
     <AssessmentContext.Provider
       value={{
         state,
+        setLanguage,
         addMessage,
-        setPHQ9Responses,
-        setPHQ9Score,
-        setPHQ9Completed,
+        truncateConversation,
+        replaceMessage,
+        addSafetyEvent,
+        setInstrumentResponses,
+        setInstrumentCompleted,
+        setRiskFlag,
         setClinicalSummary,
+        setSummaryDraft,
         setCurrentStep,
         resetAssessment,
+        resumableSession,
+        resumeSession,
+        discardSavedSession,
       }}
     >
       {children}
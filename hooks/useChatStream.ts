@@ -0,0 +1,147 @@
+import { useRef, useState } from 'react';
+import { IntakeTransition } from '@/lib/agents/intake-agent';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+import { ChatStreamEvent, createChatStreamParser } from '@/lib/chat/stream';
+import { Language } from '@/lib/i18n';
+
+/**
+ * useChatStream Hook
+ *
+ * Sends a turn to the chat route and reads the typed event stream it returns
+ * (see lib/chat/stream.ts). Exposes the reply as it streams and reports how the
+ * turn ended: a complete reply, a reply the patient stopped, or an error the
+ * page shows to the patient. Stopping aborts the request, which also cancels
+ * the model request on the server.
+ */
+
+export interface ChatRequest {
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  language: Language | null;
+}
+
+export type ChatStreamError = 'too_long' | 'failed';
+
+export interface ChatReply {
+  content: string;
+  transition: IntakeTransition | null;
+  /** The patient stopped the reply; content is what had arrived */
+  stopped: boolean;
+}
+
+interface ChatStreamHandlers {
+  /** Called as soon as the route reports crisis language, before the reply finishes */
+  onSafetyEvent?: (event: SafetyEvent) => void;
+}
+
+export function useChatStream() {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
+  const [error, setError] = useState<ChatStreamError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Streams one reply; resolves with it once complete or stopped, or with null on error
+   */
+  const streamChat = async (request: ChatRequest, handlers: ChatStreamHandlers = {}): Promise<ChatReply | null> => {
+    setIsStreaming(true);
+    setStreamingContent('');
+    setError(null);
+
+    const abort = new AbortController();
+    abortRef.current = abort;
+    let content = '';
+    let transition: IntakeTransition | null = null;
+    let failure: ChatStreamError | null = null;
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: abort.signal,
+      });
+
+      // A single message can be longer than the chat route's token budget
+      if (response.status === 413) {
+        failure = 'too_long';
+        return null;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error('Failed to get response');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = createChatStreamParser();
+      let completed = false;
+
+      const handle = (event: ChatStreamEvent) => {
+        switch (event.type) {
+          case 'phase':
+            // The phase is for the agent; the patient only sees the transition
+            break;
+          case 'safety':
+            handlers.onSafetyEvent?.(event.event);
+            break;
+          case 'token':
+            content += event.text;
+            setStreamingContent(content);
+            break;
+          case 'transition':
+            transition = event.transition;
+            break;
+          case 'usage':
+            // Token counts are for monitoring; the patient never sees them
+            break;
+          case 'error':
+            console.error('Chat stream error:', event.message);
+            failure = 'failed';
+            break;
+          case 'done':
+            completed = true;
+            break;
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // stream: true keeps a multi-byte character split across chunks intact
+        parser.push(decoder.decode(value, { stream: true })).forEach(handle);
+      }
+      parser.push(decoder.decode()).forEach(handle);
+
+      // A stream that closes without "done" was cut off
+      if (failure || !completed) {
+        failure = 'failed';
+        return null;
+      }
+      return { content, transition, stopped: false };
+    } catch (err) {
+      // The step only changes after a complete reply
+      if (abort.signal.aborted) return { content, transition: null, stopped: true };
+
+      console.error('Error sending message:', err);
+      failure = 'failed';
+      return null;
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+      setStreamingContent('');
+      setError(failure);
+    }
+  };
+
+  const stop = () => abortRef.current?.abort();
+
+  return {
+    streamChat,
+    stop,
+    isStreaming,
+    streamingContent,
+    error,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Demographics
+ *
+ * Normalizes the demographic fields the summary agent extracts from the
+ * identifying-information part of the intake (ISO 8601 dates, E.164 phone
+ * numbers, valid email addresses) and decides which values the patient needs
+ * to confirm. A value is confirmed only when it normalizes cleanly and can be
+ * traced to the patient's own words; anything inferred, ambiguous, or missing
+ * needs confirmation.
+ */
+
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+
+export const DEMOGRAPHIC_FIELDS = [
+  'name',
+  'dob',
+  'gender',
+  'pronouns',
+  'raceEthnicity',
+  'address',
+  'phone',
+  'email',
+  'emergencyContact',
+] as const satisfies ReadonlyArray<keyof ClinicalSummary>;
+
+export type DemographicField = (typeof DEMOGRAPHIC_FIELDS)[number];
+
+export function isDemographicField(field: string): field is DemographicField {
+  return (DEMOGRAPHIC_FIELDS as ReadonlyArray<string>).includes(field);
+}
+
+export type DemographicStatus = 'confirmed' | 'needs_confirmation';
+
+export interface DemographicCheck {
+  status: DemographicStatus;
+  // Why the value needs confirmation
+  reason?: string;
+}
+
+export type DemographicChecks = Partial<Record<DemographicField, DemographicCheck>>;
+
+interface Normalized {
+  value: string;
+  // Set when the value was normalized but the reading is uncertain
+  uncertain?: string;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const EMAIL_PATTERN = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}$/;
+
+function pad(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+function toISODate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid =
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  if (!valid || date.getTime() > Date.now()) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Normalizes a date to YYYY-MM-DD. Numeric dates are read month first (US order).
+ */
+export function normalizeDate(raw: string): Normalized | null {
+  const text = raw.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const value = toISODate(+iso[1], +iso[2], +iso[3]);
+    return value ? { value } : null;
+  }
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (numeric) {
+    const [month, day] = [+numeric[1], +numeric[2]];
+    let year = +numeric[3];
+    let uncertain: string | undefined;
+    if (numeric[3].length === 2) {
+      // Two-digit years are read as the most recent past year
+      const century = Math.floor(new Date().getFullYear() / 100) * 100;
+      year = century + year > new Date().getFullYear() ? century - 100 + year : century + year;
+      uncertain = `Year read as ${year}`;
+    } else if (month !== day && month <= 12 && day <= 12) {
+      uncertain = 'Day and month could be read either way; read as month/day';
+    }
+    const value = toISODate(year, month, day);
+    return value ? { value, uncertain } : null;
+  }
+
+  // "March 7, 1990" and "7 March 1990"
+  const monthFirst = text.match(/^([A-Za-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([A-Za-z]+)\.?,?\s+(\d{4})$/);
+  const parts = monthFirst
+    ? { month: monthFirst[1], day: +monthFirst[2], year: +monthFirst[3] }
+    : dayFirst
+      ? { month: dayFirst[2], day: +dayFirst[1], year: +dayFirst[3] }
+      : null;
+  if (parts) {
+    const month = MONTH_NAMES.indexOf(parts.month.slice(0, 3).toLowerCase()) + 1;
+    const value = month > 0 ? toISODate(parts.year, month, parts.day) : null;
+    return value ? { value } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Normalizes a phone number to E.164. Ten-digit numbers without a country
+ * code are read as North American (+1).
+ */
+export function normalizePhone(raw: string): Normalized | null {
+  const text = raw.trim();
+  if (/[^\d\s().+-]/.test(text.replace(/\s*(?:x|ext\.?)\s*\d+$/i, ''))) return null;
+
+  const digits = text.replace(/\s*(?:x|ext\.?)\s*\d+$/i, '').replace(/\D/g, '');
+  if (text.startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? { value: `+${digits}` } : null;
+  }
+  if (digits.length === 10) {
+    return { value: `+1${digits}` };
+  }
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return { value: `+${digits}` };
+  }
+  return null;
+}
+
+/**
+ * Normalizes an email address: trimmed, domain lowercased, and syntactically valid
+ */
+export function normalizeEmail(raw: string): Normalized | null {
+  const text = raw.trim().replace(/^mailto:/i, '');
+  if (!EMAIL_PATTERN.test(text)) return null;
+
+  const at = text.lastIndexOf('@');
+  return { value: `${text.slice(0, at)}@${text.slice(at + 1).toLowerCase()}` };
+}
+
+const NORMALIZERS: Partial<Record<DemographicField, (raw: string) => Normalized | null>> = {
+  dob: normalizeDate,
+  phone: normalizePhone,
+  email: normalizeEmail,
+};
+
+const FORMAT_DESCRIPTIONS: Partial<Record<DemographicField, string>> = {
+  dob: 'a date',
+  phone: 'a phone number',
+  email: 'an email address',
+};
+
+function collapse(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether the value appears in what the patient wrote. Phone numbers are
+ * compared by digits so formatting differences do not matter.
+ */
+function isStatedByPatient(field: DemographicField, value: string, patientText: string): boolean {
+  if (field === 'phone') {
+    const digits = value.replace(/\D/g, '');
+    return digits.length > 0 && patientText.replace(/\D/g, '').includes(digits.slice(-10));
+  }
+  return collapse(patientText).includes(collapse(value));
+}
+
+/**
+ * Normalizes extracted demographic values and marks each confirmed or needing confirmation
+ */
+export function checkDemographics(
+  extracted: Pick<ClinicalSummary, DemographicField>,
+  conversationHistory: Array<{ role: string; content: string }>
+): { values: Pick<ClinicalSummary, DemographicField>; checks: DemographicChecks } {
+  const patientText = conversationHistory
+    .filter((msg) => msg.role === 'user')
+    .map((msg) => msg.content)
+    .join('\n');
+
+  const values = { ...extracted };
+  const checks: DemographicChecks = {};
+
+  DEMOGRAPHIC_FIELDS.forEach((field) => {
+    const raw = extracted[field].trim();
+    values[field] = raw;
+
+    if (!raw) {
+      checks[field] = { status: 'needs_confirmation', reason: 'Not provided during the intake' };
+      return;
+    }
+
+    const normalizer = NORMALIZERS[field];
+    const normalized = normalizer ? normalizer(raw) : { value: raw };
+    if (!normalized) {
+      checks[field] = { status: 'needs_confirmation', reason: `Could not be read as ${FORMAT_DESCRIPTIONS[field]}` };
+      return;
+    }
+
+    values[field] = normalized.value;
+    if (!isStatedByPatient(field, raw, patientText)) {
+      checks[field] = { status: 'needs_confirmation', reason: 'Inferred from the conversation' };
+    } else if (normalized.uncertain) {
+      checks[field] = { status: 'needs_confirmation', reason: normalized.uncertain };
+    } else {
+      checks[field] = { status: 'confirmed' };
+    }
+  });
+
+  return { values, checks };
+}
@@ -0,0 +1,171 @@
+/**
+ * Intake Agent Tests
+ *
+ * Topic classification, which drives the phase engine, the transcript scores,
+ * and the mock provider's scripted interview.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  INTAKE_LINES,
+  INTAKE_TOPICS,
+  IntakePhase,
+  MAX_INTAKE_PATIENT_TURNS,
+  buildPhaseContext,
+  classifyExchangePhases,
+  deriveIntakeAgentState,
+  getIntakeGreeting,
+  getIntakeTransition,
+} from '@/lib/agents/intake-agent';
+import { LANGUAGES, Language } from '@/lib/i18n';
+import { MOCK_INTAKE_SCRIPTS } from '@/lib/llm/mock-provider';
+
+describe('classifyExchangePhases', () => {
+  (Object.keys(LANGUAGES) as Language[]).forEach((code) => {
+    const topics = (Object.keys(MOCK_INTAKE_SCRIPTS[code]) as IntakePhase[]).filter(
+      (phase) => phase !== 'greeting' && phase !== 'complete'
+    );
+
+    it.each(topics)(`classifies the ${code} mock question for %s as that topic alone`, (phase) => {
+      expect(classifyExchangePhases(MOCK_INTAKE_SCRIPTS[code][phase], '', code)).toEqual([phase]);
+    });
+  });
+
+  it.each([
+    'Has anyone in your family experienced mental health difficulties?',
+    'Is there any family history of psychiatric illness?',
+    'Do any of your relatives struggle with alcohol or drug use?',
+    'Has your mother or father ever been treated for depression?',
+  ])('recognizes the family psychiatric history question "%s"', (question) => {
+    expect(classifyExchangePhases(question, '', 'en')).toContain('family_history');
+  });
+
+  it.each([
+    ['Do you live with your family?', ['identifying_info']],
+    ['Who is your emergency contact, a parent or a sibling?', ['identifying_info']],
+    ['How are things with your family and friends day-to-day?', ['functioning']],
+  ])('does not treat "%s" as family history', (question, phases) => {
+    expect(classifyExchangePhases(question, '', 'en')).toEqual(phases);
+  });
+
+  it.each([
+    'When did these difficulties first start?',
+    'When did the panic attacks begin?',
+    'How long have you been feeling this way?',
+    'Have the symptoms been getting worse?',
+    'What seems to trigger the anxiety?',
+  ])('recognizes the history of present illness question "%s"', (question) => {
+    expect(classifyExchangePhases(question, '', 'en')).toContain('history_present_illness');
+  });
+
+  it.each([
+    'When did you start your current job?',
+    'How long have you lived there?',
+    'What made you start therapy back then?',
+  ])('does not treat "%s" as history of present illness', (question) => {
+    expect(classifyExchangePhases(question, '', 'en')).not.toContain('history_present_illness');
+  });
+
+  it('tightens the Spanish keywords the same way', () => {
+    expect(classifyExchangePhases('¿Con quién vive, con su familia?', '', 'es')).toEqual(['identifying_info']);
+    expect(classifyExchangePhases('¿Hay antecedentes familiares de depresión?', '', 'es')).toEqual(['family_history']);
+    expect(classifyExchangePhases('¿Cuánto tiempo lleva en su trabajo?', '', 'es')).toEqual([]);
+    expect(classifyExchangePhases('¿Cuánto tiempo lleva sintiéndose así?', '', 'es')).toEqual(['history_present_illness']);
+  });
+
+  it('classifies by the answer only when the question matches no topic', () => {
+    expect(classifyExchangePhases('Could you tell me more?', 'My father had bipolar disorder.', 'en')).toEqual([
+      'family_history',
+    ]);
+    expect(classifyExchangePhases('Do you live with your family?', 'My father had bipolar disorder.', 'en')).toEqual([
+      'identifying_info',
+    ]);
+  });
+});
+
+describe('deriveIntakeAgentState', () => {
+  it('does not skip family history after a question about living with family', () => {
+    const state = deriveIntakeAgentState([
+      { role: 'assistant', content: 'Can you tell me what brings you in today?' },
+      { role: 'user', content: 'I feel low.' },
+      { role: 'assistant', content: 'Do you live with your family?' },
+      { role: 'user', content: 'Yes, with my parents.' },
+    ]);
+
+    expect(state.discussedTopics.has('identifying_info')).toBe(true);
+    expect(state.discussedTopics.has('family_history')).toBe(false);
+  });
+});
+
+describe('wrap-up question', () => {
+  it.each([
+    "Is there anything else you'd like to share before I summarize everything?",
+    'Is there anything else you’d like to share with me?',
+    'Is there anything else you would like to add?',
+    'Before we finish, is there anything you would like to tell me?',
+  ])('recognizes "%s"', (question) => {
+    expect(INTAKE_LINES.en.wrapUpPattern.test(question)).toBe(true);
+  });
+
+  it('recognizes Spanish paraphrases', () => {
+    expect(INTAKE_LINES.es.wrapUpPattern.test('¿Hay algo más que quiera agregar?')).toBe(true);
+  });
+});
+
+describe('getIntakeTransition', () => {
+  const opening = [
+    { role: 'assistant' as const, content: 'Can you tell me what brings you in today?' },
+    { role: 'user' as const, content: 'I feel low.' },
+  ];
+
+  it('ends the interview when the agent says the completion marker', () => {
+    expect(getIntakeTransition(deriveIntakeAgentState(opening), true)).toEqual({
+      transition: 'questionnaires',
+      reason: 'agent',
+    });
+  });
+
+  it('falls back to the wrap-up question answered after every topic', () => {
+    const state = deriveIntakeAgentState([
+      ...INTAKE_TOPICS.flatMap(({ phase }) => [
+        { role: 'assistant' as const, content: MOCK_INTAKE_SCRIPTS.en[phase] },
+        { role: 'user' as const, content: 'Nothing to report.' },
+      ]),
+      { role: 'assistant', content: 'Is there anything else you would like to add?' },
+      { role: 'user', content: 'No.' },
+    ]);
+
+    expect(getIntakeTransition(state, false)).toEqual({ transition: 'questionnaires', reason: 'wrap_up' });
+  });
+
+  it('does not take an early "anything else" follow-up for the wrap-up question', () => {
+    const state = deriveIntakeAgentState([
+      { role: 'assistant', content: getIntakeGreeting('en') },
+      { role: 'user', content: "I've been really anxious lately" },
+      { role: 'assistant', content: "Is there anything else you'd like to tell me about what's been making you anxious?" },
+      { role: 'user', content: 'Mostly work stress' },
+    ]);
+
+    expect(state.discussedTopics.has('wrap_up')).toBe(false);
+    expect(state.currentPhase).not.toBe('complete');
+    expect(getIntakeTransition(state, false)).toBeNull();
+  });
+
+  it('continues the interview otherwise', () => {
+    expect(getIntakeTransition(deriveIntakeAgentState(opening), false)).toBeNull();
+  });
+
+  it('ends an interview that reaches the turn limit without covering every topic', () => {
+    const stalled = Array.from({ length: MAX_INTAKE_PATIENT_TURNS }, () => [
+      { role: 'assistant' as const, content: 'Could you say more about that?' },
+      { role: 'user' as const, content: "I'm not sure." },
+    ]).flat();
+
+    const beforeLimit = deriveIntakeAgentState(stalled.slice(0, -2));
+    expect(getIntakeTransition(beforeLimit, false)).toBeNull();
+
+    const atLimit = deriveIntakeAgentState(stalled);
+    expect(getIntakeTransition(atLimit, false)).toEqual({ transition: 'questionnaires', reason: 'turn_limit' });
+    expect(buildPhaseContext(atLimit)).toContain('time limit');
+  });
+});
@@ -3,21 +3,191 @@
  * 
  * Handles structured psychiatric intake assessment through conversational Q&A.
  * Asks one question at a time, tracks discussed topics, and avoids repetition.
+ * Phase tracking is derived server-side from the transcript and passed to the model as context.
+ * The interview is conducted in the patient's chosen language; topic keywords and the
+ * fixed lines the agent must say are defined per language so tracking works in each.
+ * The agent ends the interview with a reserved marker; the wrap-up question and a
+ * turn limit also end it, so the patient reaches the questionnaires even if the
+ * model never says the marker.
  */
 
+import { Language, getLanguageName } from '@/lib/i18n';
+
+export type IntakePhase = 'greeting' | 'reason_for_visit' | 'identifying_info' | 'chief_complaint' | 
+                          'history_present_illness' | 'past_psychiatric' | 'family_history' | 
+                          'medical_history' | 'substance_use' | 'mental_status' | 'functioning' | 
+                          'wrap_up' | 'complete';
+
 export interface IntakeAgentState {
   conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
   discussedTopics: Set<string>;
-  currentPhase: 'greeting' | 'reason_for_visit' | 'identifying_info' | 'chief_complaint' | 
-                'history_present_illness' | 'past_psychiatric' | 'family_history' | 
-                'medical_history' | 'substance_use' | 'mental_status' | 'functioning' | 
-                'wrap_up' | 'complete';
+  currentPhase: IntakePhase;
+  language: Language;
 }
 
 /**
- * Initial system prompt for the Intake Agent
+ * Topic phases in the order the interview should cover them, with a
+ * patient-neutral description and, per language, the keywords that indicate coverage
+ */
+export const INTAKE_TOPICS: Array<{ phase: IntakePhase; label: string; keywords: Record<Language, RegExp> }> = [
+  {
+    phase: 'reason_for_visit',
+    label: 'Reason for visit / chief concern',
+    keywords: {
+      en: /\b(brings you in|reason for|main concern|seeking (psychiatric )?care|looking for help)\b/i,
+      es: /(lo trae|la trae|le trae|motivo de (su )?(consulta|visita)|principal preocupación|busca(ndo)? (atención|ayuda))/i,
+    },
+  },
+  {
+    phase: 'identifying_info',
+    label: 'Identifying information (name, date of birth, age, gender and pronouns, contact details, emergency contact, occupation, living situation)',
+    keywords: {
+      en: /\b(how old|your age|years old|occupation|what do you do for (work|a living)|live with|living situation|your (full |legal |preferred )?name|date of birth|pronouns|phone number|email address|home address|emergency contact)\b/i,
+      es: /(cuántos años|qué edad|su edad|a qué se dedica|\bocupación|con quién vive|situación de vivienda|su nombre|cómo se llama|fecha de nacimiento|pronombres|número de teléfono|correo electrónico|su dirección|contacto de emergencia)/i,
+    },
+  },
+  {
+    phase: 'chief_complaint',
+    label: 'Chief complaint',
+    keywords: {
+      en: /\b(bothering you (the )?most|main symptom|biggest (problem|concern|struggle)|most (difficult|distressing))\b/i,
+      es: /(más le (molesta|preocupa)|le molesta más|síntoma principal|mayor (problema|preocupación|dificultad)|lo más (difícil|angustiante))/i,
+    },
+  },
+  {
+    phase: 'history_present_illness',
+    label: 'History of present illness',
+    keywords: {
+      en: /\b(when did (this|these|it|the|your) (\w+ ){0,3}(start|begin|first)|how long have you (been (feeling|experiencing|having|dealing|struggling)|had (this|these|that|the)|felt)|(symptoms|difficulties|problems|feelings) (first )?(start|began|begin)|getting (worse|better)|what (seems to )?(trigger|set off|make(s)? (it|them) worse)|first notice)/i,
+      es: /(cuándo (comenz|empez)(aron|ó) (estas?|estos?|los|las|sus|el|la|esto)|desde cuándo (se siente|tiene|le pasa|está así)|cuánto tiempo (lleva|ha estado|hace que) (sintiéndose|con (esto|estos|estas|este)|teniendo|experimentando)|ha empeorado|ha mejorado|desencaden|notó por primera)/i,
+    },
+  },
+  {
+    phase: 'past_psychiatric',
+    label: 'Past psychiatric history',
+    keywords: {
+      en: /\b(diagnos(ed|is)|therap(y|ist)|psychiatrist|counsel(l)?ing|hospitali[sz]ed|(previous|past) mental health (treatment|care)|psychiatric (history|medication))\b/i,
+      es: /(diagnostic|terapia|terapeuta|psiquiatra|consejer|hospitaliz|tratamiento (previo )?de salud mental|medicamentos? psiquiátric)/i,
+    },
+  },
+  {
+    phase: 'family_history',
+    label: 'Family psychiatric history',
+    keywords: {
+      // A relative alone is not enough ("Do you live with your family?"); the question must be about their mental health
+      en: /\b(family (psychiatric |mental health )?history|(family|relatives?|parents?|mother|father|siblings?|brothers?|sisters?)\b[^.?!]*\b(mental health|mental illness|psychiatric|depression|anxiety|bipolar|schizophrenia|substance|alcohol|drug|addiction|suicide))/i,
+      es: /(antecedentes familiares|historia(l)? familiar|(familia|familiares|parientes|padres|madre|padre|herman[oa]s?)[^.?!]*(salud mental|enfermedad mental|psiquiátric|depresión|ansiedad|bipolar|esquizofrenia|sustancias|alcohol|drogas|adicción|suicid))/i,
+    },
+  },
+  {
+    phase: 'medical_history',
+    label: 'Medical history',
+    keywords: {
+      en: /\b(medical (conditions?|history|problems?)|physical health|allerg(y|ies)|surger(y|ies)|medications? (are you|do you) (currently )?tak|chronic)\b/i,
+      es: /(condici(ón|ones) médicas?|historial médico|problemas médicos|salud física|alergia|cirugía|enfermedad(es)? crónica|medicamentos? (toma|está tomando))/i,
+    },
+  },
+  {
+    phase: 'substance_use',
+    label: 'Substance use history',
+    keywords: {
+      en: /\b(alcohol|drink(s|ing)?|drugs?|substances?|cannabis|marijuana|smok(e|ing)|vap(e|ing)|tobacco|nicotine)\b/i,
+      es: /(alcohol|bebe|beber|bebidas|drogas?|sustancias?|cannabis|marihuana|fuma|fumar|vapea|tabaco|nicotina)/i,
+    },
+  },
+  {
+    phase: 'mental_status',
+    label: 'Mental status observations (mood, thinking, perception)',
+    keywords: {
+      en: /\b(mood|feeling (right now|today)|hearing (voices|things)|seeing things|hallucinat|racing thoughts|concentrat|memory|thoughts of (harming|hurting))\b/i,
+      es: /(estado de ánimo|cómo se siente (hoy|ahora)|(oye|escucha) voces|ve cosas|alucinaci|pensamientos acelerados|concentra|memoria|pensamientos de (hacerse daño|lastimar))/i,
+    },
+  },
+  {
+    phase: 'functioning',
+    label: 'Social and occupational functioning',
+    keywords: {
+      en: /\b(day-to-day|daily (life|activities|routine)|(at|with) work|school|relationships?|friends|social (life|support)|functioning)\b/i,
+      es: /(día a día|vida diaria|actividades diarias|rutina diaria|en el trabajo|escuela|relaciones|amistades|apoyo social|funcionamiento)/i,
+    },
+  },
+];
+
+/**
+ * Machine-readable step change requested by the intake agent
  */
-export const INTAKE_AGENT_SYSTEM_PROMPT = `You are a professional psychiatric intake assessment assistant. Your role is to conduct a structured, empathetic intake interview with patients seeking psychiatric care.
+export type IntakeTransition = 'questionnaires';
+
+/**
+ * Why the interview ended: the agent said the completion marker, the wrap-up
+ * question was answered, or the turn limit was reached
+ */
+export type IntakeTransitionReason = 'agent' | 'wrap_up' | 'turn_limit';
+
+/**
+ * Reserved marker the agent ends its closing reply with. The chat route strips
+ * it from the reply, so the patient never sees it.
+ */
+export const INTAKE_COMPLETE_MARKER = '[[INTAKE_COMPLETE]]';
+
+// Well past every topic plus follow-ups; an interview this long has stalled
+export const MAX_INTAKE_PATIENT_TURNS = 40;
+
+// Enough replies to have covered every topic once; the patient may move on by themselves after this
+export const INTAKE_CONTINUE_AFTER_TURNS = 12;
+
+export interface IntakeLines {
+  greeting: string;
+  wrapUp: string;
+  closing: string;
+  /** Recognizes the wrap-up question; the phase engine's fallback for detecting the end of the interview */
+  wrapUpPattern: RegExp;
+}
+
+/**
+ * Fixed lines the agent says, in each language
+ */
+export const INTAKE_LINES: Record<Language, IntakeLines> = {
+  en: {
+    greeting: `Hello! I'm here to help you with your psychiatric intake assessment. I'll ask you some questions about your mental health history, symptoms, and current concerns. This information will help us understand your situation better.
+
+Let's begin. Can you tell me what brings you in today? What's your main concern or reason for seeking psychiatric care?`,
+    wrapUp: "Is there anything else you'd like to share before I summarize everything?",
+    closing:
+      'Thank you for sharing. Please complete the following questionnaires, starting with the PHQ-9, to help us understand your situation more accurately.',
+    wrapUpPattern: /\banything (else )?(that )?you(['\u2019]?d| would) like to (share|add|tell me|mention|discuss)/i,
+  },
+  es: {
+    greeting: `¡Hola! Estoy aquí para ayudarle con su evaluación psiquiátrica de ingreso. Le haré algunas preguntas sobre su historial de salud mental, sus síntomas y sus preocupaciones actuales. Esta información nos ayudará a comprender mejor su situación.
+
+Comencemos. ¿Puede contarme qué lo trae hoy por aquí? ¿Cuál es su principal preocupación o el motivo por el que busca atención psiquiátrica?`,
+    wrapUp: '¿Hay algo más que le gustaría compartir antes de que resuma todo?',
+    closing:
+      'Gracias por compartir. Por favor, complete los siguientes cuestionarios, comenzando con el PHQ-9, para ayudarnos a comprender su situación con más precisión.',
+    wrapUpPattern: /algo más que (le )?(gustar[ií]a|quiera|quisiera) (compartir|agregar|añadir|contarme|mencionar)/i,
+  },
+};
+
+/**
+ * Opening message shown before the patient's first reply
+ */
+export function getIntakeGreeting(language: Language): string {
+  return INTAKE_LINES[language].greeting;
+}
+
+/**
+ * System prompt for the Intake Agent, with the fixed lines in the patient's language
+ */
+export function buildIntakeSystemPrompt(language: Language): string {
+  const lines = INTAKE_LINES[language];
+  const languageName = getLanguageName(language);
+  const languageGuideline = language === 'en'
+    ? ''
+    : `\n9. Conduct the entire interview in ${languageName}, including follow-up and clarifying questions, and keep to ${languageName} even if the patient uses a few words of another language`;
+
+  return `Conversation language: ${languageName} (${language})
+
+You are a professional psychiatric intake assessment assistant. Your role is to conduct a structured, empathetic intake interview with patients seeking psychiatric care.
 
 Guidelines:
 1. Ask ONE question at a time - never ask multiple questions in a single response
@@ -27,7 +197,7 @@ Guidelines:
 5. If a user's response is vague, ask clarifying follow-up questions
 6. Track the following topics systematically:
    - Reason for visit / chief concern
-   - Identifying information (age, occupation, etc.)
+   - Identifying information (name, date of birth, age, gender and pronouns, race/ethnicity, address, phone, email, emergency contact, occupation)
    - Chief complaint
    - History of present illness
    - Past psychiatric history
@@ -38,42 +208,165 @@ Guidelines:
    - Social and occupational functioning
    - Current behaviors and symptoms
 
-7. Before ending the intake, ask: "Is there anything else you'd like to share before I summarize everything?"
-8. After they respond, say: "Thank you for sharing. Please complete the PHQ-9 questionnaire to help us understand your situation more accurately."
+7. Before ending the intake, ask: "${lines.wrapUp}"
+8. After they respond, say: "${lines.closing}" and end that reply with ${INTAKE_COMPLETE_MARKER} on its own line. Never write ${INTAKE_COMPLETE_MARKER} in any other reply; it is removed before the patient sees your message${languageGuideline}
 
 Begin with this greeting:
-"Hello! I'm here to help you with your psychiatric intake assessment. I'll ask you some questions about your mental health history, symptoms, and current concerns. This information will help us understand your situation better.
-
-Let's begin. Can you tell me what brings you in today? What's your main concern or reason for seeking psychiatric care?"`;
+"${lines.greeting}"`;
+}
 
 /**
  * Creates the initial state for the intake agent
  */
-export function createIntakeAgentState(): IntakeAgentState {
+export function createIntakeAgentState(language: Language = 'en'): IntakeAgentState {
   return {
     conversationHistory: [],
     discussedTopics: new Set(),
     currentPhase: 'greeting',
+    language,
   };
 }
 
 /**
- * Updates the intake agent state with a new message
+ * Classifies which phase(s) an assistant question and patient answer covered
+ */
+export function classifyExchangePhases(
+  assistantMessage: string,
+  userMessage: string,
+  language: Language = 'en'
+): IntakePhase[] {
+  if (INTAKE_LINES[language].wrapUpPattern.test(assistantMessage)) {
+    return ['wrap_up'];
+  }
+
+  // The question drives the topic; the answer only counts when the question matched nothing
+  const fromQuestion = INTAKE_TOPICS.filter((t) => t.keywords[language].test(assistantMessage));
+  const matched = fromQuestion.length > 0
+    ? fromQuestion
+    : INTAKE_TOPICS.filter((t) => t.keywords[language].test(userMessage));
+
+  return matched.map((t) => t.phase);
+}
+
+/**
+ * Picks the next phase: the first topic not yet discussed, then wrap-up, then complete
+ */
+export function getNextPhase(discussedTopics: Set<string>): IntakePhase {
+  if (discussedTopics.has('wrap_up')) return 'complete';
+
+  const next = INTAKE_TOPICS.find((t) => !discussedTopics.has(t.phase));
+  return next ? next.phase : 'wrap_up';
+}
+
+/**
+ * Returns the topics that still need to be covered
+ */
+export function getRemainingTopics(state: IntakeAgentState): string[] {
+  return INTAKE_TOPICS
+    .filter((t) => !state.discussedTopics.has(t.phase))
+    .map((t) => t.label);
+}
+
+/**
+ * Counts the patient's messages in a conversation
+ */
+export function countPatientTurns(messages: Array<{ role: string }>): number {
+  return messages.filter((msg) => msg.role === 'user').length;
+}
+
+/**
+ * Updates the intake agent state with a new message.
+ * A patient message completes an exchange, so its phases are marked as
+ * discussed and the next phase is chosen. A wrap-up question only counts once
+ * it is due, so an early follow-up such as "anything else you'd like to tell me
+ * about work?" does not end the interview.
  */
 export function updateIntakeAgentState(
   state: IntakeAgentState,
   role: 'user' | 'assistant',
   content: string
 ): IntakeAgentState {
+  const conversationHistory = [...state.conversationHistory, { role, content }];
+  const previous = state.conversationHistory[state.conversationHistory.length - 1];
+
+  if (role !== 'user' || previous?.role !== 'assistant') {
+    return { ...state, conversationHistory };
+  }
+
+  const discussedTopics = new Set(state.discussedTopics);
+  const wrapUpDue =
+    state.currentPhase === 'wrap_up' || INTAKE_TOPICS.every((t) => state.discussedTopics.has(t.phase));
+  classifyExchangePhases(previous.content, content, state.language)
+    .filter((phase) => phase !== 'wrap_up' || wrapUpDue)
+    .forEach((phase) => discussedTopics.add(phase));
+  const atTurnLimit = countPatientTurns(conversationHistory) >= MAX_INTAKE_PATIENT_TURNS;
+
   return {
     ...state,
-    conversationHistory: [...state.conversationHistory, { role, content }],
+    conversationHistory,
+    discussedTopics,
+    currentPhase: atTurnLimit ? 'complete' : getNextPhase(discussedTopics),
   };
 }
 
+/**
+ * Rebuilds the intake agent state by replaying a conversation turn by turn
+ */
+export function deriveIntakeAgentState(
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+  language: Language = 'en'
+): IntakeAgentState {
+  return messages.reduce(
+    (state, msg) => updateIntakeAgentState(state, msg.role, msg.content),
+    createIntakeAgentState(language)
+  );
+}
+
+/**
+ * Builds the phase context given to the model alongside the system prompt
+ */
+export function buildPhaseContext(state: IntakeAgentState): string {
+  const currentTopic = INTAKE_TOPICS.find((t) => t.phase === state.currentPhase);
+  const remaining = getRemainingTopics(state);
+
+  if (state.currentPhase === 'complete') {
+    const reason = state.discussedTopics.has('wrap_up')
+      ? 'all topics have been covered and the wrap-up question has been answered'
+      : 'the interview has reached its time limit';
+    return `Interview progress: ${reason}. Thank the patient and ask them to complete the questionnaires, starting with the PHQ-9, then end your reply with ${INTAKE_COMPLETE_MARKER}.`;
+  }
+  if (state.currentPhase === 'wrap_up') {
+    return 'Interview progress: all topics have been covered. Ask the wrap-up question now.';
+  }
+
+  return `Interview progress:
+- Current phase (the topic to ask about next): ${currentTopic ? currentTopic.label : state.currentPhase}
+- Topics still to cover, in order: ${remaining.join('; ')}
+
+If the patient's last answer was vague, ask a clarifying follow-up first; otherwise ask about the current phase. Do not return to topics that are no longer listed.`;
+}
+
 /**
  * Checks if the intake agent has completed the assessment
  */
 export function isIntakeComplete(state: IntakeAgentState): boolean {
   return state.currentPhase === 'complete';
 }
+
+/**
+ * Returns the transition the client should make after this turn, if any, and why.
+ * The agent's marker ends the interview; the phase engine's wrap-up detection
+ * and the turn limit are deterministic fallbacks for a reply without it.
+ */
+export function getIntakeTransition(
+  state: IntakeAgentState,
+  agentMarked: boolean
+): { transition: IntakeTransition; reason: IntakeTransitionReason } | null {
+  if (agentMarked) return { transition: 'questionnaires', reason: 'agent' };
+  if (!isIntakeComplete(state)) return null;
+
+  return {
+    transition: 'questionnaires',
+    reason: state.discussedTopics.has('wrap_up') ? 'wrap_up' : 'turn_limit',
+  };
+}
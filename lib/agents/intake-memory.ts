@@ -0,0 +1,171 @@
+/**
+ * Intake Memory
+ *
+ * Keeps each intake chat request within a token budget. Recent turns are sent
+ * verbatim; once the conversation no longer fits, older exchanges are condensed
+ * into running notes of the patient's answers, grouped by interview topic. Only
+ * the request to the intake model is condensed: the client keeps the full
+ * transcript, the phase engine replays all of it, and the summary agent receives
+ * it unchanged.
+ *
+ *   INTAKE_CONTEXT_TOKENS   token budget for each intake chat request (default: 6000)
+ */
+
+import { INTAKE_TOPICS, IntakePhase, classifyExchangePhases } from '@/lib/agents/intake-agent';
+import { Language } from '@/lib/i18n';
+import { LLMMessage } from '@/lib/llm/types';
+import { countMessageTokens, countRequestTokens } from '@/lib/llm/tokens';
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+export const DEFAULT_INTAKE_CONTEXT_TOKENS = 6000;
+
+// Share of the budget left after the instructions that recent turns may use verbatim
+const RECENT_SHARE = 0.6;
+
+// The last question and answer stay verbatim whenever they fit at all
+const MIN_RECENT_MESSAGES = 2;
+
+// Excerpt lengths tried, longest first, until the notes fit; 0 keeps only the topic list
+const EXCERPT_LENGTHS = [400, 200, 100, 50, 0];
+
+// Topics whose answers are left out of the notes; identifying details belong to the summary, not the interview
+const WITHHELD_PHASES: IntakePhase[] = ['identifying_info'];
+
+export interface IntakeMemory {
+  /** The request to send: instructions, condensed notes when needed, then the recent turns */
+  messages: LLMMessage[];
+  tokens: number;
+  budget: number;
+  /** Older messages replaced by the notes */
+  condensedMessages: number;
+  /** False when even the latest message with minimal notes does not fit */
+  withinBudget: boolean;
+}
+
+interface TopicNotes {
+  phase: IntakePhase | null;
+  answers: string[];
+}
+
+/**
+ * Reads the intake request budget from the environment
+ */
+export function getIntakeContextBudget(): number {
+  const configured = process.env.INTAKE_CONTEXT_TOKENS;
+  const budget = parseInt(configured ?? '', 10);
+  if (Number.isInteger(budget) && budget > 0) return budget;
+
+  if (configured) {
+    console.warn(`Invalid INTAKE_CONTEXT_TOKENS "${configured}" ignored`);
+  }
+  return DEFAULT_INTAKE_CONTEXT_TOKENS;
+}
+
+/**
+ * Groups the patient's answers by the topic of the question they answered.
+ * Answers to follow-up questions that match no topic stay with the previous topic.
+ */
+function groupAnswers(messages: ChatMessage[], language: Language): TopicNotes[] {
+  const groups: TopicNotes[] = [];
+  let currentPhase: IntakePhase | null = null;
+
+  messages.forEach((msg, idx) => {
+    if (msg.role !== 'user') return;
+
+    const previous = messages[idx - 1];
+    const phases = previous?.role === 'assistant'
+      ? classifyExchangePhases(previous.content, msg.content, language)
+      : [];
+    if (phases.length > 0) currentPhase = phases[0];
+
+    const group = groups.find((g) => g.phase === currentPhase);
+    if (group) {
+      group.answers.push(msg.content);
+    } else {
+      groups.push({ phase: currentPhase, answers: [msg.content] });
+    }
+  });
+
+  return groups;
+}
+
+function excerpt(text: string, maxLength: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= maxLength) return flat;
+
+  const cut = flat.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+function topicLabel(phase: IntakePhase | null): string {
+  if (phase === 'wrap_up') return 'Anything else the patient wanted to share';
+  return INTAKE_TOPICS.find((t) => t.phase === phase)?.label ?? 'Other';
+}
+
+/**
+ * Formats the condensed notes, with answers cut to the given length
+ */
+function formatNotes(groups: TopicNotes[], condensedMessages: number, excerptLength: number): string {
+  const lines = groups.map((group) => {
+    const label = topicLabel(group.phase);
+    if (excerptLength === 0) return `- ${label}: discussed`;
+    if (group.phase && WITHHELD_PHASES.includes(group.phase)) return `- ${label}: provided (details not repeated here)`;
+
+    return `- ${label}: ${group.answers.map((answer) => `"${excerpt(answer, excerptLength)}"`).join(' / ')}`;
+  });
+
+  return `Notes from earlier in this interview (${condensedMessages} older messages condensed; the most recent messages follow verbatim). The patient's answers so far, by topic:
+${lines.join('\n')}`;
+}
+
+/**
+ * Builds the intake request within the budget: the whole conversation when it
+ * fits, otherwise notes on the older exchanges followed by the recent turns.
+ * The notes are shortened step by step, and the recent turns cut to the latest
+ * message, before the request is reported as over budget.
+ */
+export function buildIntakeMemory(
+  instructions: LLMMessage[],
+  messages: ChatMessage[],
+  language: Language,
+  budget: number = getIntakeContextBudget()
+): IntakeMemory {
+  const full = [...instructions, ...messages];
+  const fullTokens = countRequestTokens(full);
+  if (fullTokens <= budget) {
+    return { messages: full, tokens: fullTokens, budget, condensedMessages: 0, withinBudget: true };
+  }
+
+  const attempt = (split: number): IntakeMemory | null => {
+    const groups = groupAnswers(messages.slice(0, split), language);
+    const recent = messages.slice(split);
+
+    for (const length of EXCERPT_LENGTHS) {
+      const notes: LLMMessage[] = split > 0 ? [{ role: 'system', content: formatNotes(groups, split, length) }] : [];
+      const request = [...instructions, ...notes, ...recent];
+      const tokens = countRequestTokens(request);
+      if (tokens <= budget) {
+        return { messages: request, tokens, budget, condensedMessages: split, withinBudget: true };
+      }
+    }
+    return null;
+  };
+
+  // Walk back from the latest message while the recent turns stay within their share
+  const recentBudget = (budget - countRequestTokens(instructions)) * RECENT_SHARE;
+  let split = messages.length;
+  let recentTokens = 0;
+  while (split > 0) {
+    const tokens = countMessageTokens([messages[split - 1]]);
+    if (messages.length - split >= MIN_RECENT_MESSAGES && recentTokens + tokens > recentBudget) break;
+    recentTokens += tokens;
+    split -= 1;
+  }
+
+  const latestOnly = Math.max(messages.length - 1, 0);
+  const memory = attempt(split) ?? (split < latestOnly ? attempt(latestOnly) : null);
+
+  return memory ?? { messages: full, tokens: fullTokens, budget, condensedMessages: 0, withinBudget: false };
+}
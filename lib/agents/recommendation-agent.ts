@@ -1,34 +1,216 @@
 /**
  * Recommendation Agent
- * 
- * Future extensibility: Could provide treatment recommendations based on
- * intake assessment and PHQ-9 scores. Currently a placeholder for future use.
+ *
+ * Provides clinician-facing treatment recommendations from the intake assessment.
+ * Urgency is decided by deterministic triage rules (PHQ-9 total, item 9, substance
+ * use, risk flags); the model only writes the rationale and never changes urgency.
+ * Output is for the clinical team only and must never be shown to the patient.
  */
 
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { extractJSONObject } from '@/lib/agents/summary-schema';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+import type { LLMProvider } from '@/lib/llm/types';
+
+export type Urgency = 'low' | 'moderate' | 'high' | 'urgent';
+
 export interface RecommendationData {
   assessment: string;
   recommendations: string[];
-  urgency: 'low' | 'moderate' | 'high' | 'urgent';
+  urgency: Urgency;
+  /** Triage rules that determined the urgency */
+  triageReasons: string[];
+}
+
+export interface TriageInput {
+  phq9Score: number;
+  phq9Item9: number;
+  substanceUse: string;
+  riskFlag: ClinicalSummary['riskFlag'];
+  safetyEvents: SafetyEvent[];
+}
+
+export interface TriageResult {
+  urgency: Urgency;
+  reasons: string[];
+  recommendations: string[];
+}
+
+/**
+ * System prompt for the Recommendation Agent
+ */
+export const RECOMMENDATION_AGENT_SYSTEM_PROMPT = `You are a clinical recommendation assistant supporting a psychiatric intake team. You write for clinicians, not patients.
+
+You are given an intake summary, PHQ-9 results, and a triage urgency that was already decided by fixed rules.
+
+Guidelines:
+1. Do NOT change or argue with the triage urgency - explain it
+2. Write a brief clinical rationale (3-5 sentences) grounded only in the provided information
+3. Suggest additional recommendations only if they are clearly supported by the summary
+4. Do not diagnose; use language such as "consistent with" or "warrants evaluation for"
+5. Return only valid JSON, no additional text`;
+
+/**
+ * Urgency levels from least to most urgent
+ */
+export const URGENCY_ORDER: Urgency[] = ['low', 'moderate', 'high', 'urgent'];
+
+const SUBSTANCE_CONCERN_PATTERN = /\b(daily|every day|heavy|binge|blackouts?|withdrawal|overdos(e|ed)|opioids?|heroin|fentanyl|cocaine|meth(amphetamine)?|benzos?|can'?t stop|cut(ting)? down)\b/i;
+
+const URGENCY_RECOMMENDATIONS: Record<Urgency, string> = {
+  urgent: 'Same-day clinician contact and safety assessment; confirm the patient has crisis resources',
+  high: 'Clinician review within 24-48 hours',
+  moderate: 'Schedule psychiatric evaluation within 1-2 weeks',
+  low: 'Routine intake scheduling',
+};
+
+function raise(current: Urgency, next: Urgency): Urgency {
+  return URGENCY_ORDER.indexOf(next) > URGENCY_ORDER.indexOf(current) ? next : current;
+}
+
+/**
+ * Applies the deterministic triage rules
+ */
+export function triageUrgency(input: TriageInput): TriageResult {
+  let urgency: Urgency = 'low';
+  const reasons: string[] = [];
+  const recommendations: string[] = [];
+
+  if (input.riskFlag?.level === 'high') {
+    urgency = raise(urgency, 'urgent');
+    reasons.push('High suicide risk on C-SSRS follow-up');
+  } else if (input.riskFlag?.level === 'moderate') {
+    urgency = raise(urgency, 'high');
+    reasons.push('Moderate suicide risk on C-SSRS follow-up');
+  }
+
+  input.safetyEvents.forEach((event) => {
+    urgency = raise(urgency, event.level === 'high' ? 'urgent' : 'high');
+    reasons.push(`Crisis language detected during intake (${event.category})`);
+  });
+
+  if (input.phq9Item9 >= 2) {
+    urgency = raise(urgency, 'high');
+    reasons.push(`PHQ-9 item 9 answered ${input.phq9Item9} / 3`);
+  } else if (input.phq9Item9 === 1) {
+    urgency = raise(urgency, 'moderate');
+    reasons.push('PHQ-9 item 9 answered 1 / 3');
+  }
+
+  if (input.phq9Score >= 20) {
+    urgency = raise(urgency, 'high');
+    reasons.push(`PHQ-9 total ${input.phq9Score} (severe)`);
+  } else if (input.phq9Score >= 10) {
+    urgency = raise(urgency, 'moderate');
+    reasons.push(`PHQ-9 total ${input.phq9Score} (moderate or higher)`);
+  }
+
+  if (input.phq9Score >= 10) {
+    recommendations.push('Evaluate for depression treatment (psychotherapy and/or medication)');
+  }
+
+  if (SUBSTANCE_CONCERN_PATTERN.test(input.substanceUse)) {
+    urgency = raise(urgency, 'moderate');
+    reasons.push('Substance use described as frequent, heavy, or hard to control');
+    recommendations.push('Structured substance use assessment (e.g. AUDIT, DAST-10)');
+  }
+
+  if (reasons.length === 0) {
+    reasons.push('No triage rules triggered');
+  }
+
+  return {
+    urgency,
+    reasons,
+    recommendations: [URGENCY_RECOMMENDATIONS[urgency], ...recommendations],
+  };
 }
 
 /**
- * System prompt for the Recommendation Agent (for future use)
+ * Builds the triage input from a clinical summary
  */
-export const RECOMMENDATION_AGENT_SYSTEM_PROMPT = `You are a clinical recommendation assistant. Based on intake assessments and PHQ-9 scores, provide appropriate treatment recommendations.
+export function createTriageInput(
+  summary: ClinicalSummary,
+  phq9Item9: number,
+  safetyEvents: SafetyEvent[] = []
+): TriageInput {
+  return {
+    phq9Score: summary.phq9Score,
+    phq9Item9: summary.riskFlag?.phq9Item9 ?? phq9Item9,
+    substanceUse: summary.substanceUse,
+    riskFlag: summary.riskFlag,
+    safetyEvents,
+  };
+}
 
-This agent is reserved for future implementation.`;
+function buildRecommendationPrompt(summary: ClinicalSummary, triage: TriageResult): string {
+  return `Intake summary:
+- Chief Complaint: ${summary.chiefComplaint}
+- History of Present Illness: ${summary.historyOfPresentIllness}
+- Past Psychiatric History: ${summary.pastPsychiatricHistory}
+- Family History: ${summary.familyHistory}
+- Medical History: ${summary.medicalHistory}
+- Substance Use: ${summary.substanceUse}
+- Mental Status: ${summary.mentalStatus}
+- Social/Occupational Functioning: ${summary.functioning}
+- PHQ-9: ${summary.phq9Score} / 27 (${summary.phq9Severity})
+
+Triage urgency (fixed): ${triage.urgency}
+Triage reasons:
+${triage.reasons.map((r) => `- ${r}`).join('\n')}
+
+Recommendations already made:
+${triage.recommendations.map((r) => `- ${r}`).join('\n')}
+
+Format the response as a JSON object:
+{
+  "assessment": "clinical rationale for the urgency",
+  "additionalRecommendations": ["..."]
+}`;
+}
 
 /**
- * Placeholder function for future recommendation generation
+ * Generates recommendations: rule-based urgency plus a model-written rationale.
+ * If the model call fails or returns unusable output, the rule reasons are used
+ * as the assessment so triage is never blocked on the model.
  */
-export function generateRecommendations(
-  summary: any,
-  phq9Score: number
-): RecommendationData {
-  // Placeholder implementation
+export async function generateRecommendations(
+  provider: LLMProvider,
+  summary: ClinicalSummary,
+  input: TriageInput
+): Promise<RecommendationData> {
+  const triage = triageUrgency(input);
+  const fallbackAssessment = `Triage urgency ${triage.urgency}: ${triage.reasons.join('; ')}.`;
+
+  let assessment = fallbackAssessment;
+  let additional: string[] = [];
+
+  try {
+    const responseText = await provider.completeJSON(
+      [
+        { role: 'system', content: RECOMMENDATION_AGENT_SYSTEM_PROMPT },
+        { role: 'user', content: buildRecommendationPrompt(summary, triage) },
+      ],
+      { task: 'recommendation' }
+    );
+    const parsed = JSON.parse(extractJSONObject(responseText));
+
+    if (typeof parsed.assessment === 'string' && parsed.assessment.trim()) {
+      assessment = parsed.assessment.trim();
+    }
+    if (Array.isArray(parsed.additionalRecommendations)) {
+      additional = parsed.additionalRecommendations.filter(
+        (r: unknown): r is string => typeof r === 'string' && r.trim().length > 0
+      );
+    }
+  } catch (error) {
+    console.error('Recommendation rationale error:', error);
+  }
+
   return {
-    assessment: '',
-    recommendations: [],
-    urgency: 'moderate',
+    assessment,
+    recommendations: [...triage.recommendations, ...additional],
+    urgency: triage.urgency,
+    triageReasons: triage.reasons,
   };
 }
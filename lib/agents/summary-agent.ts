@@ -3,8 +3,79 @@
  * 
  * Generates structured clinical summaries from intake conversation and PHQ-9 data.
  * Creates a factual, well-organized summary suitable for clinical review.
+ * The summary is always written in English; for intakes in another language the
+ * patient's own words are kept alongside as quotes.
  */
 
+import { RiskFlag } from '@/lib/safety/suicide-risk';
+import { InstrumentScore, PHQ9, getSeverity } from '@/lib/instruments';
+import { DemographicChecks } from '@/lib/agents/demographics';
+import { Language } from '@/lib/i18n';
+
+/**
+ * Narrative sections that can cite supporting transcript messages
+ */
+export const CITABLE_SECTIONS = [
+  'chiefComplaint',
+  'historyOfPresentIllness',
+  'pastPsychiatricHistory',
+  'familyHistory',
+  'medicalHistory',
+  'substanceUse',
+  'mentalStatus',
+  'functioning',
+  'additionalNotes',
+] as const;
+
+export type CitableSection = (typeof CITABLE_SECTIONS)[number];
+
+/**
+ * Display labels for the narrative sections, in note order
+ */
+export const SECTION_LABELS: Record<CitableSection, string> = {
+  chiefComplaint: 'Chief Complaint',
+  historyOfPresentIllness: 'History of Present Illness',
+  pastPsychiatricHistory: 'Past Psychiatric History',
+  familyHistory: 'Family History',
+  medicalHistory: 'Medical History',
+  substanceUse: 'Substance Use',
+  mentalStatus: 'Mental Status',
+  functioning: 'Social/Occupational Functioning',
+  additionalNotes: 'Additional Notes',
+};
+
+/**
+ * Headings for the results sections that follow the narrative sections
+ */
+export const RESULTS_HEADINGS = {
+  phq9: 'PHQ-9 Assessment Results',
+  otherInstruments: 'Other Screening Instrument Results',
+  safety: 'Safety Screening',
+} as const;
+
+// Section list given to the model; documents generated from the summary use the same headings
+const SUMMARY_PROMPT_SECTIONS = [
+  ...CITABLE_SECTIONS.filter((s) => s !== 'additionalNotes').map((s) => SECTION_LABELS[s]),
+  RESULTS_HEADINGS.phq9,
+  `${RESULTS_HEADINGS.otherInstruments} (GAD-7, AUDIT-C, etc.)`,
+  `${RESULTS_HEADINGS.safety} (when a suicide risk flag is provided)`,
+]
+  .map((heading) => `   - ${heading}`)
+  .join('\n');
+
+/**
+ * Indices into conversationHistory of the patient messages supporting each section
+ */
+export type SummaryCitations = Partial<Record<CitableSection, number[]>>;
+
+/**
+ * Verbatim patient quotes, in the intake language, supporting each section
+ */
+export type SummaryQuotes = Partial<Record<CitableSection, string[]>>;
+
+// Quotes kept per section; enough to convey the patient's words without repeating the transcript
+const MAX_QUOTES_PER_SECTION = 3;
+
 export interface ClinicalSummary {
   name: string;
   dob: string;
@@ -15,6 +86,8 @@ export interface ClinicalSummary {
   phone: string;
   email: string;
   emergencyContact: string;
+  /** Whether each demographic value was confirmed from the patient's words or needs their confirmation */
+  demographicChecks: DemographicChecks;
   chiefComplaint: string;
   historyOfPresentIllness: string;
   pastPsychiatricHistory: string;
@@ -25,7 +98,15 @@ export interface ClinicalSummary {
   functioning: string;
   phq9Score: number;
   phq9Severity: string;
+  /** Scores for every completed screening instrument, including PHQ-9 */
+  instrumentScores: InstrumentScore[];
   additionalNotes: string;
+  riskFlag: RiskFlag | null;
+  citations: SummaryCitations;
+  /** Language the intake was conducted in */
+  language: Language;
+  /** The patient's original-language quotes; empty for English intakes */
+  originalQuotes: SummaryQuotes;
 }
 
 /**
@@ -35,21 +116,17 @@ export const SUMMARY_AGENT_SYSTEM_PROMPT = `You are a clinical documentation ass
 
 Guidelines:
 1. Create a clear, professional clinical summary organized by standard sections:
-   - Chief Complaint
-   - History of Present Illness
-   - Past Psychiatric History
-   - Family History
-   - Medical History
-   - Substance Use
-   - Mental Status
-   - Social/Occupational Functioning
-   - PHQ-9 Assessment Results
+${SUMMARY_PROMPT_SECTIONS}
 
 2. Use factual language - avoid clinical jargon unless the patient used it
 3. Do not repeat information across sections
 4. Be concise but comprehensive
 5. Include all relevant details from the conversation
 6. Format the summary in clear, readable sections
+7. Never omit or soften a reported suicide risk flag - state it plainly
+8. For each section, cite the numbered patient messages the statements are drawn from
+9. Take identifying details (name, date of birth, contact information) only from what the patient stated - leave a detail empty rather than guess
+10. Always write the summary in English, whatever language the intake was conducted in; keep identifying details exactly as the patient wrote them
 
 Generate a well-structured clinical summary that accurately reflects the patient's reported information.`;
 
@@ -57,11 +134,7 @@ Generate a well-structured clinical summary that accurately reflects the patient
  * Determines PHQ-9 severity based on score
  */
 export function getPHQ9Severity(score: number): string {
-  if (score >= 20) return 'Severe Depression';
-  if (score >= 15) return 'Moderately Severe Depression';
-  if (score >= 10) return 'Moderate Depression';
-  if (score >= 5) return 'Mild Depression';
-  return 'Minimal or No Depression';
+  return getSeverity(PHQ9, score);
 }
 
 /**
@@ -78,6 +151,7 @@ export function createEmptySummary(): ClinicalSummary {
     phone: '',
     email: '',
     emergencyContact: '',
+    demographicChecks: {},
     chiefComplaint: '',
     historyOfPresentIllness: '',
     pastPsychiatricHistory: '',
@@ -88,6 +162,72 @@ export function createEmptySummary(): ClinicalSummary {
     functioning: '',
     phq9Score: 0,
     phq9Severity: 'Not assessed',
+    instrumentScores: [],
     additionalNotes: '',
+    riskFlag: null,
+    citations: {},
+    language: 'en',
+    originalQuotes: {},
   };
 }
+
+/**
+ * Keeps only valid citations: known sections, integer indices that point to
+ * patient messages in the conversation, deduplicated and in order
+ */
+export function sanitizeCitations(
+  raw: unknown,
+  conversationHistory: Array<{ role: string; content: string }>
+): SummaryCitations {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+
+  const record = raw as Record<string, unknown>;
+  const citations: SummaryCitations = {};
+
+  CITABLE_SECTIONS.forEach((section) => {
+    const indices = record[section];
+    if (!Array.isArray(indices)) return;
+
+    const valid = indices.filter(
+      (idx): idx is number =>
+        Number.isInteger(idx) && conversationHistory[idx]?.role === 'user'
+    );
+    citations[section] = Array.from(new Set(valid)).sort((a, b) => a - b);
+  });
+
+  return citations;
+}
+
+/**
+ * Keeps only quotes that appear word for word in one of the patient's messages,
+ * ignoring case and spacing, so a quote can never be a model's paraphrase
+ */
+export function sanitizeQuotes(
+  raw: unknown,
+  conversationHistory: Array<{ role: string; content: string }>
+): SummaryQuotes {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  const patientText = conversationHistory
+    .filter((msg) => msg.role === 'user')
+    .map((msg) => normalize(msg.content));
+
+  const record = raw as Record<string, unknown>;
+  const quotes: SummaryQuotes = {};
+
+  CITABLE_SECTIONS.forEach((section) => {
+    const values = record[section];
+    if (!Array.isArray(values)) return;
+
+    const valid = values
+      .filter((quote): quote is string => typeof quote === 'string')
+      .map((quote) => quote.replace(/\s+/g, ' ').trim())
+      .filter((quote) => quote && patientText.some((text) => text.includes(quote.toLowerCase())));
+    if (valid.length > 0) {
+      quotes[section] = Array.from(new Set(valid)).slice(0, MAX_QUOTES_PER_SECTION);
+    }
+  });
+
+  return quotes;
+}
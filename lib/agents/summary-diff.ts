@@ -0,0 +1,85 @@
+/**
+ * Summary Diff
+ *
+ * Compares the summary agent's draft with the version the patient submitted,
+ * field by field. Derived fields are computed from questionnaire answers rather
+ * than written by the agent; the form locks them, and any change that still
+ * reaches the server is flagged for the clinician.
+ */
+
+import { ClinicalSummary, SECTION_LABELS } from '@/lib/agents/summary-agent';
+import { CLINICAL_SUMMARY_SCHEMA } from '@/lib/agents/summary-schema';
+
+/**
+ * Fields computed from questionnaire answers; the patient cannot edit these
+ */
+export const DERIVED_SUMMARY_FIELDS = [
+  'phq9Score',
+  'phq9Severity',
+  'instrumentScores',
+  'riskFlag',
+] as const satisfies ReadonlyArray<keyof ClinicalSummary>;
+
+// Metadata about the draft, not content the patient edits
+const UNDIFFED_FIELDS = ['citations', 'demographicChecks', 'language', 'originalQuotes'] as const;
+
+const DIFFED_FIELDS = (Object.keys(CLINICAL_SUMMARY_SCHEMA) as Array<keyof ClinicalSummary>).filter(
+  (field) => !(UNDIFFED_FIELDS as ReadonlyArray<keyof ClinicalSummary>).includes(field)
+);
+
+export type DiffedSummaryField = Exclude<keyof ClinicalSummary, (typeof UNDIFFED_FIELDS)[number]>;
+
+export const SUMMARY_FIELD_LABELS: Record<DiffedSummaryField, string> = {
+  name: 'Name',
+  dob: 'Date of Birth',
+  gender: 'Gender',
+  pronouns: 'Pronouns',
+  raceEthnicity: 'Race/Ethnicity',
+  address: 'Address',
+  phone: 'Phone',
+  email: 'Email',
+  emergencyContact: 'Emergency Contact',
+  ...SECTION_LABELS,
+  phq9Score: 'PHQ-9 Score',
+  phq9Severity: 'PHQ-9 Severity',
+  instrumentScores: 'Screening Instrument Scores',
+  riskFlag: 'Suicide Risk Flag',
+};
+
+export interface SummaryFieldChange {
+  field: DiffedSummaryField;
+  // Value in the AI draft
+  draft: unknown;
+  // Value the patient submitted
+  final: unknown;
+  // True for a derived field, which should never change
+  derived: boolean;
+}
+
+export function isDerivedField(field: keyof ClinicalSummary): boolean {
+  return (DERIVED_SUMMARY_FIELDS as ReadonlyArray<keyof ClinicalSummary>).includes(field);
+}
+
+/**
+ * Lists the fields whose submitted value differs from the draft, in field order
+ */
+export function diffSummaries(draft: ClinicalSummary, final: ClinicalSummary): SummaryFieldChange[] {
+  return DIFFED_FIELDS.filter((field) => JSON.stringify(draft[field]) !== JSON.stringify(final[field])).map(
+    (field) => ({
+      field: field as DiffedSummaryField,
+      draft: draft[field],
+      final: final[field],
+      derived: isDerivedField(field),
+    })
+  );
+}
+
+/**
+ * Formats a field value for display in a diff
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,34 @@
+/**
+ * Summary Test Fixtures
+ *
+ * A reviewed summary that passes the submission rules, and PHQ-9 answers that
+ * match its score, shared by the tests that store or export a summary.
+ */
+
+import { ClinicalSummary, createEmptySummary } from '@/lib/agents/summary-agent';
+
+// Total 12, Moderate Depression
+export const FIXTURE_PHQ9_RESPONSES = [2, 2, 1, 1, 2, 1, 1, 2, 0];
+
+/**
+ * A complete summary consistent with FIXTURE_PHQ9_RESPONSES
+ */
+export function createFixtureSummary(overrides: Partial<ClinicalSummary> = {}): ClinicalSummary {
+  return {
+    ...createEmptySummary(),
+    name: 'Ana María López',
+    dob: '04/12/1990',
+    gender: 'Female',
+    raceEthnicity: 'Hispanic or Latino',
+    address: '12 Main Street, Springfield, IL 62704',
+    phone: '(555) 123-4567',
+    email: 'ana@example.org',
+    emergencyContact: 'Luis López, (555) 987-6543',
+    chiefComplaint: 'Low mood & poor sleep for <2 months>',
+    historyOfPresentIllness: 'Started after a job loss in January.',
+    familyHistory: 'Mother treated for depression.',
+    phq9Score: 12,
+    phq9Severity: 'Moderate Depression',
+    ...overrides,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Summary Field Rules
+ *
+ * Validation rules for the fields a patient reviews in the summary form,
+ * declared once per ClinicalSummary field. The form shows the messages inline
+ * and blocks submission; the submissions API applies the same rules again.
+ */
+
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { SchemaError } from '@/lib/agents/summary-schema';
+import { normalizeDate, normalizeEmail, normalizePhone } from '@/lib/agents/demographics';
+import { PHQ9, getMaxScore } from '@/lib/instruments';
+
+export interface FieldRule {
+  label: string;
+  required?: boolean;
+  maxLength?: number;
+  // Returns an error message, or null when the value is valid
+  check?: (value: string) => string | null;
+}
+
+const NARRATIVE_MAX_LENGTH = 5000;
+const SHORT_MAX_LENGTH = 200;
+const EARLIEST_BIRTH_YEAR = 1900;
+
+const PHONE_IN_TEXT = /(?:\+?\d[\d\s().-]{6,}\d)/;
+
+function checkDate(value: string): string | null {
+  const date = normalizeDate(value);
+  if (!date) return 'Enter a real date in the past, as YYYY-MM-DD or MM/DD/YYYY';
+  if (+date.value.slice(0, 4) < EARLIEST_BIRTH_YEAR) return `Enter a year after ${EARLIEST_BIRTH_YEAR}`;
+  return null;
+}
+
+function checkPhone(value: string): string | null {
+  return normalizePhone(value) ? null : 'Enter a phone number with area code, e.g. (555) 123-4567 or +44 20 7946 0958';
+}
+
+function checkEmail(value: string): string | null {
+  return normalizeEmail(value) ? null : 'Enter an email address like name@example.com';
+}
+
+/**
+ * An emergency contact needs a name and a number to reach them at
+ */
+function checkEmergencyContact(value: string): string | null {
+  const phone = value.match(PHONE_IN_TEXT)?.[0];
+  if (!phone || !normalizePhone(phone)) return "Include the contact's phone number with area code";
+  if (!/[A-Za-z]{2,}/.test(value.replace(phone, ''))) return "Include the contact's name";
+  return null;
+}
+
+export const SUMMARY_FIELD_RULES: Partial<Record<keyof ClinicalSummary, FieldRule>> = {
+  name: { label: 'Name', required: true, maxLength: SHORT_MAX_LENGTH },
+  dob: { label: 'Date of Birth', required: true, check: checkDate },
+  gender: { label: 'Gender', maxLength: SHORT_MAX_LENGTH },
+  pronouns: { label: 'Pronouns', maxLength: SHORT_MAX_LENGTH },
+  raceEthnicity: { label: 'Race/Ethnicity', maxLength: SHORT_MAX_LENGTH },
+  address: { label: 'Address', maxLength: 500 },
+  phone: { label: 'Phone', required: true, check: checkPhone },
+  email: { label: 'Email', maxLength: 254, check: checkEmail },
+  emergencyContact: { label: 'Emergency Contact', required: true, maxLength: 500, check: checkEmergencyContact },
+  chiefComplaint: { label: 'Chief Complaint', maxLength: NARRATIVE_MAX_LENGTH },
+  historyOfPresentIllness: { label: 'History of Present Illness', maxLength: NARRATIVE_MAX_LENGTH },
+  pastPsychiatricHistory: { label: 'Past Psychiatric History', maxLength: NARRATIVE_MAX_LENGTH },
+  familyHistory: { label: 'Family History', maxLength: NARRATIVE_MAX_LENGTH },
+  medicalHistory: { label: 'Medical History', maxLength: NARRATIVE_MAX_LENGTH },
+  substanceUse: { label: 'Substance Use', maxLength: NARRATIVE_MAX_LENGTH },
+  mentalStatus: { label: 'Mental Status', maxLength: NARRATIVE_MAX_LENGTH },
+  functioning: { label: 'Social/Occupational Functioning', maxLength: NARRATIVE_MAX_LENGTH },
+  additionalNotes: { label: 'Additional Notes', maxLength: NARRATIVE_MAX_LENGTH },
+  phq9Score: {
+    label: 'PHQ-9 Score',
+    required: true,
+    check: (value) => {
+      const score = Number(value);
+      return Number.isInteger(score) && score >= 0 && score <= getMaxScore(PHQ9)
+        ? null
+        : `Must be a whole number from 0 to ${getMaxScore(PHQ9)}`;
+    },
+  },
+};
+
+/**
+ * Checks one field against its rule
+ */
+export function validateSummaryField(field: keyof ClinicalSummary, value: unknown): string | null {
+  const rule = SUMMARY_FIELD_RULES[field];
+  if (!rule) return null;
+
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (!text) return rule.required ? `${rule.label} is required` : null;
+  if (rule.maxLength && text.length > rule.maxLength) {
+    return `Must be ${rule.maxLength} characters or fewer`;
+  }
+  return rule.check ? rule.check(text) : null;
+}
+
+/**
+ * Checks every field that has a rule, in form order
+ */
+export function validateSummaryRules(summary: ClinicalSummary): SchemaError[] {
+  const errors: SchemaError[] = [];
+  (Object.keys(SUMMARY_FIELD_RULES) as Array<keyof ClinicalSummary>).forEach((field) => {
+    const message = validateSummaryField(field, summary[field]);
+    if (message) errors.push({ field, message });
+  });
+  return errors;
+}
@@ -0,0 +1,199 @@
+/**
+ * Summary Schema
+ *
+ * Runtime schema for ClinicalSummary. Validates model output field by field,
+ * reports type and missing-field errors, and builds the repair prompt used to
+ * re-ask the model when its output does not match.
+ */
+
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+
+type FieldType = 'string' | 'number' | 'object' | 'array';
+
+interface FieldSpec {
+  type: FieldType;
+  nullable?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface SchemaError {
+  field: string;
+  message: string;
+}
+
+export interface SchemaResult<T> {
+  value: T | null;
+  errors: SchemaError[];
+}
+
+export const CLINICAL_SUMMARY_SCHEMA: Record<keyof ClinicalSummary, FieldSpec> = {
+  name: { type: 'string' },
+  dob: { type: 'string' },
+  gender: { type: 'string' },
+  pronouns: { type: 'string' },
+  raceEthnicity: { type: 'string' },
+  address: { type: 'string' },
+  phone: { type: 'string' },
+  email: { type: 'string' },
+  emergencyContact: { type: 'string' },
+  demographicChecks: { type: 'object' },
+  chiefComplaint: { type: 'string' },
+  historyOfPresentIllness: { type: 'string' },
+  pastPsychiatricHistory: { type: 'string' },
+  familyHistory: { type: 'string' },
+  medicalHistory: { type: 'string' },
+  substanceUse: { type: 'string' },
+  mentalStatus: { type: 'string' },
+  functioning: { type: 'string' },
+  phq9Score: { type: 'number', min: 0, max: 27 },
+  phq9Severity: { type: 'string' },
+  instrumentScores: { type: 'array' },
+  additionalNotes: { type: 'string' },
+  riskFlag: { type: 'object', nullable: true },
+  citations: { type: 'object' },
+  language: { type: 'string' },
+  originalQuotes: { type: 'object' },
+};
+
+/**
+ * Fields the summary agent is asked to produce
+ */
+export const SUMMARY_MODEL_FIELDS = [
+  'name',
+  'dob',
+  'gender',
+  'pronouns',
+  'raceEthnicity',
+  'address',
+  'phone',
+  'email',
+  'emergencyContact',
+  'chiefComplaint',
+  'historyOfPresentIllness',
+  'pastPsychiatricHistory',
+  'familyHistory',
+  'medicalHistory',
+  'substanceUse',
+  'mentalStatus',
+  'functioning',
+  'phq9Severity',
+  'additionalNotes',
+  'citations',
+  'originalQuotes',
+] as const satisfies ReadonlyArray<keyof ClinicalSummary>;
+
+export type SummaryModelField = (typeof SUMMARY_MODEL_FIELDS)[number];
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function validateField(field: keyof ClinicalSummary, value: unknown): SchemaError | null {
+  const spec = CLINICAL_SUMMARY_SCHEMA[field];
+
+  if (value === undefined) {
+    return { field, message: 'is missing' };
+  }
+  if (value === null) {
+    return spec.nullable ? null : { field, message: `expected ${spec.type}, got null` };
+  }
+
+  const actual = describeType(value);
+  if (actual !== spec.type) {
+    return { field, message: `expected ${spec.type}, got ${actual}` };
+  }
+
+  if (spec.type === 'number') {
+    const num = value as number;
+    if (!Number.isFinite(num)) {
+      return { field, message: 'must be a finite number' };
+    }
+    if ((spec.min !== undefined && num < spec.min) || (spec.max !== undefined && num > spec.max)) {
+      return { field, message: `must be between ${spec.min} and ${spec.max}` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the given fields of a parsed object against the ClinicalSummary schema
+ */
+export function validateSummaryFields<K extends keyof ClinicalSummary>(
+  data: unknown,
+  fields: readonly K[]
+): SchemaResult<Pick<ClinicalSummary, K>> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { value: null, errors: [{ field: '(root)', message: `expected object, got ${describeType(data)}` }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors = fields
+    .map((field) => validateField(field, record[field]))
+    .filter((error): error is SchemaError => error !== null);
+
+  if (errors.length > 0) {
+    return { value: null, errors };
+  }
+
+  const value = {} as Pick<ClinicalSummary, K>;
+  fields.forEach((field) => {
+    value[field] = record[field] as ClinicalSummary[K];
+  });
+  return { value, errors: [] };
+}
+
+/**
+ * Validates a complete ClinicalSummary
+ */
+export function validateClinicalSummary(data: unknown): SchemaResult<ClinicalSummary> {
+  return validateSummaryFields(
+    data,
+    Object.keys(CLINICAL_SUMMARY_SCHEMA) as Array<keyof ClinicalSummary>
+  );
+}
+
+/**
+ * Locally repairs common formatting problems before parsing: Markdown code
+ * fences and prose around the JSON object
+ */
+export function extractJSONObject(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate.trim();
+}
+
+/**
+ * Parses and validates a model response for the requested fields
+ */
+export function parseSummaryResponse<K extends keyof ClinicalSummary>(
+  responseText: string,
+  fields: readonly K[]
+): SchemaResult<Pick<ClinicalSummary, K>> {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJSONObject(responseText));
+  } catch (error: any) {
+    return { value: null, errors: [{ field: '(root)', message: `invalid JSON: ${error.message}` }] };
+  }
+
+  return validateSummaryFields(data, fields);
+}
+
+/**
+ * Builds the follow-up message asking the model to correct its output
+ */
+export function buildRepairPrompt(errors: SchemaError[]): string {
+  const problems = errors.map((e) => `- ${e.field}: ${e.message}`).join('\n');
+
+  return `Your previous response did not match the required format:
+${problems}
+
+Return the complete corrected JSON object only. Every field must be present. Section values must be strings (use "" if the information was not discussed), "citations" must be an object mapping section names to arrays of message numbers, and "originalQuotes" must be an object mapping section names to arrays of quotes. No additional text.`;
+}
@@ -0,0 +1,30 @@
+/**
+ * Route Access Tests
+ *
+ * Which ?next= values the sign-in form may redirect to.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { isSafeRedirect } from '@/lib/auth/access';
+
+const ORIGIN = 'https://intake.example.org';
+
+describe('isSafeRedirect', () => {
+  it.each(['/', '/summary', '/clinician/abc?status=received', '/clinician#notes'])('allows the path "%s"', (path) => {
+    expect(isSafeRedirect(path, ORIGIN)).toBe(true);
+  });
+
+  it.each([
+    undefined,
+    '',
+    'clinician',
+    'https://evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '/\\/evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+  ])('rejects %j', (path) => {
+    expect(isSafeRedirect(path, ORIGIN)).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Route Access Rules
+ *
+ * Which roles may reach each page and API route. Checked by middleware on every
+ * request; the first matching rule wins, and anything unmatched requires a
+ * signed-in user of any role.
+ */
+
+import { ROLES, Role } from '@/lib/auth/types';
+
+const STAFF: Role[] = ['clinician', 'admin'];
+
+interface AccessRule {
+  pattern: RegExp;
+  methods?: string[];
+  roles: Role[] | 'public';
+}
+
+const ACCESS_RULES: AccessRule[] = [
+  { pattern: /^\/(login|register)$/, roles: 'public' },
+  { pattern: /^\/api\/auth\//, roles: 'public' },
+  { pattern: /^\/(admin|api\/admin)(\/|$)/, roles: ['admin'] },
+  { pattern: /^\/clinician(\/|$)/, roles: STAFF },
+  { pattern: /^\/api\/recommendations$/, roles: STAFF },
+  // Patients submit their own assessment; reading submissions is for staff
+  { pattern: /^\/api\/submissions$/, methods: ['POST'], roles: ROLES },
+  { pattern: /^\/api\/submissions(\/|$)/, roles: STAFF },
+];
+
+/**
+ * Roles allowed to access a path, or 'public' when no sign-in is needed
+ */
+export function getAllowedRoles(pathname: string, method: string): Role[] | 'public' {
+  const rule = ACCESS_RULES.find(
+    (r) => r.pattern.test(pathname) && (!r.methods || r.methods.includes(method))
+  );
+  return rule ? rule.roles : ROLES;
+}
+
+/**
+ * Page a user lands on after signing in
+ */
+export function getHomePath(role: Role): string {
+  switch (role) {
+    case 'admin':
+      return '/admin';
+    case 'clinician':
+      return '/clinician';
+    default:
+      return '/';
+  }
+}
+
+/**
+ * Whether a ?next= value is a path on this origin. Browsers read "\" as "/" and
+ * drop tabs and newlines, so "/\evil.com" would become "//evil.com"; such
+ * values are rejected before the path is resolved against the origin.
+ */
+export function isSafeRedirect(path: string | undefined, origin: string): path is string {
+  if (!path || !path.startsWith('/') || /[\\\s]/.test(path)) return false;
+  try {
+    return new URL(path, origin).origin === origin;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Auth Configuration
+ *
+ * Safe to import from middleware (Edge runtime): no Node-only modules.
+ *
+ *   AUTH_SECRET               key used to sign session cookies (required in production)
+ *   AUTH_SESSION_TTL_HOURS    session lifetime (default: 8)
+ *   AUTH_ADMIN_USERNAME       admin account created on first start when none exists
+ *   AUTH_ADMIN_PASSWORD       password for that account
+ */
+
+export const SESSION_COOKIE = 'psych_session';
+
+export const SESSION_TTL_SECONDS = (Number(process.env.AUTH_SESSION_TTL_HOURS) || 8) * 60 * 60;
+
+// Only used outside production so the app runs without configuration
+const DEVELOPMENT_SECRET = 'development-only-secret-do-not-use-in-production';
+
+/**
+ * Returns a human-readable error if sessions cannot be signed
+ */
+export function getAuthConfigError(): string | null {
+  if (process.env.AUTH_SECRET) return null;
+  return process.env.NODE_ENV === 'production' ? 'AUTH_SECRET not configured' : null;
+}
+
+export function getAuthSecret(): string {
+  return process.env.AUTH_SECRET || DEVELOPMENT_SECRET;
+}
@@ -0,0 +1,120 @@
+/**
+ * Authentication
+ *
+ * Server-side helpers for route handlers: the local user store, credential
+ * checks, and the session cookie. Middleware must import the Edge-safe modules
+ * (config, session-token, access) directly instead of this file.
+ *
+ *   AUTH_DB_PATH   credential database file (default: data/auth.db)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  getAuthSecret,
+} from '@/lib/auth/config';
+import { MIN_PASSWORD_LENGTH, getDummyPasswordHash, verifyPassword } from '@/lib/auth/password';
+import { createSessionToken, verifySessionToken } from '@/lib/auth/session-token';
+import { ROLES, Role, SessionUser, UserStore } from '@/lib/auth/types';
+import { createSQLiteUserStore } from '@/lib/auth/user-store';
+
+export * from '@/lib/auth/types';
+export { MIN_PASSWORD_LENGTH } from '@/lib/auth/password';
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,64}$/;
+
+let userStorePromise: Promise<UserStore> | null = null;
+
+async function openUserStore(): Promise<UserStore> {
+  const filename = process.env.AUTH_DB_PATH || path.join(process.cwd(), 'data', 'auth.db');
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  const store = createSQLiteUserStore(filename);
+
+  // Bootstrap the first admin account from the environment
+  const adminUsername = process.env.AUTH_ADMIN_USERNAME;
+  const adminPassword = process.env.AUTH_ADMIN_PASSWORD;
+  if (adminUsername && adminPassword && (await store.countByRole('admin')) === 0) {
+    await store.create({ username: normalizeUsername(adminUsername), password: adminPassword, role: 'admin' });
+  }
+
+  return store;
+}
+
+/**
+ * Returns the user store, opened once per server process
+ */
+export function getUserStore(): Promise<UserStore> {
+  if (!userStorePromise) {
+    userStorePromise = openUserStore();
+    userStorePromise.catch(() => {
+      userStorePromise = null;
+    });
+  }
+  return userStorePromise;
+}
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Returns a human-readable problem with new credentials, or null if they are acceptable
+ */
+export function validateCredentials(username: string, password: unknown): string | null {
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Username must be 3-64 characters: letters, numbers, dot, dash, or underscore';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Checks a username and password against the store. An unknown username is
+ * still checked against a dummy hash, so response time does not reveal which
+ * usernames exist.
+ */
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+  const record = await (await getUserStore()).findByUsername(normalizeUsername(username));
+  const valid = await verifyPassword(password, record ? record.passwordHash : await getDummyPasswordHash());
+  if (!record || !valid) {
+    return null;
+  }
+  return { id: record.id, username: record.username, role: record.role };
+}
+
+/**
+ * Signed-in user for a request, from the session cookie
+ */
+export async function getSessionUser(req: NextRequest): Promise<SessionUser | null> {
+  const payload = await verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value, getAuthSecret());
+  return payload ? { id: payload.id, username: payload.username, role: payload.role } : null;
+}
+
+function buildCookie(value: string, maxAge: number): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`;
+}
+
+/**
+ * Set-Cookie value that signs a user in
+ */
+export async function createSessionCookie(user: SessionUser): Promise<string> {
+  const token = await createSessionToken(user, getAuthSecret(), SESSION_TTL_SECONDS);
+  return buildCookie(token, SESSION_TTL_SECONDS);
+}
+
+/**
+ * Set-Cookie value that signs the user out
+ */
+export function clearSessionCookie(): string {
+  return buildCookie('', 0);
+}
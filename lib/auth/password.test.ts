@@ -0,0 +1,25 @@
+/**
+ * Password Hashing Tests
+ *
+ * scrypt round trips, and the dummy hash checked for unknown usernames.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getDummyPasswordHash, hashPassword, verifyPassword } from '@/lib/auth/password';
+
+describe('verifyPassword', () => {
+  it('accepts the hashed password and rejects others', async () => {
+    const stored = await hashPassword('correct horse');
+
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('wrong horse', stored)).toBe(false);
+  });
+
+  it('checks unknown users against a reusable dummy hash that matches nothing', async () => {
+    const dummy = await getDummyPasswordHash();
+
+    expect(dummy).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    expect(await getDummyPasswordHash()).toBe(dummy);
+    expect(await verifyPassword('password123', dummy)).toBe(false);
+  });
+});
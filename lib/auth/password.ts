@@ -0,0 +1,41 @@
+/**
+ * Password Hashing
+ *
+ * scrypt with a per-password random salt. Hashes are stored as
+ * "scrypt$<salt>$<hash>" in hex.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * A hash of a random password, checked in place of a missing user's hash so
+ * that unknown usernames take as long to reject as wrong passwords
+ */
+export function getDummyPasswordHash(): Promise<string> {
+  if (!dummyHash) dummyHash = hashPassword(randomBytes(16).toString('hex'));
+  return dummyHash;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,55 @@
+/**
+ * Auth Types
+ *
+ * Roles, users, and the session payload carried in the signed session cookie.
+ */
+
+export type Role = 'patient' | 'clinician' | 'admin';
+
+export const ROLES: Role[] = ['patient', 'clinician', 'admin'];
+
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  createdAt: string;
+}
+
+/**
+ * Stored user, including the password hash; never returned from an API
+ */
+export interface UserRecord extends User {
+  passwordHash: string;
+}
+
+export interface NewUser {
+  username: string;
+  password: string;
+  role: Role;
+}
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: Role;
+}
+
+export interface SessionPayload extends SessionUser {
+  // Expiry as seconds since the epoch
+  exp: number;
+}
+
+export interface UserStore {
+  findByUsername(username: string): Promise<UserRecord | null>;
+  list(): Promise<User[]>;
+  // Throws UsernameTakenError when the username already exists
+  create(input: NewUser): Promise<User>;
+  countByRole(role: Role): Promise<number>;
+}
+
+export class UsernameTakenError extends Error {
+  constructor(username: string) {
+    super(`Username already taken: ${username}`);
+    this.name = 'UsernameTakenError';
+  }
+}
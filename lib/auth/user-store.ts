@@ -0,0 +1,78 @@
+/**
+ * SQLite User Store
+ *
+ * Local credential store: usernames, roles, and scrypt password hashes in a
+ * SQLite database, so sign-in works without an outside identity provider.
+ */
+
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { hashPassword } from '@/lib/auth/password';
+import { NewUser, Role, User, UserRecord, UserStore, UsernameTakenError } from '@/lib/auth/types';
+
+interface UserRow {
+  id: string;
+  username: string;
+  role: Role;
+  password_hash: string;
+  created_at: string;
+}
+
+const CREATE_USERS_TABLE = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL CHECK (role IN ('patient', 'clinician', 'admin')),
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )
+`;
+
+function toUser(row: UserRow): User {
+  return { id: row.id, username: row.username, role: row.role, createdAt: row.created_at };
+}
+
+export function createSQLiteUserStore(filename: string): UserStore {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(CREATE_USERS_TABLE);
+
+  const findRow = db.prepare<[string], UserRow>('SELECT * FROM users WHERE username = ?');
+
+  return {
+    async findByUsername(username: string): Promise<UserRecord | null> {
+      const row = findRow.get(username);
+      return row ? { ...toUser(row), passwordHash: row.password_hash } : null;
+    },
+
+    async list(): Promise<User[]> {
+      return db.prepare<[], UserRow>('SELECT * FROM users ORDER BY username').all().map(toUser);
+    },
+
+    async create(input: NewUser): Promise<User> {
+      if (findRow.get(input.username)) {
+        throw new UsernameTakenError(input.username);
+      }
+
+      const row: UserRow = {
+        id: randomUUID(),
+        username: input.username,
+        role: input.role,
+        password_hash: await hashPassword(input.password),
+        created_at: new Date().toISOString(),
+      };
+      db.prepare(
+        'INSERT INTO users (id, username, role, password_hash, created_at) VALUES (@id, @username, @role, @password_hash, @created_at)'
+      ).run(row);
+
+      return toUser(row);
+    },
+
+    async countByRole(role: Role): Promise<number> {
+      const row = db
+        .prepare<[string], { count: number }>('SELECT COUNT(*) AS count FROM users WHERE role = ?')
+        .get(role);
+      return row?.count ?? 0;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Chat Stream Tests
+ *
+ * The event encoder and parser, and the marker filter the chat route applies to replies.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ChatStreamEvent, createChatStreamParser, createMarkerFilter, encodeChatStreamEvent } from '@/lib/chat/stream';
+
+const MARKER = '[[INTAKE_COMPLETE]]';
+
+function filterChunks(chunks: string[]): { text: string; found: boolean } {
+  const filter = createMarkerFilter(MARKER);
+  const text = chunks.map((chunk) => filter.push(chunk)).join('') + filter.flush();
+  return { text, found: filter.found() };
+}
+
+describe('createMarkerFilter', () => {
+  it('removes the marker and the whitespace before it', () => {
+    expect(filterChunks(['Thank you. Please continue.\n', MARKER])).toEqual({
+      text: 'Thank you. Please continue.',
+      found: true,
+    });
+  });
+
+  it('finds a marker split across chunks', () => {
+    expect(filterChunks(['Done. ', '[[INTAKE', '_COMP', 'LETE]]'])).toEqual({ text: 'Done.', found: true });
+  });
+
+  it('releases text that only looked like the start of the marker', () => {
+    expect(filterChunks(['See [[', 'notes]] here'])).toEqual({ text: 'See [[notes]] here', found: false });
+  });
+
+  it('passes replies without the marker through unchanged', () => {
+    const words = 'When did these difficulties first start? '.match(/\S+\s*/g) ?? [];
+    expect(filterChunks(words)).toEqual({ text: 'When did these difficulties first start? ', found: false });
+  });
+});
+
+describe('chat stream events', () => {
+  it('parses encoded events split at any point', () => {
+    const events: ChatStreamEvent[] = [
+      { type: 'phase', phase: 'wrap_up' },
+      { type: 'token', text: 'Gracias. ¿Hay algo más?' },
+      { type: 'transition', transition: 'questionnaires', reason: 'agent' },
+      { type: 'done' },
+    ];
+    const wire = events.map(encodeChatStreamEvent).join('');
+    const parser = createChatStreamParser();
+
+    const parsed = wire.split('').flatMap((char) => parser.push(char));
+    expect(parsed).toEqual(events);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Chat Stream Protocol
+ *
+ * Typed Server-Sent Events for the chat route. Each event is sent as
+ * `event: <type>` with its JSON payload on the `data:` line:
+ *
+ *   phase       the phase the engine selected for this turn
+ *   safety      crisis language was detected; the turn is the fixed crisis response
+ *   token       a piece of the reply text
+ *   transition  the interview is over and the client moves on to the next step
+ *   usage       token counts for the request and reply
+ *   error       the reply failed part way; the text so far is incomplete
+ *   done        the reply is complete
+ *
+ * The encoder is used by the route and the parser by the client, so both sides
+ * share one definition of the protocol.
+ */
+
+import { IntakePhase, IntakeTransition, IntakeTransitionReason } from '@/lib/agents/intake-agent';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+
+export type ChatStreamEvent =
+  | { type: 'phase'; phase: IntakePhase }
+  | { type: 'safety'; event: SafetyEvent }
+  | { type: 'token'; text: string }
+  | { type: 'transition'; transition: IntakeTransition; reason: IntakeTransitionReason }
+  | { type: 'usage'; promptTokens: number; completionTokens: number; budget: number; condensedMessages: number }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export type ChatStreamEventType = ChatStreamEvent['type'];
+
+const EVENT_TYPES: ChatStreamEventType[] = ['phase', 'safety', 'token', 'transition', 'usage', 'error', 'done'];
+
+export const CHAT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+/**
+ * Serializes one event in SSE wire format
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  const { type, ...payload } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+/**
+ * Creates an event stream from a producer. The stream always ends with `done`,
+ * or with `error` when the producer throws, so the client never has to infer
+ * how a reply ended. The producer's signal aborts when the client disconnects
+ * or stops the reply, so upstream model requests can be cancelled with it.
+ */
+export function createChatEventStream(
+  produce: (send: (event: ChatStreamEvent) => void, signal: AbortSignal) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+      };
+      try {
+        await produce(send, abort.signal);
+        send({ type: 'done' });
+      } catch (error: any) {
+        if (!abort.signal.aborted) {
+          console.error('Streaming error:', error);
+          send({ type: 'error', message: error?.message || 'The response was interrupted' });
+        }
+      }
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+}
+
+function parseEvent(block: string): ChatStreamEvent | null {
+  let type = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach((line) => {
+    const colon = line.indexOf(':');
+    if (colon === 0) return; // comment line
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') type = value;
+    if (field === 'data') data.push(value);
+  });
+
+  if (!EVENT_TYPES.includes(type as ChatStreamEventType) || data.length === 0) return null;
+  try {
+    return { ...JSON.parse(data.join('\n')), type } as ChatStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental parser for decoded stream text. Events can arrive split across
+ * chunks, so text is buffered until an event's closing blank line.
+ */
+export function createChatStreamParser(): { push: (text: string) => ChatStreamEvent[] } {
+  let buffer = '';
+
+  return {
+    push(text) {
+      buffer = (buffer + text).replace(/\r\n/g, '\n');
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      return blocks
+        .map(parseEvent)
+        .filter((event): event is ChatStreamEvent => event !== null);
+    },
+  };
+}
+
+/**
+ * Removes a reserved marker, and the whitespace before it, from streamed text.
+ * Text that could be the start of the marker is held back until the next chunk
+ * shows whether it is.
+ */
+export function createMarkerFilter(marker: string): {
+  push: (text: string) => string;
+  flush: () => string;
+  found: () => boolean;
+} {
+  let pending = '';
+  let found = false;
+
+  return {
+    push(text) {
+      pending += text;
+      if (pending.includes(marker)) {
+        found = true;
+        pending = pending.split(marker).map((part, idx, parts) => (idx < parts.length - 1 ? part.trimEnd() : part)).join('');
+      }
+
+      // Hold back the longest tail that is a prefix of the marker, and any whitespace before it
+      let held = Math.min(pending.length, marker.length - 1);
+      while (held > 0 && !marker.startsWith(pending.slice(pending.length - held))) held -= 1;
+      while (held < pending.length && /\s/.test(pending[pending.length - held - 1])) held += 1;
+
+      const ready = pending.slice(0, pending.length - held);
+      pending = pending.slice(pending.length - held);
+      return ready;
+    },
+    flush() {
+      const rest = found ? pending.trimEnd() : pending;
+      pending = '';
+      return rest;
+    },
+    found: () => found,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Review Queue Tests
+ *
+ * Rows and ordering come from the stored PHQ-9 answers, not the summary's score.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createEmptySummary } from '@/lib/agents/summary-agent';
+import { sortReviewQueue, toReviewQueueItem } from '@/lib/clinician/review-queue';
+import { Submission } from '@/lib/storage/types';
+
+function createSubmission(id: string, phq9Responses: number[], reportedScore: number): Submission {
+  return {
+    id,
+    status: 'received',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    summary: { ...createEmptySummary(), name: id, phq9Score: reportedScore, phq9Severity: 'Minimal or No Depression' },
+    draft: null,
+    phq9Responses,
+    transcript: [],
+    safetyEvents: [],
+    edits: [],
+    notes: [],
+  };
+}
+
+describe('toReviewQueueItem', () => {
+  it('scores the stored answers', () => {
+    const item = toReviewQueueItem(createSubmission('a', [3, 3, 3, 3, 3, 2, 2, 2, 0], 0));
+
+    expect(item.phq9Score).toBe(21);
+    expect(item.phq9Severity).toBe('Severe Depression');
+    expect(item.urgency).toBe('high');
+  });
+});
+
+describe('sortReviewQueue', () => {
+  it('orders by the recomputed score, whatever the summary reports', () => {
+    const queue = sortReviewQueue([
+      toReviewQueueItem(createSubmission('understated', [2, 2, 2, 2, 1, 1, 1, 1, 0], 1)),
+      toReviewQueueItem(createSubmission('overstated', [1, 0, 0, 0, 0, 0, 0, 0, 0], 27)),
+    ]);
+
+    expect(queue.map((item) => item.id)).toEqual(['understated', 'overstated']);
+  });
+});
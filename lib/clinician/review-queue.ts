@@ -0,0 +1,83 @@
+/**
+ * Clinician Review Queue
+ *
+ * Turns stored submissions into the rows of the clinician dashboard and orders
+ * them so the most urgent intakes come first. Urgency comes from the same
+ * deterministic triage rules as the recommendation agent, never from the model, and the PHQ-9 score
+ * is recomputed from the stored answers rather than read from the summary.
+ */
+
+import {
+  URGENCY_ORDER,
+  Urgency,
+  createTriageInput,
+  triageUrgency,
+} from '@/lib/agents/recommendation-agent';
+import { PHQ9, getSeverity, scoreInstrument } from '@/lib/instruments';
+import { PHQ9_SELF_HARM_ITEM_INDEX, RiskLevel } from '@/lib/safety/suicide-risk';
+import { Submission, SubmissionStatus } from '@/lib/storage/types';
+
+export interface ReviewQueueItem {
+  id: string;
+  status: SubmissionStatus;
+  createdAt: string;
+  updatedAt: string;
+  patientName: string;
+  chiefComplaint: string;
+  phq9Score: number;
+  phq9Severity: string;
+  urgency: Urgency;
+  riskLevel: RiskLevel;
+  noteCount: number;
+}
+
+/**
+ * PHQ-9 item 9 answer stored with a submission
+ */
+export function getPHQ9Item9(submission: Submission): number {
+  return submission.phq9Responses[PHQ9_SELF_HARM_ITEM_INDEX] ?? 0;
+}
+
+/**
+ * PHQ-9 total of the answers stored with a submission
+ */
+export function getPHQ9Score(submission: Submission): number {
+  return scoreInstrument(PHQ9, submission.phq9Responses);
+}
+
+/**
+ * Summarizes a submission for the dashboard list
+ */
+export function toReviewQueueItem(submission: Submission): ReviewQueueItem {
+  const { summary } = submission;
+  const phq9Score = getPHQ9Score(submission);
+  const triage = triageUrgency(
+    createTriageInput({ ...summary, phq9Score }, getPHQ9Item9(submission), submission.safetyEvents)
+  );
+
+  return {
+    id: submission.id,
+    status: submission.status,
+    createdAt: submission.createdAt,
+    updatedAt: submission.updatedAt,
+    patientName: summary.name,
+    chiefComplaint: summary.chiefComplaint,
+    phq9Score,
+    phq9Severity: getSeverity(PHQ9, phq9Score),
+    urgency: triage.urgency,
+    riskLevel: summary.riskFlag?.level ?? 'none',
+    noteCount: submission.notes.length,
+  };
+}
+
+/**
+ * Orders by urgency, then PHQ-9 score (both highest first), then oldest first
+ */
+export function sortReviewQueue(items: ReviewQueueItem[]): ReviewQueueItem[] {
+  return [...items].sort(
+    (a, b) =>
+      URGENCY_ORDER.indexOf(b.urgency) - URGENCY_ORDER.indexOf(a.urgency) ||
+      b.phq9Score - a.phq9Score ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * Intake Evaluation Harness
+ *
+ * Runs a simulated patient through the intake interview and scores the result.
+ * The harness only sees the conversation: the chat and summary steps are passed
+ * in, so the same run works against the API routes in-process or a deployed
+ * server. Patients are either scripted (answers looked up by the topic of each
+ * question) or simulated by a model playing the persona.
+ */
+
+import {
+  IntakeTransition,
+  IntakeTransitionReason,
+  classifyExchangePhases,
+  getIntakeGreeting,
+} from '@/lib/agents/intake-agent';
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { getLanguageName } from '@/lib/i18n';
+import { LLMProvider } from '@/lib/llm/types';
+import { PatientPersona } from '@/lib/eval/personas';
+import { TranscriptScores, scoreTranscript } from '@/lib/eval/scoring';
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+export type PatientMode = 'scripted' | 'simulated';
+
+/**
+ * Produces the patient's next message from the conversation so far
+ */
+export type PatientResponder = (transcript: ChatMessage[]) => Promise<string>;
+
+export interface IntakeEvalTransition {
+  transition: IntakeTransition;
+  reason: IntakeTransitionReason;
+}
+
+export interface IntakeEvalSteps {
+  /** Sends the conversation to the intake agent and returns its complete reply and any transition */
+  chat: (transcript: ChatMessage[], persona: PatientPersona) => Promise<{ reply: string; transition: IntakeEvalTransition | null }>;
+  /** Generates the clinical summary for the finished conversation, or null if it fails */
+  summarize: (transcript: ChatMessage[], persona: PatientPersona) => Promise<ClinicalSummary | null>;
+}
+
+export interface IntakeEvalResult {
+  persona: string;
+  mode: PatientMode;
+  /** Whether the interview ended before either turn limit, the run's or the chat route's */
+  completed: boolean;
+  /** What ended the interview, or null if the run's turn limit stopped it first */
+  endedBy: IntakeTransitionReason | null;
+  patientTurns: number;
+  transcript: ChatMessage[];
+  summary: ClinicalSummary | null;
+  scores: TranscriptScores;
+}
+
+// Long enough for every topic plus several follow-ups; a run that hits it has stalled
+export const DEFAULT_MAX_TURNS = 30;
+
+/**
+ * Answers with the persona's scripted answer for the topic of the latest question
+ */
+export function createScriptedPatient(persona: PatientPersona): PatientResponder {
+  return async (transcript) => {
+    const question = [...transcript].reverse().find((msg) => msg.role === 'assistant')?.content ?? '';
+    const phase = classifyExchangePhases(question, '', persona.language).find((p) => persona.answers[p]);
+    return phase ? persona.answers[phase] ?? persona.fallback : persona.fallback;
+  };
+}
+
+/**
+ * Builds the instructions for a model playing the persona
+ */
+function buildPatientPrompt(persona: PatientPersona): string {
+  const background = Object.values(persona.answers)
+    .map((answer) => `- ${answer}`)
+    .join('\n');
+
+  return `Conversation language: ${getLanguageName(persona.language)} (${persona.language})
+
+You are role-playing a patient in a psychiatric intake interview, to test the interviewer. Reply only as the patient, in the first person, with no narration.
+
+How you behave: ${persona.description}
+
+Your background, in your own words (use it when asked; do not recite it all at once):
+${background}`;
+}
+
+/**
+ * Answers as the persona using a model; the interviewer's messages are the model's input
+ */
+export function createSimulatedPatient(persona: PatientPersona, provider: LLMProvider): PatientResponder {
+  return async (transcript) => {
+    const stream = await provider.streamChat(
+      [
+        { role: 'system', content: buildPatientPrompt(persona) },
+        // Roles are swapped: the model speaks for the patient
+        ...transcript.map((msg) => ({
+          role: msg.role === 'assistant' ? ('user' as const) : ('assistant' as const),
+          content: msg.content,
+        })),
+      ],
+      { task: 'simulation' }
+    );
+
+    let reply = '';
+    for await (const text of stream) {
+      reply += text;
+    }
+    return reply.trim() || persona.fallback;
+  };
+}
+
+/**
+ * Interviews one persona until the agent moves on to the questionnaires or the
+ * turn limit is reached, then summarizes and scores the conversation
+ */
+export async function runIntakeEval(
+  persona: PatientPersona,
+  patient: PatientResponder,
+  steps: IntakeEvalSteps,
+  { mode, maxTurns = DEFAULT_MAX_TURNS }: { mode: PatientMode; maxTurns?: number }
+): Promise<IntakeEvalResult> {
+  const transcript: ChatMessage[] = [{ role: 'assistant', content: getIntakeGreeting(persona.language) }];
+  let endedBy: IntakeTransitionReason | null = null;
+  let patientTurns = 0;
+
+  while (!endedBy && patientTurns < maxTurns) {
+    transcript.push({ role: 'user', content: await patient(transcript) });
+    patientTurns += 1;
+
+    const { reply, transition } = await steps.chat(transcript, persona);
+    transcript.push({ role: 'assistant', content: reply });
+    endedBy = transition?.reason ?? null;
+  }
+
+  const summary = await steps.summarize(transcript, persona);
+
+  return {
+    persona: persona.id,
+    mode,
+    // The chat route's turn limit is a safety net; an interview that needs it has stalled
+    completed: endedBy !== null && endedBy !== 'turn_limit',
+    endedBy,
+    patientTurns,
+    transcript,
+    summary,
+    scores: scoreTranscript(transcript, persona.language, summary),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Patient Personas
+ *
+ * Simulated patients for evaluating the intake agent. Each persona has scripted
+ * answers per interview topic, used as-is in scripted runs and given to the model
+ * as the patient's background in simulated runs. The details are fictional.
+ */
+
+import { IntakePhase } from '@/lib/agents/intake-agent';
+import { Language } from '@/lib/i18n';
+
+export interface PatientPersona {
+  id: string;
+  /** How the patient behaves in the interview; also the instructions for a simulated patient */
+  description: string;
+  language: Language;
+  /** Answer given when the agent asks about each topic */
+  answers: Partial<Record<IntakePhase, string>>;
+  /** Answer to a question that matches no scripted topic, e.g. a clarifying follow-up */
+  fallback: string;
+  /** PHQ-9 item answers passed to the summary agent */
+  phq9Responses: number[];
+}
+
+export const PATIENT_PERSONAS: PatientPersona[] = [
+  {
+    id: 'terse',
+    description: 'Answers in as few words as possible and never volunteers anything beyond the question.',
+    language: 'en',
+    answers: {
+      reason_for_visit: 'Depression.',
+      identifying_info: 'My name is Sam Lee. Born on 03/14/1983. Phone 555-201-4433.',
+      chief_complaint: 'Feeling down.',
+      history_present_illness: 'Six months.',
+      past_psychiatric: 'No.',
+      family_history: 'Not that I know.',
+      medical_history: 'Asthma.',
+      substance_use: 'Rarely.',
+      mental_status: 'Low.',
+      functioning: 'Missing work.',
+      wrap_up: 'No.',
+    },
+    fallback: 'Not sure.',
+    phq9Responses: [2, 2, 2, 2, 1, 2, 1, 2, 0],
+  },
+  {
+    id: 'over-sharer',
+    description:
+      'Gives long, detailed answers that wander into other topics and adds stories the question did not ask about.',
+    language: 'en',
+    answers: {
+      reason_for_visit:
+        "Where do I start. I haven't been sleeping, I argue with my partner about everything, my mother thinks I should see someone because she went through the same thing in her thirties, and work has been a mess since the reorganization in the spring.",
+      identifying_info:
+        "My name is Alex Rivera, I was born on 07/22/1990, and my phone number is 555-318-9021. I'm a project manager, I live with my partner and our dog, and honestly the commute alone takes two hours a day, which doesn't help.",
+      chief_complaint:
+        "The anxiety, mostly. It sits in my chest all day. Though the sleep is bad too, and my back has been acting up, and I keep thinking about my father's drinking, which I probably should mention at some point.",
+      history_present_illness:
+        'It started around March after the reorganization, got worse in the summer when my partner and I nearly split up, and the last month has been the worst, with panic on the train most mornings.',
+      past_psychiatric:
+        'I saw a counselor in college for a few months after my grandmother died, which helped, but I never had a diagnosis. My doctor mentioned medication last year but I was nervous about it.',
+      family_history:
+        "My mother had depression and my father drank heavily when I was growing up; my younger brother has ADHD and there's a cousin who was hospitalized once, though nobody talks about it.",
+      medical_history:
+        'Lower back pain from an old injury, migraines a few times a month, and I take ibuprofen more than I should. No surgeries except my wisdom teeth.',
+      substance_use:
+        'Two or three glasses of wine most evenings to calm down, more at weekends. I quit smoking five years ago. I tried cannabis gummies for sleep but they made me paranoid.',
+      mental_status:
+        "Anxious and irritable, and tired all the time. I can't concentrate in meetings and I keep rereading the same email.",
+      functioning:
+        "I've called in sick four times this month, I skipped my friend's birthday, and my partner does most of the cooking now because I just can't face it.",
+      wrap_up: "I think that's everything, though I could keep going. Thank you for listening.",
+    },
+    fallback: "That's a good question, and it connects to a lot of what I've said, so let me think about it for a second.",
+    phq9Responses: [2, 1, 2, 1, 1, 2, 1, 1, 0],
+  },
+  {
+    id: 'substance-use',
+    description: 'Focused on alcohol and opioid use; open about it but minimizes how much it affects them.',
+    language: 'en',
+    answers: {
+      reason_for_visit: 'My doctor said I should get checked out because of my drinking and the pain pills.',
+      identifying_info: 'My name is Jordan Price, born on 11/02/1978, phone 555-440-1276. I work construction.',
+      chief_complaint: "I can't cut back on drinking even when I try.",
+      history_present_illness: 'It picked up two years ago after a back injury at work, when I started on oxycodone.',
+      past_psychiatric: 'I did a 30-day rehab program in 2015 but no other treatment.',
+      family_history: 'My father and uncle both had alcohol problems.',
+      medical_history: 'Chronic back pain and high blood pressure. My liver tests were high last time.',
+      substance_use:
+        "About a twelve-pack a day, more on weekends. I take oxycodone that isn't always prescribed to me, a few pills a day, and I smoke a pack of cigarettes a day.",
+      mental_status: "Mostly fine, a bit shaky in the mornings until I've had a drink.",
+      functioning: "I've had two warnings at work for being late, and my wife is talking about leaving.",
+      wrap_up: "No, I think that covers it. I just don't want to lose my job.",
+    },
+    fallback: "It's not as bad as it sounds, honestly.",
+    phq9Responses: [1, 1, 2, 1, 1, 1, 1, 1, 0],
+  },
+  {
+    id: 'declining',
+    description: 'Guarded; declines to answer personal questions about identity, family, and substance use, but answers others briefly.',
+    language: 'en',
+    answers: {
+      reason_for_visit: "I've been having a hard time and a friend told me to come.",
+      identifying_info: "I'd rather not give personal details right now.",
+      chief_complaint: 'Mostly I feel on edge all the time.',
+      history_present_illness: 'A few months, maybe longer.',
+      past_psychiatric: "I'd rather not talk about that.",
+      family_history: "I don't want to talk about my family.",
+      medical_history: 'Nothing major.',
+      substance_use: "I'd prefer not to answer that.",
+      mental_status: 'Tense, I suppose.',
+      functioning: "I'm getting by.",
+      wrap_up: 'No.',
+    },
+    fallback: "I'd rather not say.",
+    phq9Responses: [1, 1, 1, 1, 1, 1, 1, 1, 0],
+  },
+];
+
+export function getPersona(id: string): PatientPersona | undefined {
+  return PATIENT_PERSONAS.find((persona) => persona.id === id);
+}
@@ -0,0 +1,135 @@
+/**
+ * Transcript Scoring
+ *
+ * Scores a finished intake on what the interview guidelines ask of the agent:
+ * covering every topic, asking one question per turn, not re-asking covered
+ * topics, and gathering what the summary needs. Scoring is pure and reuses the
+ * phase engine's topic keywords, so it applies equally to any model.
+ */
+
+import {
+  INTAKE_LINES,
+  INTAKE_TOPICS,
+  IntakePhase,
+  classifyExchangePhases,
+  deriveIntakeAgentState,
+} from '@/lib/agents/intake-agent';
+import { CITABLE_SECTIONS, ClinicalSummary, SECTION_LABELS } from '@/lib/agents/summary-agent';
+import { SUMMARY_FIELD_RULES } from '@/lib/agents/summary-rules';
+import { Language } from '@/lib/i18n';
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+export interface TranscriptScores {
+  /** Share of intake topics discussed, 0-1 */
+  topicCoverage: number;
+  missingTopics: string[];
+  /** Agent turns scored; the fixed greeting is not the agent's own turn */
+  agentTurns: number;
+  /** Turns that asked more than one question */
+  multiQuestionTurns: number;
+  /** Share of agent turns with at most one question, 0-1 */
+  oneQuestionCompliance: number;
+  /** Questions that repeat an earlier question or return to a topic already covered */
+  repeatedQuestions: number;
+  /** Share of the summary fields checked that were filled in, 0-1; null without a summary */
+  summaryCompleteness: number | null;
+  missingSummaryFields: string[];
+}
+
+/**
+ * Summary fields an intake should produce: the required identifying details and
+ * the narrative sections (additional notes are optional)
+ */
+export const EVALUATED_SUMMARY_FIELDS: Array<{ field: keyof ClinicalSummary; label: string }> = [
+  ...(Object.keys(SUMMARY_FIELD_RULES) as Array<keyof ClinicalSummary>)
+    .filter((field) => SUMMARY_FIELD_RULES[field]?.required && field !== 'phq9Score')
+    .map((field) => ({ field, label: SUMMARY_FIELD_RULES[field]?.label ?? field })),
+  ...CITABLE_SECTIONS.filter((section) => section !== 'additionalNotes').map((section) => ({
+    field: section,
+    label: SECTION_LABELS[section],
+  })),
+];
+
+/**
+ * Counts questions; Spanish opening marks are ignored so "¿...?" counts once
+ */
+export function countQuestions(text: string): number {
+  return (text.match(/\?+/g) ?? []).length;
+}
+
+function normalizeQuestion(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, ' ').trim();
+}
+
+function ratio(count: number, total: number): number {
+  return total === 0 ? 1 : count / total;
+}
+
+/**
+ * Finds questions that repeat an earlier question word for word, or that only
+ * ask about topics the patient has already covered. A follow-up on the topic
+ * of the previous question is a clarification, not a repeat.
+ */
+function countRepeatedQuestions(transcript: ChatMessage[], language: Language): number {
+  const covered = new Set<IntakePhase>();
+  const asked = new Set<string>();
+  let previousTopics: IntakePhase[] = [];
+  let repeated = 0;
+
+  transcript.forEach((msg, idx) => {
+    if (msg.role === 'user') {
+      const previous = transcript[idx - 1];
+      if (previous?.role === 'assistant') {
+        classifyExchangePhases(previous.content, msg.content, language).forEach((phase) => covered.add(phase));
+      }
+      return;
+    }
+
+    if (countQuestions(msg.content) === 0) return;
+
+    const question = normalizeQuestion(msg.content);
+    const topics = classifyExchangePhases(msg.content, '', language);
+    const revisitsCovered =
+      topics.length > 0 &&
+      topics.every((phase) => covered.has(phase)) &&
+      !topics.some((phase) => previousTopics.includes(phase));
+
+    if (asked.has(question) || revisitsCovered) repeated += 1;
+    asked.add(question);
+    previousTopics = topics;
+  });
+
+  return repeated;
+}
+
+export function scoreTranscript(
+  transcript: ChatMessage[],
+  language: Language,
+  summary: ClinicalSummary | null
+): TranscriptScores {
+  const state = deriveIntakeAgentState(transcript, language);
+  const missingTopics = INTAKE_TOPICS.filter((t) => !state.discussedTopics.has(t.phase)).map((t) => t.label);
+
+  const agentTurns = transcript.filter(
+    (msg) => msg.role === 'assistant' && msg.content !== INTAKE_LINES[language].greeting
+  );
+  const multiQuestionTurns = agentTurns.filter((msg) => countQuestions(msg.content) > 1).length;
+
+  const missingSummaryFields = summary
+    ? EVALUATED_SUMMARY_FIELDS.filter(({ field }) => !String(summary[field] ?? '').trim()).map(({ label }) => label)
+    : [];
+
+  return {
+    topicCoverage: ratio(INTAKE_TOPICS.length - missingTopics.length, INTAKE_TOPICS.length),
+    missingTopics,
+    agentTurns: agentTurns.length,
+    multiQuestionTurns,
+    oneQuestionCompliance: ratio(agentTurns.length - multiQuestionTurns, agentTurns.length),
+    repeatedQuestions: countRepeatedQuestions(transcript, language),
+    summaryCompleteness: summary
+      ? ratio(EVALUATED_SUMMARY_FIELDS.length - missingSummaryFields.length, EVALUATED_SUMMARY_FIELDS.length)
+      : null,
+    missingSummaryFields,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * FHIR Code Systems
+ *
+ * LOINC and HL7 codes used by the assessment export.
+ */
+
+import { CitableSection } from '@/lib/agents/summary-agent';
+import { Coding } from '@/lib/fhir/types';
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+
+export const PHQ9_PANEL: Coding = {
+  system: LOINC_SYSTEM,
+  code: '44249-1',
+  display: 'PHQ-9 quick depression assessment panel',
+};
+
+export const PHQ9_QUESTIONNAIRE_URL = 'http://loinc.org/q/44249-1';
+
+export const PHQ9_TOTAL_SCORE: Coding = {
+  system: LOINC_SYSTEM,
+  code: '44261-6',
+  display: 'Patient Health Questionnaire 9 item (PHQ-9) total score [Reported]',
+};
+
+/**
+ * LOINC item codes, in PHQ-9 item order
+ */
+export const PHQ9_ITEM_CODES = [
+  '44250-9',
+  '44255-8',
+  '44259-0',
+  '44254-1',
+  '44251-7',
+  '44258-2',
+  '44252-5',
+  '44253-3',
+  '44260-8',
+];
+
+/**
+ * LOINC answer codes, indexed by answer value (0-3)
+ */
+export const PHQ9_ANSWER_CODES: Coding[] = [
+  { system: LOINC_SYSTEM, code: 'LA6568-5', display: 'Not at all' },
+  { system: LOINC_SYSTEM, code: 'LA6569-3', display: 'Several days' },
+  { system: LOINC_SYSTEM, code: 'LA6570-1', display: 'More than half the days' },
+  { system: LOINC_SYSTEM, code: 'LA6571-9', display: 'Nearly every day' },
+];
+
+export const CONSULT_NOTE: Coding = {
+  system: LOINC_SYSTEM,
+  code: '11488-4',
+  display: 'Consult note',
+};
+
+/**
+ * LOINC section codes; sections without a well-established code carry only a title
+ */
+export const SECTION_CODES: Partial<Record<CitableSection, Coding>> = {
+  chiefComplaint: { system: LOINC_SYSTEM, code: '10154-3', display: 'Chief complaint Narrative - Reported' },
+  historyOfPresentIllness: { system: LOINC_SYSTEM, code: '10164-2', display: 'History of Present illness Narrative' },
+  familyHistory: { system: LOINC_SYSTEM, code: '10157-6', display: 'History of family member diseases Narrative' },
+  medicalHistory: { system: LOINC_SYSTEM, code: '11348-0', display: 'History of Past illness Narrative' },
+  mentalStatus: { system: LOINC_SYSTEM, code: '10190-7', display: 'Mental status Narrative' },
+  functioning: { system: LOINC_SYSTEM, code: '47420-5', display: 'Functional status assessment note' },
+};
+
+export const SURVEY_CATEGORY: Coding = {
+  system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+  code: 'survey',
+  display: 'Survey',
+};
+
+export const EMERGENCY_CONTACT_RELATIONSHIP: Coding = {
+  system: 'http://terminology.hl7.org/CodeSystem/v2-0131',
+  code: 'C',
+  display: 'Emergency Contact',
+};
+
+export const US_CORE_RACE_URL = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-race';
@@ -0,0 +1,249 @@
+/**
+ * FHIR Export
+ *
+ * Builds a FHIR R4 document Bundle from a submitted assessment: a Composition
+ * whose sections mirror the summary, the Patient from the demographics fields,
+ * a QuestionnaireResponse for the PHQ-9 items, and an Observation for the total
+ * score and severity. The total is scored from the answers, not read from the
+ * summary.
+ */
+
+import { randomUUID } from 'crypto';
+import { CITABLE_SECTIONS, ClinicalSummary, SECTION_LABELS } from '@/lib/agents/summary-agent';
+import { PHQ9, getSeverity, scoreInstrument } from '@/lib/instruments';
+import { formatRiskFlag } from '@/lib/safety/suicide-risk';
+import {
+  CONSULT_NOTE,
+  EMERGENCY_CONTACT_RELATIONSHIP,
+  PHQ9_ANSWER_CODES,
+  PHQ9_ITEM_CODES,
+  PHQ9_PANEL,
+  PHQ9_QUESTIONNAIRE_URL,
+  PHQ9_TOTAL_SCORE,
+  SECTION_CODES,
+  SURVEY_CATEGORY,
+  US_CORE_RACE_URL,
+} from '@/lib/fhir/codes';
+import {
+  Bundle,
+  Composition,
+  CompositionSection,
+  Narrative,
+  Observation,
+  Patient,
+  QuestionnaireResponse,
+} from '@/lib/fhir/types';
+
+export interface AssessmentExportInput {
+  id: string;
+  createdAt: string;
+  summary: ClinicalSummary;
+  phq9Responses: number[];
+}
+
+export const COMPOSITION_TITLE = 'Psychiatric Intake Assessment';
+export const SCREENING_SECTION_TITLE = 'Screening Results';
+export const SAFETY_SECTION_TITLE = 'Safety Screening';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+function escapeXHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toNarrative(text: string): Narrative {
+  return { status: 'generated', div: `<div xmlns="${XHTML_NAMESPACE}">${escapeXHTML(text)}</div>` };
+}
+
+/**
+ * Converts a date of birth entered as YYYY-MM-DD or MM/DD/YYYY to a FHIR date
+ */
+export function toFHIRDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+  return undefined;
+}
+
+/**
+ * Maps free-text gender to FHIR administrative gender
+ */
+export function toFHIRGender(value: string): Patient['gender'] {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+  if (['m', 'male', 'man'].includes(normalized)) return 'male';
+  if (['f', 'female', 'woman'].includes(normalized)) return 'female';
+  return 'other';
+}
+
+function buildPatient(id: string, summary: ClinicalSummary): Patient {
+  const patient: Patient = { resourceType: 'Patient', id };
+
+  if (summary.name.trim()) {
+    const parts = summary.name.trim().split(/\s+/);
+    patient.name = [
+      {
+        text: summary.name.trim(),
+        family: parts.length > 1 ? parts[parts.length - 1] : undefined,
+        given: parts.length > 1 ? parts.slice(0, -1) : parts,
+      },
+    ];
+  }
+
+  patient.gender = toFHIRGender(summary.gender);
+  patient.birthDate = toFHIRDate(summary.dob);
+
+  const telecom: NonNullable<Patient['telecom']> = [];
+  if (summary.phone.trim()) telecom.push({ system: 'phone', value: summary.phone.trim() });
+  if (summary.email.trim()) telecom.push({ system: 'email', value: summary.email.trim() });
+  if (telecom.length > 0) patient.telecom = telecom;
+
+  if (summary.address.trim()) {
+    patient.address = [{ text: summary.address.trim() }];
+  }
+  if (summary.emergencyContact.trim()) {
+    patient.contact = [
+      {
+        relationship: [{ coding: [EMERGENCY_CONTACT_RELATIONSHIP] }],
+        name: { text: summary.emergencyContact.trim() },
+      },
+    ];
+  }
+  if (summary.raceEthnicity.trim()) {
+    patient.extension = [
+      { url: US_CORE_RACE_URL, extension: [{ url: 'text', valueString: summary.raceEthnicity.trim() }] },
+    ];
+  }
+
+  return patient;
+}
+
+function buildQuestionnaireResponse(
+  id: string,
+  patientRef: string,
+  authored: string,
+  phq9Responses: number[]
+): QuestionnaireResponse {
+  return {
+    resourceType: 'QuestionnaireResponse',
+    id,
+    questionnaire: PHQ9_QUESTIONNAIRE_URL,
+    status: 'completed',
+    subject: { reference: patientRef },
+    authored,
+    item: PHQ9.items.map((item, idx) => ({
+      linkId: PHQ9_ITEM_CODES[idx],
+      text: item.text,
+      answer: PHQ9_ANSWER_CODES[phq9Responses[idx]]
+        ? [{ valueCoding: PHQ9_ANSWER_CODES[phq9Responses[idx]] }]
+        : undefined,
+    })),
+  };
+}
+
+function buildScoreObservation(
+  id: string,
+  patientRef: string,
+  responseRef: string,
+  effective: string,
+  phq9Responses: number[]
+): Observation {
+  const score = scoreInstrument(PHQ9, phq9Responses);
+  return {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    category: [{ coding: [SURVEY_CATEGORY] }],
+    code: { coding: [PHQ9_TOTAL_SCORE], text: 'PHQ-9 total score' },
+    subject: { reference: patientRef },
+    effectiveDateTime: effective,
+    valueInteger: score,
+    interpretation: [{ text: getSeverity(PHQ9, score) }],
+    derivedFrom: [{ reference: responseRef }],
+  };
+}
+
+function buildSections(
+  summary: ClinicalSummary,
+  phq9Responses: number[],
+  responseRef: string,
+  observationRef: string
+): CompositionSection[] {
+  const sections: CompositionSection[] = CITABLE_SECTIONS.filter((s) => summary[s].trim()).map((s) => {
+    const coding = SECTION_CODES[s];
+    return {
+      title: SECTION_LABELS[s],
+      code: coding ? { coding: [coding], text: SECTION_LABELS[s] } : { text: SECTION_LABELS[s] },
+      text: toNarrative(summary[s]),
+    };
+  });
+
+  const score = scoreInstrument(PHQ9, phq9Responses);
+  sections.push({
+    title: SCREENING_SECTION_TITLE,
+    code: { coding: [PHQ9_PANEL], text: SCREENING_SECTION_TITLE },
+    text: toNarrative(`PHQ-9 total score ${score} / 27 (${getSeverity(PHQ9, score)})`),
+    entry: [{ reference: observationRef }, { reference: responseRef }],
+  });
+
+  if (summary.riskFlag) {
+    sections.push({
+      title: SAFETY_SECTION_TITLE,
+      text: toNarrative(formatRiskFlag(summary.riskFlag)),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Builds the FHIR document Bundle for a submitted assessment
+ */
+export function buildAssessmentBundle(input: AssessmentExportInput): Bundle {
+  const ids = {
+    composition: randomUUID(),
+    patient: randomUUID(),
+    response: randomUUID(),
+    observation: randomUUID(),
+  };
+  const patientRef = `urn:uuid:${ids.patient}`;
+  const responseRef = `urn:uuid:${ids.response}`;
+  const observationRef = `urn:uuid:${ids.observation}`;
+
+  const composition: Composition = {
+    resourceType: 'Composition',
+    id: ids.composition,
+    // Patient-reported and not yet signed by a clinician
+    status: 'preliminary',
+    type: { coding: [CONSULT_NOTE], text: COMPOSITION_TITLE },
+    subject: { reference: patientRef },
+    date: input.createdAt,
+    author: [{ display: 'Psychiatry Intake Assistant' }],
+    title: COMPOSITION_TITLE,
+    section: buildSections(input.summary, input.phq9Responses, responseRef, observationRef),
+  };
+
+  return {
+    resourceType: 'Bundle',
+    id: randomUUID(),
+    identifier: { system: 'urn:ietf:rfc:3986', value: `urn:uuid:${input.id}` },
+    type: 'document',
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: `urn:uuid:${ids.composition}`, resource: composition },
+      { fullUrl: patientRef, resource: buildPatient(ids.patient, input.summary) },
+      {
+        fullUrl: responseRef,
+        resource: buildQuestionnaireResponse(ids.response, patientRef, input.createdAt, input.phq9Responses),
+      },
+      {
+        fullUrl: observationRef,
+        resource: buildScoreObservation(ids.observation, patientRef, responseRef, input.createdAt, input.phq9Responses),
+      },
+    ],
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * FHIR R4 Types
+ *
+ * The subset of FHIR R4 resources and data types used by the assessment export.
+ */
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface Extension {
+  url: string;
+  valueString?: string;
+  extension?: Extension[];
+}
+
+export interface Narrative {
+  status: 'generated' | 'extensions' | 'additional' | 'empty';
+  div: string;
+}
+
+export interface Identifier {
+  system?: string;
+  value?: string;
+}
+
+export interface Patient {
+  resourceType: 'Patient';
+  id: string;
+  extension?: Extension[];
+  name?: Array<{ text?: string; family?: string; given?: string[] }>;
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  telecom?: Array<{ system: 'phone' | 'email'; value: string }>;
+  address?: Array<{ text: string }>;
+  contact?: Array<{ relationship?: CodeableConcept[]; name?: { text: string } }>;
+}
+
+export interface QuestionnaireResponseItem {
+  linkId: string;
+  text?: string;
+  answer?: Array<{ valueCoding: Coding }>;
+}
+
+export interface QuestionnaireResponse {
+  resourceType: 'QuestionnaireResponse';
+  id: string;
+  questionnaire: string;
+  status: 'in-progress' | 'completed' | 'amended' | 'entered-in-error' | 'stopped';
+  subject: Reference;
+  authored: string;
+  item: QuestionnaireResponseItem[];
+}
+
+export interface Observation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'registered' | 'preliminary' | 'final' | 'amended';
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject: Reference;
+  effectiveDateTime: string;
+  valueInteger: number;
+  interpretation?: CodeableConcept[];
+  derivedFrom?: Reference[];
+}
+
+export interface CompositionSection {
+  title: string;
+  code?: CodeableConcept;
+  text: Narrative;
+  entry?: Reference[];
+}
+
+export interface Composition {
+  resourceType: 'Composition';
+  id: string;
+  status: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type: CodeableConcept;
+  subject: Reference;
+  date: string;
+  author: Reference[];
+  title: string;
+  section: CompositionSection[];
+}
+
+export type AssessmentResource = Patient | QuestionnaireResponse | Observation | Composition;
+
+export interface BundleEntry {
+  fullUrl: string;
+  resource: AssessmentResource;
+}
+
+export interface Bundle {
+  resourceType: 'Bundle';
+  id: string;
+  identifier: Identifier;
+  type: 'document';
+  timestamp: string;
+  entry: BundleEntry[];
+}
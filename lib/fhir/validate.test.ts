@@ -0,0 +1,147 @@
+/**
+ * FHIR Export Tests
+ *
+ * Bundles built from assessments pass validation and read back to the data
+ * they were built from; broken Bundles and altered data are reported.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { FIXTURE_PHQ9_RESPONSES, createFixtureSummary } from '@/lib/agents/summary-fixtures';
+import { AssessmentExportInput, SCREENING_SECTION_TITLE, buildAssessmentBundle } from '@/lib/fhir/export';
+import { PHQ9_ITEM_CODES } from '@/lib/fhir/codes';
+import { Bundle, Composition, Observation, QuestionnaireResponse } from '@/lib/fhir/types';
+import { checkRoundTrip, parseAssessmentBundle, validateBundle } from '@/lib/fhir/validate';
+
+function createInput(
+  summary: ClinicalSummary = createFixtureSummary(),
+  phq9Responses = FIXTURE_PHQ9_RESPONSES
+): AssessmentExportInput {
+  return { id: 'submission-1', createdAt: '2026-03-02T15:04:05.000Z', summary, phq9Responses };
+}
+
+function resourceOf<T>(bundle: Bundle, resourceType: string): T {
+  return bundle.entry.find((e) => e.resource.resourceType === resourceType)?.resource as T;
+}
+
+describe('buildAssessmentBundle', () => {
+  it('builds a valid document that reads back to the assessment', () => {
+    const input = createInput();
+    const bundle = buildAssessmentBundle(input);
+
+    expect(validateBundle(bundle)).toEqual([]);
+    expect(checkRoundTrip(input, bundle)).toEqual([]);
+  });
+
+  it('survives serialization', () => {
+    const input = createInput();
+    const bundle = JSON.parse(JSON.stringify(buildAssessmentBundle(input)));
+
+    expect(validateBundle(bundle)).toEqual([]);
+    expect(parseAssessmentBundle(bundle)).toMatchObject({
+      name: 'Ana María López',
+      birthDate: '1990-04-12',
+      gender: 'female',
+      raceEthnicity: 'Hispanic or Latino',
+      emergencyContact: 'Luis López, (555) 987-6543',
+      sections: {
+        chiefComplaint: 'Low mood & poor sleep for <2 months>',
+        historyOfPresentIllness: 'Started after a job loss in January.',
+        familyHistory: 'Mother treated for depression.',
+      },
+      phq9Responses: FIXTURE_PHQ9_RESPONSES,
+      phq9Score: 12,
+      phq9Severity: 'Moderate Depression',
+    });
+  });
+
+  it('omits empty sections and adds a safety section for a risk flag', () => {
+    const summary = createFixtureSummary({
+      familyHistory: '',
+      riskFlag: {
+        level: 'high',
+        phq9Item9: 2,
+        cssrsResponses: [],
+        reasons: ['PHQ-9 item 9 answered 2'],
+        flaggedAt: '2026-03-02T15:00:00.000Z',
+      },
+    });
+    const bundle = buildAssessmentBundle(createInput(summary));
+    const titles = resourceOf<Composition>(bundle, 'Composition').section.map((s) => s.title);
+
+    expect(titles).not.toContain('Family History');
+    expect(titles).toContain(SCREENING_SECTION_TITLE);
+    expect(titles).toContain('Safety Screening');
+  });
+
+  it('scores the Observation from the answers, not the summary', () => {
+    const input = createInput(
+      createFixtureSummary({ phq9Score: 0, phq9Severity: 'Minimal or No Depression' }),
+      [3, 3, 3, 3, 3, 2, 2, 2, 0]
+    );
+    const bundle = buildAssessmentBundle(input);
+    const observation = resourceOf<Observation>(bundle, 'Observation');
+
+    expect(observation.valueInteger).toBe(21);
+    expect(observation.interpretation?.[0].text).toBe('Severe Depression');
+    expect(checkRoundTrip(input, bundle)).toEqual([]);
+  });
+});
+
+describe('validateBundle', () => {
+  it('rejects something that is not a Bundle', () => {
+    expect(validateBundle({ resourceType: 'Patient' })).toEqual([
+      { path: 'Bundle', message: 'resourceType must be Bundle' },
+    ]);
+  });
+
+  it('reports references that do not resolve', () => {
+    const bundle = buildAssessmentBundle(createInput());
+    bundle.entry = bundle.entry.filter((e) => e.resource.resourceType !== 'Patient');
+
+    expect(validateBundle(bundle)).toEqual(
+      expect.arrayContaining([
+        { path: 'Patient', message: 'is missing' },
+        expect.objectContaining({ path: 'Composition.subject' }),
+        expect.objectContaining({ path: 'QuestionnaireResponse.subject' }),
+        expect.objectContaining({ path: 'Observation.subject' }),
+      ])
+    );
+  });
+
+  it('reports unknown codes and an out-of-range score', () => {
+    const bundle = buildAssessmentBundle(createInput());
+    const response = resourceOf<QuestionnaireResponse>(bundle, 'QuestionnaireResponse');
+    response.item[0].linkId = '12345-6';
+    response.item[1].answer = [{ valueCoding: { system: 'http://loinc.org', code: 'LA0000-0' } }];
+    resourceOf<Observation>(bundle, 'Observation').valueInteger = 30;
+
+    expect(validateBundle(bundle).map((issue) => issue.path)).toEqual([
+      'QuestionnaireResponse.item[0].linkId',
+      'QuestionnaireResponse.item[1].answer[0]',
+      'Observation.valueInteger',
+    ]);
+  });
+});
+
+describe('checkRoundTrip', () => {
+  it('reports fields that do not read back', () => {
+    const input = createInput();
+    const bundle = buildAssessmentBundle(input);
+    const response = resourceOf<QuestionnaireResponse>(bundle, 'QuestionnaireResponse');
+    response.item.find((item) => item.linkId === PHQ9_ITEM_CODES[8])!.answer = undefined;
+    resourceOf<Observation>(bundle, 'Observation').valueInteger = 11;
+
+    expect(checkRoundTrip(input, bundle).map((issue) => issue.path)).toEqual([
+      'QuestionnaireResponse.item',
+      'Observation.valueInteger',
+    ]);
+  });
+
+  it('reports an export that was built from different data', () => {
+    const bundle = buildAssessmentBundle(createInput());
+    const issues = checkRoundTrip(createInput(createFixtureSummary({ name: 'Ana López', chiefComplaint: 'Anxiety' })), bundle);
+
+    expect(issues.map((issue) => issue.path)).toEqual(['Patient.name', 'Composition.section.chiefComplaint']);
+  });
+});
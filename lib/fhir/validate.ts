@@ -0,0 +1,258 @@
+/**
+ * FHIR Validation
+ *
+ * Structural checks for the exported Bundle, and a round-trip check that reads
+ * the Bundle back and compares it with the assessment it was built from. The
+ * export endpoint refuses to return a Bundle that fails either check.
+ */
+
+import { CITABLE_SECTIONS, CitableSection, SECTION_LABELS } from '@/lib/agents/summary-agent';
+import {
+  AssessmentExportInput,
+  COMPOSITION_TITLE,
+  toFHIRDate,
+  toFHIRGender,
+} from '@/lib/fhir/export';
+import {
+  PHQ9_ANSWER_CODES,
+  PHQ9_ITEM_CODES,
+  PHQ9_QUESTIONNAIRE_URL,
+  PHQ9_TOTAL_SCORE,
+  US_CORE_RACE_URL,
+} from '@/lib/fhir/codes';
+import { PHQ9, getSeverity, scoreInstrument } from '@/lib/instruments';
+import {
+  AssessmentResource,
+  Bundle,
+  Composition,
+  Observation,
+  Patient,
+  QuestionnaireResponse,
+} from '@/lib/fhir/types';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Assessment data read back out of a Bundle
+ */
+export interface ParsedAssessment {
+  name: string;
+  birthDate: string | undefined;
+  gender: Patient['gender'];
+  phone: string;
+  email: string;
+  address: string;
+  emergencyContact: string;
+  raceEthnicity: string;
+  sections: Partial<Record<CitableSection, string>>;
+  phq9Responses: number[];
+  phq9Score: number | undefined;
+  phq9Severity: string | undefined;
+}
+
+const FHIR_DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+function findResource<T extends AssessmentResource>(
+  bundle: Bundle,
+  resourceType: T['resourceType']
+): T | undefined {
+  return bundle.entry.find((e) => e.resource?.resourceType === resourceType)?.resource as T | undefined;
+}
+
+export function fromNarrative(div: string): string {
+  return div
+    .replace(/^<div[^>]*>/, '')
+    .replace(/<\/div>$/, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Checks the Bundle's structure: required elements, codes, and that every
+ * reference resolves to an entry in the Bundle
+ */
+export function validateBundle(data: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const bundle = data as Bundle;
+
+  if (!bundle || bundle.resourceType !== 'Bundle') {
+    return [{ path: 'Bundle', message: 'resourceType must be Bundle' }];
+  }
+  if (bundle.type !== 'document') issues.push({ path: 'Bundle.type', message: 'must be document' });
+  if (!bundle.identifier?.value) issues.push({ path: 'Bundle.identifier', message: 'is required for documents' });
+  if (!bundle.timestamp) issues.push({ path: 'Bundle.timestamp', message: 'is required for documents' });
+  if (!Array.isArray(bundle.entry) || bundle.entry.length === 0) {
+    issues.push({ path: 'Bundle.entry', message: 'must not be empty' });
+    return issues;
+  }
+
+  const fullUrls = new Set<string>();
+  bundle.entry.forEach((entry, idx) => {
+    if (!entry.fullUrl) issues.push({ path: `Bundle.entry[${idx}].fullUrl`, message: 'is required' });
+    else fullUrls.add(entry.fullUrl);
+    if (!entry.resource?.resourceType) {
+      issues.push({ path: `Bundle.entry[${idx}].resource`, message: 'must have a resourceType' });
+    }
+  });
+  const checkReference = (path: string, reference: string | undefined) => {
+    if (!reference || !fullUrls.has(reference)) {
+      issues.push({ path, message: `does not resolve within the Bundle (${reference ?? 'missing'})` });
+    }
+  };
+
+  const composition = bundle.entry[0].resource as Composition;
+  if (composition?.resourceType !== 'Composition') {
+    issues.push({ path: 'Bundle.entry[0]', message: 'the first entry of a document must be a Composition' });
+  } else {
+    if (!composition.status) issues.push({ path: 'Composition.status', message: 'is required' });
+    if (!composition.type?.coding?.length) issues.push({ path: 'Composition.type', message: 'is required' });
+    if (!composition.date) issues.push({ path: 'Composition.date', message: 'is required' });
+    if (!composition.author?.length) issues.push({ path: 'Composition.author', message: 'is required' });
+    if (!composition.title) issues.push({ path: 'Composition.title', message: 'is required' });
+    checkReference('Composition.subject', composition.subject?.reference);
+    composition.section?.forEach((section, idx) => {
+      const path = `Composition.section[${idx}]`;
+      if (!section.title) issues.push({ path: `${path}.title`, message: 'is required' });
+      if (!section.text?.div && !section.entry?.length) {
+        issues.push({ path, message: 'must have text or entries' });
+      }
+      section.entry?.forEach((ref, refIdx) => checkReference(`${path}.entry[${refIdx}]`, ref.reference));
+    });
+  }
+
+  const patient = findResource<Patient>(bundle, 'Patient');
+  if (!patient) {
+    issues.push({ path: 'Patient', message: 'is missing' });
+  } else {
+    if (patient.birthDate && !FHIR_DATE_PATTERN.test(patient.birthDate)) {
+      issues.push({ path: 'Patient.birthDate', message: 'must be a FHIR date (YYYY, YYYY-MM, or YYYY-MM-DD)' });
+    }
+    if (patient.gender && !['male', 'female', 'other', 'unknown'].includes(patient.gender)) {
+      issues.push({ path: 'Patient.gender', message: 'must be an administrative gender code' });
+    }
+  }
+
+  const response = findResource<QuestionnaireResponse>(bundle, 'QuestionnaireResponse');
+  if (!response) {
+    issues.push({ path: 'QuestionnaireResponse', message: 'is missing' });
+  } else {
+    if (response.questionnaire !== PHQ9_QUESTIONNAIRE_URL) {
+      issues.push({ path: 'QuestionnaireResponse.questionnaire', message: `must be ${PHQ9_QUESTIONNAIRE_URL}` });
+    }
+    if (!response.status) issues.push({ path: 'QuestionnaireResponse.status', message: 'is required' });
+    checkReference('QuestionnaireResponse.subject', response.subject?.reference);
+    response.item?.forEach((item, idx) => {
+      const path = `QuestionnaireResponse.item[${idx}]`;
+      if (!PHQ9_ITEM_CODES.includes(item.linkId)) {
+        issues.push({ path: `${path}.linkId`, message: `is not a PHQ-9 LOINC item code (${item.linkId})` });
+      }
+      item.answer?.forEach((answer, answerIdx) => {
+        if (!PHQ9_ANSWER_CODES.some((c) => c.code === answer.valueCoding?.code)) {
+          issues.push({ path: `${path}.answer[${answerIdx}]`, message: 'is not a PHQ-9 LOINC answer code' });
+        }
+      });
+    });
+  }
+
+  const observation = findResource<Observation>(bundle, 'Observation');
+  if (!observation) {
+    issues.push({ path: 'Observation', message: 'is missing' });
+  } else {
+    if (!observation.status) issues.push({ path: 'Observation.status', message: 'is required' });
+    if (!observation.code?.coding?.some((c) => c.code === PHQ9_TOTAL_SCORE.code)) {
+      issues.push({ path: 'Observation.code', message: `must include LOINC ${PHQ9_TOTAL_SCORE.code}` });
+    }
+    if (!Number.isInteger(observation.valueInteger) || observation.valueInteger < 0 || observation.valueInteger > 27) {
+      issues.push({ path: 'Observation.valueInteger', message: 'must be an integer between 0 and 27' });
+    }
+    checkReference('Observation.subject', observation.subject?.reference);
+  }
+
+  return issues;
+}
+
+/**
+ * Reads the assessment back out of an exported Bundle
+ */
+export function parseAssessmentBundle(bundle: Bundle): ParsedAssessment {
+  const patient = findResource<Patient>(bundle, 'Patient');
+  const response = findResource<QuestionnaireResponse>(bundle, 'QuestionnaireResponse');
+  const observation = findResource<Observation>(bundle, 'Observation');
+  const composition = findResource<Composition>(bundle, 'Composition');
+
+  const sections: Partial<Record<CitableSection, string>> = {};
+  CITABLE_SECTIONS.forEach((s) => {
+    const section = composition?.section.find((sec) => sec.title === SECTION_LABELS[s]);
+    if (section) sections[s] = fromNarrative(section.text.div);
+  });
+
+  const phq9Responses = PHQ9_ITEM_CODES.map((code) => {
+    const answer = response?.item.find((item) => item.linkId === code)?.answer?.[0]?.valueCoding.code;
+    return PHQ9_ANSWER_CODES.findIndex((c) => c.code === answer);
+  });
+
+  return {
+    name: patient?.name?.[0]?.text ?? '',
+    birthDate: patient?.birthDate,
+    gender: patient?.gender,
+    phone: patient?.telecom?.find((t) => t.system === 'phone')?.value ?? '',
+    email: patient?.telecom?.find((t) => t.system === 'email')?.value ?? '',
+    address: patient?.address?.[0]?.text ?? '',
+    emergencyContact: patient?.contact?.[0]?.name?.text ?? '',
+    raceEthnicity:
+      patient?.extension?.find((e) => e.url === US_CORE_RACE_URL)?.extension?.find((e) => e.url === 'text')
+        ?.valueString ?? '',
+    sections,
+    phq9Responses,
+    phq9Score: observation?.valueInteger,
+    phq9Severity: observation?.interpretation?.[0]?.text,
+  };
+}
+
+/**
+ * Compares a Bundle read back with the assessment it was exported from.
+ * Gender and date of birth are compared in their FHIR forms, and the score
+ * with the total of the PHQ-9 answers.
+ */
+export function checkRoundTrip(input: AssessmentExportInput, bundle: Bundle): ValidationIssue[] {
+  const parsed = parseAssessmentBundle(bundle);
+  const { summary } = input;
+  const issues: ValidationIssue[] = [];
+  const compare = (path: string, expected: unknown, actual: unknown) => {
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+      issues.push({ path, message: `round trip mismatch: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}` });
+    }
+  };
+
+  compare('Patient.name', summary.name.trim(), parsed.name);
+  compare('Patient.birthDate', toFHIRDate(summary.dob), parsed.birthDate);
+  compare('Patient.gender', toFHIRGender(summary.gender), parsed.gender);
+  compare('Patient.telecom.phone', summary.phone.trim(), parsed.phone);
+  compare('Patient.telecom.email', summary.email.trim(), parsed.email);
+  compare('Patient.address', summary.address.trim(), parsed.address);
+  compare('Patient.contact', summary.emergencyContact.trim(), parsed.emergencyContact);
+  compare('Patient.extension.race', summary.raceEthnicity.trim(), parsed.raceEthnicity);
+
+  CITABLE_SECTIONS.forEach((s) => {
+    compare(`Composition.section.${s}`, summary[s].trim() ? summary[s] : undefined, parsed.sections[s]);
+  });
+
+  compare(
+    'QuestionnaireResponse.item',
+    input.phq9Responses.map((v) => (PHQ9_ANSWER_CODES[v] ? v : -1)),
+    parsed.phq9Responses
+  );
+  const score = scoreInstrument(PHQ9, input.phq9Responses);
+  compare('Observation.valueInteger', score, parsed.phq9Score);
+  compare('Observation.interpretation', getSeverity(PHQ9, score), parsed.phq9Severity);
+
+  if (bundle.entry[0]?.resource.resourceType === 'Composition') {
+    compare('Composition.title', COMPOSITION_TITLE, (bundle.entry[0].resource as Composition).title);
+  }
+
+  return issues;
+}
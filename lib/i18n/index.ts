@@ -0,0 +1,37 @@
+/**
+ * Internationalization
+ *
+ * Registry of supported patient languages and lookup of their UI messages.
+ * The patient picks a language at the start of the intake; everything they
+ * see follows it, while clinician-facing output stays in English.
+ */
+
+import { UI_MESSAGES } from '@/lib/i18n/messages';
+import { Language, LanguageInfo, UIMessages } from '@/lib/i18n/types';
+
+export * from '@/lib/i18n/types';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { code: 'en', englishName: 'English', nativeName: 'English' },
+  es: { code: 'es', englishName: 'Spanish', nativeName: 'Español' },
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && value in LANGUAGES;
+}
+
+/**
+ * UI messages for a language; sessions that never chose one get the default
+ */
+export function getMessages(language: Language | null | undefined): UIMessages {
+  return UI_MESSAGES[language ?? DEFAULT_LANGUAGE];
+}
+
+/**
+ * English name of a language, for prompts and clinician-facing output
+ */
+export function getLanguageName(language: Language): string {
+  return LANGUAGES[language].englishName;
+}
@@ -0,0 +1,162 @@
+/**
+ * UI Messages
+ *
+ * Patient-facing interface text in every supported language. Clinician-facing
+ * screens and the clinical summary stay in English.
+ */
+
+import { Language, UIMessages } from '@/lib/i18n/types';
+
+const EN: UIMessages = {
+  languagePicker: {
+    title: 'Choose your language',
+    continueIn: 'Continue in English',
+  },
+  resume: {
+    title: 'Resume where you left off?',
+    description: (savedAt, expiresAt) =>
+      `You have an unfinished assessment saved on this device (last saved ${savedAt}). It will be deleted automatically after ${expiresAt}.`,
+    startOver: 'Start Over',
+    resume: 'Resume',
+  },
+  banner: {
+    title: 'Important:',
+    beforeLifeline: 'This is not a diagnostic or emergency service. If you are in crisis, please contact',
+    afterLifeline: '(Suicide & Crisis Lifeline) or go to your nearest emergency room immediately.',
+  },
+  chat: {
+    placeholder: 'Type your message...',
+    send: 'Send message',
+    error: 'I apologize, but I encountered an error. Please try again.',
+    tooLong: 'That message is too long for me to process. Please shorten it and send it again.',
+    stop: 'Stop response',
+    regenerate: 'Regenerate response',
+    editLast: 'Edit my last message',
+    editing: 'Editing your last message. Sending it replaces the original and the replies after it.',
+    cancelEdit: 'Cancel editing',
+    continueToQuestionnaires: "I'm done, continue to the questionnaires",
+  },
+  questionnaires: {
+    totalScore: 'Total Score:',
+    severity: 'Severity:',
+    submit: (name) => `Submit ${name}`,
+    answerAll: 'Please answer all questions before submitting.',
+    englishOnly: 'This questionnaire is only available in English.',
+    continueToSummary: 'Continue to Summary',
+    reviewSummaryPrompt: "Would you like to review a clinical summary based on what you've shared?",
+  },
+  crisis: {
+    alertTitle: 'You are not alone',
+    alertImminentTitle: 'If you are in danger right now, call 911',
+    callOrText: 'Call or text',
+    lifelineTextHome: '(Suicide & Crisis Lifeline), text HOME to',
+    orCall: ', or call',
+    emergencyRoom: 'or go to your nearest emergency room if you are in immediate danger.',
+    urgentTitle: 'Please reach out for help now',
+    supportTitle: 'Support is available',
+    urgentMessage:
+      'Your answers suggest you may be at risk right now. Please contact one of the services below immediately, or ask someone near you to help you get to an emergency room.',
+    supportMessage:
+      'Thank you for answering honestly. If these thoughts get stronger or you feel unsafe at any point, please contact one of the services below.',
+    lifelineName: '988 Suicide & Crisis Lifeline',
+    lifelineDetail: 'Call or text 988, available 24/7',
+    textLineName: 'Crisis Text Line',
+    textLineDetail: 'Text HOME to 741741',
+    textLineKeyword: 'HOME',
+    emergencyName: 'Emergency Services',
+    emergencyDetail: 'Call 911 or go to your nearest emergency room',
+    followUp: 'Your answers will be flagged for our clinical team so they can follow up with you as a priority.',
+    acknowledge: 'I understand, continue',
+  },
+  summary: {
+    englishNotice: 'The clinical summary is in English for your clinical team.',
+    generating: 'Generating clinical summary...',
+    thankYouTitle: 'Thank You',
+    thankYouMessage: 'Thank you for submitting. Our psychiatry team will follow up with you soon.',
+    reference: 'Reference:',
+    downloadPDF: 'Download PDF',
+    preparingPDF: 'Preparing PDF...',
+    close: 'Close',
+  },
+};
+
+const ES: UIMessages = {
+  languagePicker: {
+    title: 'Elija su idioma',
+    continueIn: 'Continuar en español',
+  },
+  resume: {
+    title: '¿Desea continuar donde lo dejó?',
+    description: (savedAt, expiresAt) =>
+      `Tiene una evaluación sin terminar guardada en este dispositivo (guardada por última vez el ${savedAt}). Se eliminará automáticamente después del ${expiresAt}.`,
+    startOver: 'Empezar de nuevo',
+    resume: 'Continuar',
+  },
+  banner: {
+    title: 'Importante:',
+    beforeLifeline: 'Este no es un servicio de diagnóstico ni de emergencias. Si está en crisis, comuníquese con el',
+    afterLifeline:
+      '(Línea 988 de Prevención del Suicidio y Crisis; oprima 2 para español) o vaya de inmediato a la sala de emergencias más cercana.',
+  },
+  chat: {
+    placeholder: 'Escriba su mensaje...',
+    send: 'Enviar mensaje',
+    error: 'Lo siento, ocurrió un error. Por favor, inténtelo de nuevo.',
+    tooLong: 'Ese mensaje es demasiado largo para procesarlo. Por favor, acórtelo y envíelo de nuevo.',
+    stop: 'Detener respuesta',
+    regenerate: 'Generar otra respuesta',
+    editLast: 'Editar mi último mensaje',
+    editing: 'Está editando su último mensaje. Al enviarlo, reemplazará el original y las respuestas posteriores.',
+    cancelEdit: 'Cancelar edición',
+    continueToQuestionnaires: 'He terminado, continuar con los cuestionarios',
+  },
+  questionnaires: {
+    totalScore: 'Puntuación total:',
+    severity: 'Gravedad:',
+    submit: (name) => `Enviar ${name}`,
+    answerAll: 'Por favor, responda todas las preguntas antes de enviar.',
+    englishOnly: 'Este cuestionario solo está disponible en inglés.',
+    continueToSummary: 'Continuar al resumen',
+    reviewSummaryPrompt: '¿Le gustaría revisar un resumen clínico basado en lo que ha compartido?',
+  },
+  crisis: {
+    alertTitle: 'No está solo(a)',
+    alertImminentTitle: 'Si está en peligro ahora mismo, llame al 911',
+    callOrText: 'Llame o envíe un mensaje de texto al',
+    lifelineTextHome: '(Línea 988 de Prevención del Suicidio y Crisis; oprima 2 para español), envíe AYUDA al',
+    orCall: ', o llame al',
+    emergencyRoom: 'o vaya a la sala de emergencias más cercana si está en peligro inmediato.',
+    urgentTitle: 'Por favor, busque ayuda ahora',
+    supportTitle: 'Hay apoyo disponible',
+    urgentMessage:
+      'Sus respuestas indican que podría estar en riesgo en este momento. Comuníquese de inmediato con uno de los servicios a continuación, o pida a alguien cercano que le ayude a llegar a una sala de emergencias.',
+    supportMessage:
+      'Gracias por responder con sinceridad. Si estos pensamientos se intensifican o se siente en peligro en algún momento, comuníquese con uno de los servicios a continuación.',
+    lifelineName: 'Línea 988 de Prevención del Suicidio y Crisis',
+    lifelineDetail: 'Llame o envíe un mensaje de texto al 988, disponible las 24 horas; oprima 2 para español',
+    textLineName: 'Crisis Text Line',
+    textLineDetail: 'Envíe AYUDA al 741741 o escriba por WhatsApp al 442-AYUDAME',
+    textLineKeyword: 'AYUDA',
+    emergencyName: 'Servicios de emergencia',
+    emergencyDetail: 'Llame al 911 o vaya a la sala de emergencias más cercana',
+    followUp:
+      'Sus respuestas se señalarán a nuestro equipo clínico para que pueda darle seguimiento de forma prioritaria.',
+    acknowledge: 'Entiendo, continuar',
+  },
+  summary: {
+    englishNotice:
+      'El resumen clínico está en inglés para su equipo clínico. Sus propias palabras se conservan junto a él en español.',
+    generating: 'Generando el resumen clínico...',
+    thankYouTitle: 'Gracias',
+    thankYouMessage: 'Gracias por enviar su evaluación. Nuestro equipo de psiquiatría se comunicará con usted pronto.',
+    reference: 'Referencia:',
+    downloadPDF: 'Descargar PDF',
+    preparingPDF: 'Preparando el PDF...',
+    close: 'Cerrar',
+  },
+};
+
+export const UI_MESSAGES: Record<Language, UIMessages> = {
+  en: EN,
+  es: ES,
+};
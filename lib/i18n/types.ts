@@ -0,0 +1,93 @@
+/**
+ * Language Types
+ *
+ * Languages the patient-facing side of the assessment is offered in, and the
+ * shape of the UI message catalog each one provides.
+ */
+
+export type Language = 'en' | 'es';
+
+export interface LanguageInfo {
+  code: Language;
+  /** Name in English, as shown to clinicians and given to the models */
+  englishName: string;
+  /** Name in the language itself, as shown in the language picker */
+  nativeName: string;
+}
+
+export interface UIMessages {
+  languagePicker: {
+    title: string;
+    /** Shown under the language's name on its picker button */
+    continueIn: string;
+  };
+  resume: {
+    title: string;
+    /** Explains the saved assessment, with its save and expiry times formatted for display */
+    description: (savedAt: string, expiresAt: string) => string;
+    startOver: string;
+    resume: string;
+  };
+  banner: {
+    title: string;
+    beforeLifeline: string;
+    afterLifeline: string;
+  };
+  chat: {
+    placeholder: string;
+    send: string;
+    error: string;
+    /** Shown when a message is too long to send */
+    tooLong: string;
+    stop: string;
+    regenerate: string;
+    editLast: string;
+    /** Shown above the input while the patient rewrites their last message */
+    editing: string;
+    cancelEdit: string;
+    /** Lets the patient move on if the interview has not ended by itself */
+    continueToQuestionnaires: string;
+  };
+  questionnaires: {
+    totalScore: string;
+    severity: string;
+    submit: (name: string) => string;
+    answerAll: string;
+    englishOnly: string;
+    continueToSummary: string;
+    reviewSummaryPrompt: string;
+  };
+  crisis: {
+    alertTitle: string;
+    alertImminentTitle: string;
+    callOrText: string;
+    lifelineTextHome: string;
+    orCall: string;
+    emergencyRoom: string;
+    urgentTitle: string;
+    supportTitle: string;
+    urgentMessage: string;
+    supportMessage: string;
+    lifelineName: string;
+    lifelineDetail: string;
+    textLineName: string;
+    textLineDetail: string;
+    /** Word texted to 741741 to reach a Crisis Text Line counselor in this language */
+    textLineKeyword: string;
+    emergencyName: string;
+    emergencyDetail: string;
+    followUp: string;
+    acknowledge: string;
+  };
+  summary: {
+    /** Shown above the summary form when the intake was not in English */
+    englishNotice: string;
+    generating: string;
+    thankYouTitle: string;
+    thankYouMessage: string;
+    reference: string;
+    downloadPDF: string;
+    preparingPDF: string;
+    close: string;
+  };
+}
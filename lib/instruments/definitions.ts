@@ -0,0 +1,134 @@
+/**
+ * Instrument Definitions
+ *
+ * Standardized screening instruments available to the assessment.
+ * Item wording and scoring follow the published instruments.
+ */
+
+import { Instrument, ResponseOption } from '@/lib/instruments/types';
+
+const FREQUENCY_OPTIONS: ResponseOption[] = [
+  { value: 0, label: 'Not at all' },
+  { value: 1, label: 'Several days' },
+  { value: 2, label: 'More than half the days' },
+  { value: 3, label: 'Nearly every day' },
+];
+
+const TWO_WEEK_INSTRUCTIONS =
+  'Over the last 2 weeks, how often have you been bothered by any of the following problems?';
+
+export const PHQ9: Instrument = {
+  id: 'phq9',
+  name: 'PHQ-9',
+  title: 'PHQ-9 Depression Screening',
+  instructions: TWO_WEEK_INSTRUCTIONS,
+  items: [
+    { id: 'phq9_1', text: 'Little interest or pleasure in doing things' },
+    { id: 'phq9_2', text: 'Feeling down, depressed, or hopeless' },
+    { id: 'phq9_3', text: 'Trouble falling or staying asleep, or sleeping too much' },
+    { id: 'phq9_4', text: 'Feeling tired or having little energy' },
+    { id: 'phq9_5', text: 'Poor appetite or overeating' },
+    { id: 'phq9_6', text: 'Feeling bad about yourself — or that you are a failure or have let yourself or your family down' },
+    { id: 'phq9_7', text: 'Trouble concentrating on things, such as reading the newspaper or watching television' },
+    { id: 'phq9_8', text: 'Moving or speaking so slowly that other people could have noticed. Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual' },
+    { id: 'phq9_9', text: 'Thoughts that you would be better off dead, or of hurting yourself' },
+  ],
+  options: FREQUENCY_OPTIONS,
+  scoring: { method: 'sum' },
+  severityBands: [
+    { min: 0, max: 4, label: 'Minimal or No Depression' },
+    { min: 5, max: 9, label: 'Mild Depression' },
+    { min: 10, max: 14, label: 'Moderate Depression' },
+    { min: 15, max: 19, label: 'Moderately Severe Depression' },
+    { min: 20, max: 27, label: 'Severe Depression' },
+  ],
+};
+
+export const PHQ2: Instrument = {
+  id: 'phq2',
+  name: 'PHQ-2',
+  title: 'PHQ-2 Depression Pre-Screening',
+  instructions: TWO_WEEK_INSTRUCTIONS,
+  items: PHQ9.items.slice(0, 2).map((item, idx) => ({ ...item, id: `phq2_${idx + 1}` })),
+  options: FREQUENCY_OPTIONS,
+  scoring: { method: 'sum' },
+  severityBands: [
+    { min: 0, max: 2, label: 'Negative Screen' },
+    { min: 3, max: 6, label: 'Positive Screen' },
+  ],
+};
+
+export const GAD7: Instrument = {
+  id: 'gad7',
+  name: 'GAD-7',
+  title: 'GAD-7 Anxiety Screening',
+  instructions: TWO_WEEK_INSTRUCTIONS,
+  items: [
+    { id: 'gad7_1', text: 'Feeling nervous, anxious, or on edge' },
+    { id: 'gad7_2', text: 'Not being able to stop or control worrying' },
+    { id: 'gad7_3', text: 'Worrying too much about different things' },
+    { id: 'gad7_4', text: 'Trouble relaxing' },
+    { id: 'gad7_5', text: 'Being so restless that it is hard to sit still' },
+    { id: 'gad7_6', text: 'Becoming easily annoyed or irritable' },
+    { id: 'gad7_7', text: 'Feeling afraid, as if something awful might happen' },
+  ],
+  options: FREQUENCY_OPTIONS,
+  scoring: { method: 'sum' },
+  severityBands: [
+    { min: 0, max: 4, label: 'Minimal Anxiety' },
+    { min: 5, max: 9, label: 'Mild Anxiety' },
+    { min: 10, max: 14, label: 'Moderate Anxiety' },
+    { min: 15, max: 21, label: 'Severe Anxiety' },
+  ],
+};
+
+export const AUDIT_C: Instrument = {
+  id: 'audit_c',
+  name: 'AUDIT-C',
+  title: 'AUDIT-C Alcohol Use Screening',
+  instructions: 'These questions ask about your use of alcohol over the past year.',
+  items: [
+    {
+      id: 'audit_c_1',
+      text: 'How often do you have a drink containing alcohol?',
+      options: [
+        { value: 0, label: 'Never' },
+        { value: 1, label: 'Monthly or less' },
+        { value: 2, label: '2-4 times a month' },
+        { value: 3, label: '2-3 times a week' },
+        { value: 4, label: '4 or more times a week' },
+      ],
+    },
+    {
+      id: 'audit_c_2',
+      text: 'How many standard drinks containing alcohol do you have on a typical day?',
+      options: [
+        { value: 0, label: '1 or 2' },
+        { value: 1, label: '3 or 4' },
+        { value: 2, label: '5 or 6' },
+        { value: 3, label: '7 to 9' },
+        { value: 4, label: '10 or more' },
+      ],
+    },
+    {
+      id: 'audit_c_3',
+      text: 'How often do you have six or more drinks on one occasion?',
+      options: [
+        { value: 0, label: 'Never' },
+        { value: 1, label: 'Less than monthly' },
+        { value: 2, label: 'Monthly' },
+        { value: 3, label: 'Weekly' },
+        { value: 4, label: 'Daily or almost daily' },
+      ],
+    },
+  ],
+  options: [],
+  scoring: { method: 'sum' },
+  // Positive screen is 3+ for women and 4+ for men
+  severityBands: [
+    { min: 0, max: 2, label: 'Negative Screen' },
+    { min: 3, max: 3, label: 'Positive Screen (women)' },
+    { min: 4, max: 7, label: 'Positive Screen' },
+    { min: 8, max: 12, label: 'Positive Screen, High Risk' },
+  ],
+};
@@ -0,0 +1,159 @@
+/**
+ * Questionnaire Engine
+ *
+ * Registry of instrument definitions plus generic scoring and severity lookup.
+ * Responses are stored per instrument as an array of item values, with -1
+ * marking an unanswered item. Instruments can be localized for display; scoring
+ * and everything clinicians see use the English definitions.
+ */
+
+import { Language } from '@/lib/i18n';
+import { AUDIT_C, GAD7, PHQ2, PHQ9 } from '@/lib/instruments/definitions';
+import {
+  Instrument,
+  InstrumentId,
+  InstrumentItem,
+  InstrumentScore,
+  ResponseOption,
+} from '@/lib/instruments/types';
+import { INSTRUMENT_TRANSLATIONS } from '@/lib/instruments/translations';
+
+export * from '@/lib/instruments/types';
+export { AUDIT_C, GAD7, PHQ2, PHQ9 } from '@/lib/instruments/definitions';
+export { INSTRUMENT_TRANSLATIONS } from '@/lib/instruments/translations';
+export type { InstrumentTranslation } from '@/lib/instruments/translations';
+
+export const INSTRUMENTS: Record<InstrumentId, Instrument> = {
+  phq9: PHQ9,
+  phq2: PHQ2,
+  gad7: GAD7,
+  audit_c: AUDIT_C,
+};
+
+/**
+ * Instruments the patient completes after the intake conversation, in order.
+ * PHQ-9 comes first so the suicide risk follow-up happens as early as possible.
+ */
+export const ADMINISTERED_INSTRUMENTS: InstrumentId[] = ['phq9', 'gad7', 'audit_c'];
+
+export type InstrumentResponses = Partial<Record<InstrumentId, number[]>>;
+
+export function getInstrument(id: InstrumentId): Instrument {
+  return INSTRUMENTS[id];
+}
+
+/**
+ * Whether an instrument can be shown in a language
+ */
+export function isInstrumentAvailableIn(id: InstrumentId, language: Language): boolean {
+  return language === 'en' || !!INSTRUMENT_TRANSLATIONS[language]?.[id];
+}
+
+/**
+ * The instrument with its text in the given language, when a validated
+ * translation exists; otherwise the English instrument unchanged
+ */
+export function localizeInstrument(instrument: Instrument, language: Language): Instrument {
+  const translation = INSTRUMENT_TRANSLATIONS[language]?.[instrument.id];
+  if (!translation) return instrument;
+
+  return {
+    ...instrument,
+    title: translation.title,
+    instructions: translation.instructions,
+    items: instrument.items.map((item, idx) => ({ ...item, text: translation.items[idx] ?? item.text })),
+    options: instrument.options.map((option, idx) => ({
+      ...option,
+      label: translation.options[idx] ?? option.label,
+    })),
+    severityBands: instrument.severityBands.map((band, idx) => ({
+      ...band,
+      label: translation.severityLabels[idx] ?? band.label,
+    })),
+  };
+}
+
+/**
+ * Response options for an item
+ */
+export function getItemOptions(instrument: Instrument, item: InstrumentItem): ResponseOption[] {
+  return item.options ?? instrument.options;
+}
+
+/**
+ * Highest possible score for an instrument
+ */
+export function getMaxScore(instrument: Instrument): number {
+  return instrument.items.reduce(
+    (sum, item) => sum + Math.max(...getItemOptions(instrument, item).map((o) => o.value)),
+    0
+  );
+}
+
+/**
+ * Creates an unanswered response array for an instrument
+ */
+export function createEmptyResponses(instrument: Instrument): number[] {
+  return instrument.items.map(() => -1);
+}
+
+/**
+ * Checks whether every item has an answer
+ */
+export function isInstrumentComplete(instrument: Instrument, values: number[] | undefined): boolean {
+  return !!values && instrument.items.every((_, idx) => (values[idx] ?? -1) >= 0);
+}
+
+/**
+ * Scores responses according to the instrument's scoring rule.
+ * Unanswered items count as zero.
+ */
+export function scoreInstrument(instrument: Instrument, values: number[]): number {
+  switch (instrument.scoring.method) {
+    case 'sum':
+    default:
+      return instrument.items.reduce((sum, _, idx) => sum + Math.max(values[idx] ?? 0, 0), 0);
+  }
+}
+
+/**
+ * Looks up the severity band label for a score
+ */
+export function getSeverity(instrument: Instrument, score: number): string {
+  const band = instrument.severityBands.find((b) => score >= b.min && score <= b.max);
+  return band ? band.label : 'Not assessed';
+}
+
+/**
+ * Scores every completed instrument in a response set. The PHQ-2 is not
+ * administered on its own; it is scored from PHQ-9 items 1 and 2.
+ */
+export function scoreInstruments(responses: InstrumentResponses): InstrumentScore[] {
+  const withDerived: InstrumentResponses = {
+    ...responses,
+    phq2: responses.phq2 ?? responses.phq9?.slice(0, PHQ2.items.length),
+  };
+
+  return (Object.keys(INSTRUMENTS) as InstrumentId[])
+    .filter((id) => isInstrumentComplete(INSTRUMENTS[id], withDerived[id]))
+    .map((id) => {
+      const instrument = INSTRUMENTS[id];
+      const score = scoreInstrument(instrument, withDerived[id] ?? []);
+      return {
+        instrumentId: id,
+        name: instrument.name,
+        score,
+        maxScore: getMaxScore(instrument),
+        severity: getSeverity(instrument, score),
+      };
+    });
+}
+
+/**
+ * Formats instrument scores as plain text for prompts and notes
+ */
+export function formatInstrumentScores(scores: InstrumentScore[]): string {
+  return scores
+    .map((s) => `${s.name}: ${s.score} / ${s.maxScore} (${s.severity})`)
+    .join('\n');
+}
@@ -0,0 +1,71 @@
+/**
+ * Instrument Translations
+ *
+ * Published translations of the screening instruments, used as-is. Only
+ * validated translations belong here; an instrument without one for the
+ * patient's language is shown in English. Severity labels are interface text
+ * rather than part of the published instruments.
+ */
+
+import { Language } from '@/lib/i18n';
+import { InstrumentId } from '@/lib/instruments/types';
+
+export interface InstrumentTranslation {
+  title: string;
+  instructions: string;
+  /** Item text, in item order */
+  items: string[];
+  /** Labels for the instrument's shared response options, in order */
+  options: string[];
+  /** Labels for the severity bands, in order */
+  severityLabels: string[];
+}
+
+const ES_TWO_WEEK_INSTRUCTIONS =
+  'Durante las últimas 2 semanas, ¿qué tan seguido ha tenido molestias debido a los siguientes problemas?';
+
+const ES_FREQUENCY_OPTIONS = ['Ningún día', 'Varios días', 'Más de la mitad de los días', 'Casi todos los días'];
+
+export const INSTRUMENT_TRANSLATIONS: Partial<Record<Language, Partial<Record<InstrumentId, InstrumentTranslation>>>> = {
+  // Spanish (USA) versions of the PHQ-9 and GAD-7
+  es: {
+    phq9: {
+      title: 'PHQ-9: Evaluación de depresión',
+      instructions: ES_TWO_WEEK_INSTRUCTIONS,
+      items: [
+        'Poco interés o placer en hacer cosas',
+        'Se ha sentido decaído(a), deprimido(a) o sin esperanzas',
+        'Ha tenido dificultad para quedarse o permanecer dormido(a), o ha dormido demasiado',
+        'Se ha sentido cansado(a) o con poca energía',
+        'Sin apetito o ha comido en exceso',
+        'Se ha sentido mal con usted mismo(a) — o que es un fracaso o que ha quedado mal con usted mismo(a) o con su familia',
+        'Ha tenido dificultad para concentrarse en ciertas actividades, tales como leer el periódico o ver la televisión',
+        '¿Se ha movido o hablado tan lento que otras personas podrían haberlo notado? o lo contrario — muy inquieto(a) o agitado(a) que ha estado moviéndose mucho más de lo normal',
+        'Pensamientos de que estaría mejor muerto(a) o de lastimarse de alguna manera',
+      ],
+      options: ES_FREQUENCY_OPTIONS,
+      severityLabels: [
+        'Depresión mínima o nula',
+        'Depresión leve',
+        'Depresión moderada',
+        'Depresión moderadamente grave',
+        'Depresión grave',
+      ],
+    },
+    gad7: {
+      title: 'GAD-7: Evaluación de ansiedad',
+      instructions: ES_TWO_WEEK_INSTRUCTIONS,
+      items: [
+        'Se ha sentido nervioso(a), ansioso(a) o con los nervios de punta',
+        'No ha sido capaz de parar o controlar su preocupación',
+        'Se ha preocupado demasiado por motivos diferentes',
+        'Ha tenido dificultad para relajarse',
+        'Se ha sentido tan inquieto(a) que no ha podido quedarse quieto(a)',
+        'Se ha molestado o irritado fácilmente',
+        'Ha tenido miedo de que algo terrible fuera a pasar',
+      ],
+      options: ES_FREQUENCY_OPTIONS,
+      severityLabels: ['Ansiedad mínima', 'Ansiedad leve', 'Ansiedad moderada', 'Ansiedad grave'],
+    },
+  },
+};
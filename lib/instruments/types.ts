@@ -0,0 +1,52 @@
+/**
+ * Instrument Types
+ *
+ * Declarative definition of a standardized questionnaire: items, response
+ * options, scoring rule, and severity bands.
+ */
+
+export type InstrumentId = 'phq9' | 'phq2' | 'gad7' | 'audit_c';
+
+export interface ResponseOption {
+  value: number;
+  label: string;
+}
+
+export interface InstrumentItem {
+  id: string;
+  text: string;
+  /** Item-specific options; falls back to the instrument's options */
+  options?: ResponseOption[];
+}
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  label: string;
+}
+
+export interface Instrument {
+  id: InstrumentId;
+  /** Short name, e.g. "PHQ-9" */
+  name: string;
+  /** Heading shown above the form */
+  title: string;
+  instructions: string;
+  items: InstrumentItem[];
+  options: ResponseOption[];
+  scoring: {
+    method: 'sum';
+  };
+  severityBands: SeverityBand[];
+}
+
+/**
+ * Scored result of a completed instrument, as carried into the clinical summary
+ */
+export interface InstrumentScore {
+  instrumentId: InstrumentId;
+  name: string;
+  score: number;
+  maxScore: number;
+  severity: string;
+}
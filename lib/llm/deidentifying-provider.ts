@@ -0,0 +1,68 @@
+/**
+ * De-identifying Provider
+ *
+ * Wraps any provider so that PHI never leaves the server: each request's
+ * messages are de-identified with a fresh placeholder vault, and the streamed
+ * reply or JSON completion has the real values put back before it is returned.
+ */
+
+import {
+  PHIRecognizer,
+  PHIVault,
+  deidentifyMessages,
+  deidentifyText,
+  encodeJSONString,
+  reidentify,
+  reidentifyStream,
+} from '@/lib/phi';
+import { LLMMessage, LLMProvider } from '@/lib/llm/types';
+
+export const PLACEHOLDER_INSTRUCTION =
+  'Some personal details in this conversation have been replaced with placeholders such as [NAME_1] or [PHONE_1]. ' +
+  'Use a placeholder exactly as written when you refer to that detail, and never guess the real value.';
+
+/**
+ * De-identifies a request and, when anything was replaced, tells the model how
+ * to treat the placeholders (after the existing system messages)
+ */
+function prepare(messages: LLMMessage[], recognizers: PHIRecognizer[]): { messages: LLMMessage[]; vault: PHIVault } {
+  const result = deidentifyMessages(messages, recognizers);
+  if (result.vault.valueOf.size === 0) return result;
+
+  const firstNonSystem = result.messages.findIndex((msg) => msg.role !== 'system');
+  const insertAt = firstNonSystem === -1 ? result.messages.length : firstNonSystem;
+  return {
+    messages: [
+      ...result.messages.slice(0, insertAt),
+      { role: 'system', content: PLACEHOLDER_INSTRUCTION },
+      ...result.messages.slice(insertAt),
+    ],
+    vault: result.vault,
+  };
+}
+
+export function createDeidentifyingProvider(provider: LLMProvider, recognizers: PHIRecognizer[]): LLMProvider {
+  const { scoreSelfHarm } = provider;
+
+  return {
+    name: provider.name,
+
+    async streamChat(messages, options) {
+      const { messages: deidentified, vault } = prepare(messages, recognizers);
+      const stream = await provider.streamChat(deidentified, options);
+      return reidentifyStream(stream, vault);
+    },
+
+    async completeJSON(messages, options) {
+      const { messages: deidentified, vault } = prepare(messages, recognizers);
+      const text = await provider.completeJSON(deidentified, options);
+      // Placeholders sit inside JSON strings, so values are escaped on the way back
+      return reidentify(text, vault, encodeJSONString);
+    },
+
+    // Only defined when the wrapped provider supports it; the crisis detector checks for it
+    ...(scoreSelfHarm
+      ? { scoreSelfHarm: (text: string) => scoreSelfHarm.call(provider, deidentifyText(text, recognizers).text) }
+      : {}),
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * LLM Provider Selection
+ *
+ * Reads the provider configuration from the environment and returns the
+ * matching provider, wrapped for PHI de-identification (see lib/phi). Defaults
+ * to OpenAI with GPT-4, as before.
+ *
+ *   LLM_PROVIDER      openai | openai-compatible | mock (default: openai)
+ *   LLM_MODEL         model name (default: gpt-4)
+ *   LLM_BASE_URL      endpoint for openai-compatible, e.g. http://localhost:11434/v1
+ *   LLM_API_KEY       key for openai-compatible endpoints that require one
+ *   OPENAI_API_KEY    key for openai
+ */
+
+import { getPHIConfig } from '@/lib/phi';
+import { createDeidentifyingProvider } from '@/lib/llm/deidentifying-provider';
+import { createMockProvider } from '@/lib/llm/mock-provider';
+import { createOpenAIProvider } from '@/lib/llm/openai-provider';
+import { LLMProvider, LLMTask } from '@/lib/llm/types';
+
+export type { LLMMessage, LLMProvider, LLMRequestOptions, LLMTask } from '@/lib/llm/types';
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  temperatures: Record<LLMTask, number>;
+}
+
+/**
+ * Default sampling temperature per task
+ */
+export const DEFAULT_TEMPERATURES: Record<LLMTask, number> = {
+  intake: 0.7,
+  summary: 0.5,
+  recommendation: 0.3,
+  // Simulated patients in the evaluation harness (lib/eval) should vary their answers
+  simulation: 0.9,
+};
+
+/**
+ * Reads the provider configuration from environment variables
+ */
+export function getLLMConfig(): LLMConfig {
+  const provider = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL || 'gpt-4',
+    baseURL: process.env.LLM_BASE_URL || undefined,
+    apiKey: provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.LLM_API_KEY,
+    temperatures: DEFAULT_TEMPERATURES,
+  };
+}
+
+/**
+ * Returns a human-readable error if the configuration cannot produce a provider
+ */
+export function getLLMConfigError(config: LLMConfig = getLLMConfig()): string | null {
+  switch (config.provider) {
+    case 'openai':
+      return config.apiKey ? null : 'OpenAI API key not configured';
+    case 'openai-compatible':
+      return config.baseURL ? null : 'LLM_BASE_URL must be set for the openai-compatible provider';
+    case 'mock':
+      return null;
+    default:
+      return `Unknown LLM provider: ${config.provider}`;
+  }
+}
+
+/**
+ * Creates the provider described by a configuration
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        // Local servers such as Ollama ignore the key but the SDK requires one
+        apiKey: config.apiKey || 'not-needed',
+        baseURL: config.baseURL,
+        model: config.model,
+        temperatures: config.temperatures,
+        supportsModeration: false,
+      });
+    default:
+      return createOpenAIProvider({
+        name: 'openai',
+        apiKey: config.apiKey || '',
+        baseURL: config.baseURL,
+        model: config.model,
+        temperatures: config.temperatures,
+        supportsModeration: true,
+      });
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Returns the configured provider, created once per server process. Requests
+ * are de-identified before they reach it unless PHI_DEIDENTIFICATION=off.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    const provider = createLLMProvider(getLLMConfig());
+    const phi = getPHIConfig();
+    cachedProvider = phi.enabled ? createDeidentifyingProvider(provider, phi.recognizers) : provider;
+  }
+  return cachedProvider;
+}
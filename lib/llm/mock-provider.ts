@@ -0,0 +1,281 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic, scripted provider for air-gapped development and automated tests.
+ * The intake script follows the phase engine, so a full intake -> PHQ-9 -> summary
+ * run behaves like a real interview without any network access, in any supported
+ * language; the language and phase are read from the prompt, as a model would.
+ */
+
+import {
+  INTAKE_COMPLETE_MARKER,
+  INTAKE_TOPICS,
+  IntakePhase,
+  classifyExchangePhases,
+  deriveIntakeAgentState,
+} from '@/lib/agents/intake-agent';
+import { CitableSection } from '@/lib/agents/summary-agent';
+import { DemographicField } from '@/lib/agents/demographics';
+import { LLMMessage, LLMProvider, LLMRequestOptions, LLMTask } from '@/lib/llm/types';
+import { DEFAULT_LANGUAGE, Language, isLanguage } from '@/lib/i18n';
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+/**
+ * Produces the full response text for a request
+ */
+export type MockResponder = (messages: LLMMessage[]) => string;
+
+/**
+ * Scripted intake questions, one per phase and language. Each is worded to match
+ * exactly one phase in the phase engine so the script advances deterministically.
+ */
+export const MOCK_INTAKE_SCRIPTS: Record<Language, Record<IntakePhase, string>> = {
+  en: {
+    greeting: "Hello! I'm here to help you with your psychiatric intake assessment. Can you tell me what brings you in today?",
+    reason_for_visit: 'Can you tell me what brings you in today?',
+    identifying_info: 'How old are you, and what do you do for work?',
+    chief_complaint: "Of everything you've described, what is bothering you the most right now?",
+    history_present_illness: 'When did these difficulties first start?',
+    past_psychiatric: 'Have you ever been diagnosed with a mental health condition or seen a therapist or psychiatrist?',
+    family_history: 'Has anyone in your family experienced mental health difficulties?',
+    medical_history: 'Do you have any medical conditions we should know about?',
+    substance_use: 'How often do you drink alcohol or use other substances?',
+    mental_status: 'How would you describe your mood over the past few weeks?',
+    functioning: 'How are these difficulties affecting your daily activities?',
+    wrap_up: "Is there anything else you'd like to share before I summarize everything?",
+    complete: 'Thank you for sharing. Please complete the following questionnaires, starting with the PHQ-9, to help us understand your situation more accurately.',
+  },
+  es: {
+    greeting: '¡Hola! Estoy aquí para ayudarle con su evaluación psiquiátrica de ingreso. ¿Puede contarme qué lo trae hoy por aquí?',
+    reason_for_visit: '¿Puede contarme qué lo trae hoy por aquí?',
+    identifying_info: '¿Cuántos años tiene y a qué se dedica?',
+    chief_complaint: 'De todo lo que ha descrito, ¿qué es lo que más le molesta en este momento?',
+    history_present_illness: '¿Cuándo comenzaron estas dificultades?',
+    past_psychiatric: '¿Alguna vez le han diagnosticado una condición de salud mental o ha visto a un terapeuta o psiquiatra?',
+    family_history: '¿Alguien en su familia ha tenido dificultades de salud mental?',
+    medical_history: '¿Tiene alguna condición médica que debamos conocer?',
+    substance_use: '¿Con qué frecuencia bebe alcohol o usa otras sustancias?',
+    mental_status: '¿Cómo describiría su estado de ánimo durante las últimas semanas?',
+    functioning: '¿Cómo afectan estas dificultades sus actividades diarias?',
+    wrap_up: '¿Hay algo más que le gustaría compartir antes de que resuma todo?',
+    complete: 'Gracias por compartir. Por favor, complete los siguientes cuestionarios, comenzando con el PHQ-9, para ayudarnos a comprender su situación con más precisión.',
+  },
+};
+
+const MOCK_ACKNOWLEDGEMENTS: Record<Language, string> = {
+  en: 'Thank you.',
+  es: 'Gracias.',
+};
+
+const PHASE_SUMMARY_FIELDS: Partial<Record<IntakePhase, CitableSection>> = {
+  reason_for_visit: 'chiefComplaint',
+  chief_complaint: 'chiefComplaint',
+  history_present_illness: 'historyOfPresentIllness',
+  past_psychiatric: 'pastPsychiatricHistory',
+  family_history: 'familyHistory',
+  medical_history: 'medicalHistory',
+  substance_use: 'substanceUse',
+  mental_status: 'mentalStatus',
+  functioning: 'functioning',
+  identifying_info: 'additionalNotes',
+};
+
+function conversationOnly(messages: LLMMessage[]): ChatMessage[] {
+  return messages.filter((msg): msg is ChatMessage => msg.role !== 'system');
+}
+
+/**
+ * Parses a "[index] role: content" transcript, as embedded in summary prompts, back into messages
+ */
+function parseTranscript(text: string): Array<ChatMessage & { index: number }> {
+  return text
+    .split(/\n\n(?=\[\d+\] (?:user|assistant): )/)
+    .map((block) => block.match(/^\[(\d+)\] (user|assistant): ([\s\S]*)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({
+      index: parseInt(match[1], 10),
+      role: match[2] as ChatMessage['role'],
+      content: match[3].trim(),
+    }));
+}
+
+/**
+ * Reads the conversation language declared in the intake and summary prompts
+ */
+function promptLanguage(messages: LLMMessage[]): Language {
+  for (const msg of messages) {
+    const code = msg.content.match(/^Conversation language: .+ \((\w+)\)$/m)?.[1];
+    if (isLanguage(code)) return code;
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+/**
+ * Reads the phase from the phase context in intake prompts
+ */
+function promptPhase(messages: LLMMessage[]): IntakePhase | null {
+  const context = messages.find((msg) => msg.role === 'system' && msg.content.startsWith('Interview progress:'))?.content;
+  if (!context) return null;
+  if (/ask them to complete the questionnaires/.test(context)) return 'complete';
+  if (/Ask the wrap-up question now/.test(context)) return 'wrap_up';
+
+  const label = context.match(/^- Current phase \(the topic to ask about next\): (.+)$/m)?.[1];
+  return INTAKE_TOPICS.find((t) => t.label === label)?.phase ?? null;
+}
+
+/**
+ * Asks the scripted question for the phase the engine selects next, and ends
+ * the closing line with the completion marker as the prompt asks. Older turns
+ * may have been condensed out of the request, so the phase context is followed
+ * when present rather than re-derived from the messages.
+ */
+const intakeResponder: MockResponder = (messages) => {
+  const language = promptLanguage(messages);
+  const conversation = conversationOnly(messages);
+  const phase = promptPhase(messages) ?? deriveIntakeAgentState(conversation, language).currentPhase;
+  const question = MOCK_INTAKE_SCRIPTS[language][phase];
+  const reply = conversation.length > 1 ? `${MOCK_ACKNOWLEDGEMENTS[language]} ${question}` : question;
+
+  return phase === 'complete' ? `${reply}\n${INTAKE_COMPLETE_MARKER}` : reply;
+};
+
+/**
+ * Picks out identifying details the patient stated in a recognizable form.
+ * Requests are de-identified, so details usually arrive as placeholders such as
+ * [NAME_1]; those are returned as-is, like a model would, and restored afterwards.
+ */
+function extractDemographics(conversation: ChatMessage[]): Record<DemographicField, string> {
+  const patientText = conversation.filter((msg) => msg.role === 'user').map((msg) => msg.content).join('\n');
+  const find = (pattern: RegExp) => patientText.match(pattern)?.[1]?.trim() ?? '';
+  const placeholder = (type: string) => `\\[${type}_\\d+\\]`;
+
+  return {
+    name: find(new RegExp(`\\b(?:[Mm]y name is|[Mm]e llamo|[Mm]i nombre es) (${placeholder('NAME')}|[A-ZÁÉÍÓÚÑ][a-záéíóúñ]+(?: [A-ZÁÉÍÓÚÑ][a-záéíóúñ]+){0,2})`)),
+    dob: find(
+      new RegExp(`\\b(?:born on|date of birth is|nací el|fecha de nacimiento es)\\s+(${placeholder('DATE')}|\\d{1,4}[/.-]\\d{1,2}[/.-]\\d{1,4})`, 'i')
+    ),
+    gender: '',
+    pronouns: find(/\b(she\/her|he\/him|they\/them)\b/i),
+    raceEthnicity: '',
+    address: find(new RegExp(`\\b(?:I live at|my address is)\\s+(${placeholder('ADDRESS')})`, 'i')),
+    phone: find(new RegExp(`(${placeholder('PHONE')}|(?:\\+?1[\\s.-]?)?\\(?\\d{3}\\)?[\\s.-]?\\d{3}[\\s.-]\\d{4})`)),
+    email: find(new RegExp(`(${placeholder('EMAIL')}|[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,})`)),
+    emergencyContact: '',
+  };
+}
+
+/**
+ * Fills each summary field with the patient's answer to the matching scripted question.
+ * The mock cannot translate, so answers in another language are kept as quotes instead.
+ */
+const summaryResponder: MockResponder = (messages) => {
+  const language = promptLanguage(messages);
+  const prompt = messages.filter((msg) => msg.role === 'user').map((msg) => msg.content).join('\n');
+  const transcriptStart = prompt.indexOf('Conversation:\n');
+  const transcriptEnd = prompt.indexOf('\n\nPlease generate');
+  const transcript = transcriptStart >= 0
+    ? prompt.slice(transcriptStart + 'Conversation:\n'.length, transcriptEnd >= 0 ? transcriptEnd : undefined)
+    : '';
+  const severity = prompt.match(/PHQ-9 Severity: (.+)/)?.[1]?.trim() ?? '';
+
+  const conversation = parseTranscript(transcript);
+  const citations: Partial<Record<CitableSection, number[]>> = {};
+  const originalQuotes: Partial<Record<CitableSection, string[]>> = {};
+  const summary: Record<string, unknown> = {
+    ...extractDemographics(conversation),
+    chiefComplaint: '',
+    historyOfPresentIllness: '',
+    pastPsychiatricHistory: '',
+    familyHistory: '',
+    medicalHistory: '',
+    substanceUse: '',
+    mentalStatus: '',
+    functioning: '',
+    phq9Severity: severity,
+    additionalNotes: '',
+    citations,
+    originalQuotes,
+  };
+
+  conversation.forEach((msg, idx) => {
+    const previous = conversation[idx - 1];
+    if (msg.role !== 'user' || previous?.role !== 'assistant') return;
+
+    for (const phase of classifyExchangePhases(previous.content, msg.content, language)) {
+      const field = PHASE_SUMMARY_FIELDS[phase];
+      if (field && !summary[field]) {
+        if (language === 'en') {
+          summary[field] = `Patient reports: ${msg.content}`;
+        } else {
+          summary[field] = 'Patient responded; see the original-language quote.';
+          originalQuotes[field] = [msg.content];
+        }
+        citations[field] = [msg.index];
+      }
+    }
+  });
+
+  return JSON.stringify(summary);
+};
+
+/**
+ * Restates the fixed triage decision as the rationale
+ */
+const recommendationResponder: MockResponder = (messages) => {
+  const prompt = messages.filter((msg) => msg.role === 'user').map((msg) => msg.content).join('\n');
+  const urgency = prompt.match(/Triage urgency \(fixed\): (\w+)/)?.[1] ?? 'unknown';
+
+  return JSON.stringify({
+    assessment: `Urgency ${urgency} is based on the triage rules listed for this intake.`,
+    additionalRecommendations: [],
+  });
+};
+
+const MOCK_PATIENT_REPLIES: Record<Language, string> = {
+  en: "It's hard to say. Things have been difficult for a few months.",
+  es: 'Es difícil de decir. Las cosas han estado difíciles desde hace unos meses.',
+};
+
+/**
+ * Gives the same noncommittal answer to every question, so simulated-patient
+ * evaluation runs are reproducible
+ */
+const simulationResponder: MockResponder = (messages) => MOCK_PATIENT_REPLIES[promptLanguage(messages)];
+
+export const DEFAULT_MOCK_RESPONDERS: Record<LLMTask, MockResponder> = {
+  intake: intakeResponder,
+  summary: summaryResponder,
+  recommendation: recommendationResponder,
+  simulation: simulationResponder,
+};
+
+/**
+ * Creates a scripted provider. Responders can be overridden per task.
+ */
+export function createMockProvider(
+  responders: Partial<Record<LLMTask, MockResponder>> = {}
+): LLMProvider {
+  const responderFor = (options: LLMRequestOptions): MockResponder =>
+    responders[options.task] ?? DEFAULT_MOCK_RESPONDERS[options.task];
+
+  return {
+    name: 'mock',
+
+    async streamChat(messages: LLMMessage[], options: LLMRequestOptions) {
+      const text = responderFor(options)(messages);
+      const words = text.match(/\S+\s*/g) ?? [];
+
+      return (async function* () {
+        for (const word of words) {
+          if (options.signal?.aborted) return;
+          yield word;
+        }
+      })();
+    },
+
+    async completeJSON(messages: LLMMessage[], options: LLMRequestOptions) {
+      return responderFor(options)(messages);
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * OpenAI Provider
+ *
+ * Implements the LLM provider interface on the OpenAI SDK. The same client also
+ * serves any OpenAI-compatible endpoint (e.g. Ollama, vLLM) through `baseURL`.
+ */
+
+import OpenAI from 'openai';
+import { LLMMessage, LLMProvider, LLMRequestOptions, LLMTask, SelfHarmScore } from '@/lib/llm/types';
+
+export interface OpenAIProviderConfig {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+  temperatures: Record<LLMTask, number>;
+  /** Whether the endpoint supports the moderation API */
+  supportsModeration: boolean;
+}
+
+/**
+ * Creates a provider backed by the OpenAI chat completions API
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+  });
+
+  const temperatureFor = (options: LLMRequestOptions) =>
+    options.temperature ?? config.temperatures[options.task];
+
+  const provider: LLMProvider = {
+    name: config.name,
+
+    async streamChat(messages: LLMMessage[], options: LLMRequestOptions) {
+      const stream = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        stream: true,
+        temperature: temperatureFor(options),
+      }, { signal: options.signal });
+
+      return (async function* () {
+        for await (const chunk of stream) {
+          const content = chunk.choices[0]?.delta?.content || '';
+          if (content) {
+            yield content;
+          }
+        }
+      })();
+    },
+
+    async completeJSON(messages: LLMMessage[], options: LLMRequestOptions) {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        temperature: temperatureFor(options),
+      }, { signal: options.signal });
+
+      return completion.choices[0]?.message?.content || '{}';
+    },
+  };
+
+  if (config.supportsModeration) {
+    provider.scoreSelfHarm = async (text: string): Promise<SelfHarmScore> => {
+      const moderation = await client.moderations.create({ input: text });
+      const categories = moderation.results[0]?.categories;
+
+      return {
+        selfHarm: Boolean(categories?.['self-harm']),
+        intent: Boolean(categories?.['self-harm/intent'] || categories?.['self-harm/instructions']),
+      };
+    };
+  }
+
+  return provider;
+}
@@ -0,0 +1,34 @@
+/**
+ * Token Counting
+ *
+ * Counts the tokens a chat request will use, so routes can keep prompts within
+ * a budget before calling the model. Counts use the cl100k_base encoding; other
+ * models tokenize a little differently, so budgets should leave some headroom.
+ */
+
+import { encode } from 'gpt-tokenizer';
+import { LLMMessage } from '@/lib/llm/types';
+
+// Role and separator tokens added around every message
+const TOKENS_PER_MESSAGE = 4;
+
+// Tokens that prime the reply after the last message
+const TOKENS_PER_REPLY = 3;
+
+export function countTextTokens(text: string): number {
+  return encode(text).length;
+}
+
+/**
+ * Tokens for messages sent as part of a larger request, without the reply priming
+ */
+export function countMessageTokens(messages: LLMMessage[]): number {
+  return messages.reduce((total, msg) => total + TOKENS_PER_MESSAGE + countTextTokens(msg.content), 0);
+}
+
+/**
+ * Tokens for a complete chat request
+ */
+export function countRequestTokens(messages: LLMMessage[]): number {
+  return countMessageTokens(messages) + TOKENS_PER_REPLY;
+}
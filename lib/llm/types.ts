@@ -0,0 +1,41 @@
+/**
+ * LLM Provider Types
+ *
+ * Common interface implemented by every model backend (OpenAI, OpenAI-compatible
+ * local endpoints, and the scripted mock), so the API routes never depend on a
+ * specific vendor SDK.
+ */
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What a request is for. Providers use it to pick per-task settings such as
+ * temperature, and the mock provider uses it to pick a scripted responder.
+ */
+export type LLMTask = 'intake' | 'summary' | 'recommendation' | 'simulation';
+
+export interface LLMRequestOptions {
+  task: LLMTask;
+  /** Overrides the configured temperature for the task */
+  temperature?: number;
+  /** Cancels the request, e.g. when the patient stops a reply */
+  signal?: AbortSignal;
+}
+
+export interface SelfHarmScore {
+  selfHarm: boolean;
+  intent: boolean;
+}
+
+export interface LLMProvider {
+  name: string;
+  /** Streams a chat completion as text deltas */
+  streamChat(messages: LLMMessage[], options: LLMRequestOptions): Promise<AsyncIterable<string>>;
+  /** Returns the raw text of a completion that is expected to be a JSON object */
+  completeJSON(messages: LLMMessage[], options: LLMRequestOptions): Promise<string>;
+  /** Optional self-harm classification, used for crisis model scoring */
+  scoreSelfHarm?(text: string): Promise<SelfHarmScore>;
+}
@@ -0,0 +1,93 @@
+/**
+ * Clinical Notes
+ *
+ * Registry of note templates and the renderer that turns a template plus a
+ * submission into Markdown or plain text. The clinic's default template is
+ * configured with NOTE_TEMPLATE (soap, psychiatric_hp, or dap; default
+ * psychiatric_hp); clinicians can preview a submission in any template.
+ */
+
+import { DAP_NOTE, PSYCHIATRIC_HP_NOTE, SOAP_NOTE } from '@/lib/notes/templates';
+import { NoteBlock, NoteFormat, NoteInput, NoteTemplate, NoteTemplateId } from '@/lib/notes/types';
+
+export * from '@/lib/notes/types';
+export { CLINICIAN_PLACEHOLDER, DAP_NOTE, NOT_REPORTED, PSYCHIATRIC_HP_NOTE, SOAP_NOTE } from '@/lib/notes/templates';
+
+export const NOTE_TEMPLATES: Record<NoteTemplateId, NoteTemplate> = {
+  soap: SOAP_NOTE,
+  psychiatric_hp: PSYCHIATRIC_HP_NOTE,
+  dap: DAP_NOTE,
+};
+
+export const NOTE_FORMATS: NoteFormat[] = ['markdown', 'text'];
+
+export function isNoteTemplateId(value: unknown): value is NoteTemplateId {
+  return typeof value === 'string' && value in NOTE_TEMPLATES;
+}
+
+export function isNoteFormat(value: unknown): value is NoteFormat {
+  return NOTE_FORMATS.includes(value as NoteFormat);
+}
+
+/**
+ * Template the clinic uses unless another is chosen
+ */
+export function getClinicNoteTemplateId(): NoteTemplateId {
+  const configured = process.env.NOTE_TEMPLATE;
+  if (configured && !isNoteTemplateId(configured)) {
+    console.warn(`Unknown NOTE_TEMPLATE "${configured}"; using psychiatric_hp`);
+  }
+  return isNoteTemplateId(configured) ? configured : 'psychiatric_hp';
+}
+
+/**
+ * Escapes patient text so it renders literally in Markdown
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>#|]/g, '\\$&')
+    .replace(/^(\s*)([-+]|\d+\.)(?=\s)/gm, '$1\\$2');
+}
+
+function renderBlock(block: NoteBlock, format: NoteFormat): string {
+  const md = format === 'markdown';
+  const escape = (text: string) => (md ? escapeMarkdown(text) : text);
+  const label = block.label ? (md ? `**${escape(block.label)}:**` : `${block.label}:`) : '';
+
+  if (block.kind === 'list') {
+    const items = block.items.map((item) => `- ${escape(item)}`).join('\n');
+    return label ? `${label}\n${items}` : items;
+  }
+
+  // Markdown joins single line breaks, so each line becomes its own paragraph
+  const text = md ? block.text.split(/\n+/).map(escape).join('\n\n') : block.text;
+  if (!label) return text;
+  // Multi-line text starts on its own line under the label
+  return text.includes('\n') ? `${label}\n${md ? '\n' : ''}${text}` : `${label} ${text}`;
+}
+
+function renderHeading(text: string, level: 1 | 2, format: NoteFormat): string {
+  if (format === 'markdown') return `${'#'.repeat(level)} ${text}`;
+  return level === 1 ? `${text.toUpperCase()}\n${'='.repeat(text.length)}` : `${text}\n${'-'.repeat(text.length)}`;
+}
+
+/**
+ * Renders a submission as a note in the given template and format
+ */
+export function renderNote(template: NoteTemplate, input: NoteInput, format: NoteFormat): string {
+  const { summary } = input;
+  const header = [
+    renderHeading(template.name, 1, format),
+    renderBlock({ kind: 'text', label: 'Patient', text: summary.name || 'Not provided' }, format),
+    renderBlock({ kind: 'text', label: 'Date of Birth', text: summary.dob || 'Not provided' }, format),
+  ].join('\n\n');
+
+  const sections = template.sections.map((section) =>
+    [
+      renderHeading(section.heading, 2, format),
+      ...section.build(input).map((block) => renderBlock(block, format)),
+    ].join('\n\n')
+  );
+
+  return [header, ...sections].join('\n\n') + '\n';
+}
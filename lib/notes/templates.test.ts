@@ -0,0 +1,51 @@
+/**
+ * Note Template Tests
+ *
+ * The risk assessment block, which must reflect crisis language from the chat
+ * as well as the screeners.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createEmptySummary } from '@/lib/agents/summary-agent';
+import { NOTE_TEMPLATES, renderNote } from '@/lib/notes';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+
+const IMMINENT_EVENT: SafetyEvent = {
+  type: 'crisis_detected',
+  category: 'imminent',
+  level: 'high',
+  source: 'lexicon',
+  detectedAt: '2026-03-02T15:04:05.000Z',
+};
+
+function renderRisk(safetyEvents: SafetyEvent[]): string {
+  const note = renderNote(
+    NOTE_TEMPLATES.psychiatric_hp,
+    { summary: createEmptySummary(), phq9Responses: [1, 1, 1, 1, 1, 1, 1, 1, 0], safetyEvents },
+    'text'
+  );
+  return note.slice(note.indexOf('Risk Assessment'), note.indexOf('Additional Notes'));
+}
+
+describe('risk assessment', () => {
+  it('reports no risk when neither the screeners nor the chat found any', () => {
+    expect(renderRisk([])).toContain('No Suicide Risk Identified on screening (PHQ-9 item 9: 0 / 3)');
+  });
+
+  it('lists crisis language from the chat when PHQ-9 item 9 was 0', () => {
+    const risk = renderRisk([IMMINENT_EVENT]);
+
+    expect(risk).not.toContain('No Suicide Risk Identified');
+    expect(risk).toContain('High Suicide Risk from crisis language during intake (PHQ-9 item 9: 0 / 3)');
+    expect(risk).toContain('Crisis language detected during intake:\n- Imminent (high risk, lexicon) at 2026-03-02T15:04:05.000Z');
+  });
+
+  it.each(Object.values(NOTE_TEMPLATES))('lists the events in the $name', (template) => {
+    const note = renderNote(
+      template,
+      { summary: createEmptySummary(), phq9Responses: [0, 0, 0, 0, 0, 0, 0, 0, 0], safetyEvents: [IMMINENT_EVENT] },
+      'markdown'
+    );
+    expect(note).toContain('Imminent (high risk, lexicon)');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Note Template Definitions
+ *
+ * SOAP, psychiatric history and physical (H&P), and DAP note formats. Each
+ * section draws on the clinical summary fields; parts of a note that only the
+ * clinician can write (formulation, plan) are left as marked placeholders.
+ */
+
+import { CitableSection, SECTION_LABELS } from '@/lib/agents/summary-agent';
+import { formatSafetyEvent } from '@/lib/safety/crisis-detector';
+import { PHQ9_SELF_HARM_ITEM_INDEX, RiskLevel, getRiskLevelLabel, maxRiskLevel } from '@/lib/safety/suicide-risk';
+import { NoteBlock, NoteInput, NoteTemplate } from '@/lib/notes/types';
+
+export const NOT_REPORTED = 'Not reported';
+export const CLINICIAN_PLACEHOLDER = '[To be completed by clinician]';
+
+/**
+ * Labeled summary sections, leaving out the ones the patient did not discuss
+ */
+function labeledSections({ summary }: NoteInput, sections: CitableSection[]): NoteBlock[] {
+  const blocks = sections
+    .filter((section) => summary[section].trim())
+    .map((section): NoteBlock => ({ kind: 'text', label: SECTION_LABELS[section], text: summary[section].trim() }));
+  return blocks.length > 0 ? blocks : [{ kind: 'text', text: NOT_REPORTED }];
+}
+
+function section({ summary }: NoteInput, name: CitableSection, label?: string): NoteBlock {
+  return { kind: 'text', label, text: summary[name].trim() || NOT_REPORTED };
+}
+
+/**
+ * One line per completed screening instrument
+ */
+function screeningScores({ summary }: NoteInput, label?: string): NoteBlock {
+  const items = summary.instrumentScores?.length
+    ? summary.instrumentScores.map((s) => `${s.name}: ${s.score} / ${s.maxScore} (${s.severity})`)
+    : [`PHQ-9: ${summary.phq9Score} / 27 (${summary.phq9Severity || 'Not assessed'})`];
+  return { kind: 'list', label, items };
+}
+
+/**
+ * Risk level, followed by the screener answers and the crisis language behind it
+ */
+function riskAssessment({ summary, phq9Responses, safetyEvents }: NoteInput, label?: string): NoteBlock[] {
+  const events: NoteBlock[] = safetyEvents.length > 0
+    ? [{ kind: 'list', label: 'Crisis language detected during intake', items: safetyEvents.map(formatSafetyEvent) }]
+    : [];
+
+  const flag = summary.riskFlag;
+  if (flag && flag.level !== 'none') {
+    return [
+      { kind: 'text', label, text: `${getRiskLevelLabel(flag.level)} (PHQ-9 item 9: ${flag.phq9Item9} / 3)` },
+      { kind: 'list', items: flag.cssrsResponses.map((r) => `${r.question} ${r.answer ? 'Yes' : 'No'}`) },
+      ...events,
+    ];
+  }
+
+  const item9 = phq9Responses[PHQ9_SELF_HARM_ITEM_INDEX];
+  const item9Text = `PHQ-9 item 9: ${item9 >= 0 ? item9 : 'not answered'} / 3`;
+  const chatLevel = safetyEvents.reduce<RiskLevel>((level, event) => maxRiskLevel(level, event.level), 'none');
+  const text = chatLevel === 'none'
+    ? `${getRiskLevelLabel('none')} on screening (${item9Text})`
+    : `${getRiskLevelLabel(chatLevel)} from crisis language during intake (${item9Text})`;
+
+  return [{ kind: 'text', label, text }, ...events];
+}
+
+function placeholder(label?: string): NoteBlock {
+  return { kind: 'text', label, text: CLINICIAN_PLACEHOLDER };
+}
+
+export const SOAP_NOTE: NoteTemplate = {
+  id: 'soap',
+  name: 'SOAP Note',
+  description: 'Subjective, Objective, Assessment, Plan',
+  sections: [
+    {
+      heading: 'Subjective',
+      build: (input) =>
+        labeledSections(input, [
+          'chiefComplaint',
+          'historyOfPresentIllness',
+          'pastPsychiatricHistory',
+          'familyHistory',
+          'medicalHistory',
+          'substanceUse',
+          'functioning',
+          'additionalNotes',
+        ]),
+    },
+    {
+      heading: 'Objective',
+      build: (input) => [
+        section(input, 'mentalStatus', SECTION_LABELS.mentalStatus),
+        screeningScores(input, 'Screening Instruments'),
+      ],
+    },
+    {
+      heading: 'Assessment',
+      build: (input) => [...riskAssessment(input, 'Suicide Risk'), placeholder('Clinical Formulation')],
+    },
+    {
+      heading: 'Plan',
+      build: () => [placeholder()],
+    },
+  ],
+};
+
+export const PSYCHIATRIC_HP_NOTE: NoteTemplate = {
+  id: 'psychiatric_hp',
+  name: 'Psychiatric H&P',
+  description: 'Full psychiatric history and physical',
+  sections: [
+    {
+      heading: 'Identifying Data',
+      build: ({ summary }) => [
+        { kind: 'text', label: 'Gender', text: summary.gender || NOT_REPORTED },
+        { kind: 'text', label: 'Pronouns', text: summary.pronouns || NOT_REPORTED },
+        { kind: 'text', label: 'Race/Ethnicity', text: summary.raceEthnicity || NOT_REPORTED },
+      ],
+    },
+    { heading: SECTION_LABELS.chiefComplaint, build: (input) => [section(input, 'chiefComplaint')] },
+    { heading: SECTION_LABELS.historyOfPresentIllness, build: (input) => [section(input, 'historyOfPresentIllness')] },
+    { heading: SECTION_LABELS.pastPsychiatricHistory, build: (input) => [section(input, 'pastPsychiatricHistory')] },
+    { heading: 'Substance Use History', build: (input) => [section(input, 'substanceUse')] },
+    { heading: SECTION_LABELS.medicalHistory, build: (input) => [section(input, 'medicalHistory')] },
+    { heading: SECTION_LABELS.familyHistory, build: (input) => [section(input, 'familyHistory')] },
+    { heading: 'Social History', build: (input) => [section(input, 'functioning')] },
+    { heading: 'Mental Status Examination', build: (input) => [section(input, 'mentalStatus')] },
+    { heading: 'Screening Instruments', build: (input) => [screeningScores(input)] },
+    { heading: 'Risk Assessment', build: (input) => riskAssessment(input) },
+    { heading: SECTION_LABELS.additionalNotes, build: (input) => [section(input, 'additionalNotes')] },
+    {
+      heading: 'Assessment and Plan',
+      build: () => [placeholder('Formulation'), placeholder('Diagnosis'), placeholder('Plan')],
+    },
+  ],
+};
+
+export const DAP_NOTE: NoteTemplate = {
+  id: 'dap',
+  name: 'DAP Note',
+  description: 'Brief Data, Assessment, Plan note',
+  sections: [
+    {
+      heading: 'Data',
+      build: (input) => [
+        ...labeledSections(input, ['chiefComplaint', 'historyOfPresentIllness', 'mentalStatus']),
+        screeningScores(input, 'Screening Instruments'),
+      ],
+    },
+    {
+      heading: 'Assessment',
+      build: (input) => [...riskAssessment(input, 'Suicide Risk'), placeholder('Clinical Impression')],
+    },
+    {
+      heading: 'Plan',
+      build: () => [placeholder()],
+    },
+  ],
+};
@@ -0,0 +1,43 @@
+/**
+ * Note Template Types
+ *
+ * Declarative definition of a clinical note format: an ordered list of
+ * sections, each built from the clinical summary and screening scores.
+ */
+
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+
+export type NoteTemplateId = 'soap' | 'psychiatric_hp' | 'dap';
+
+export type NoteFormat = 'markdown' | 'text';
+
+/**
+ * What a note is built from: the reviewed summary, the PHQ-9 item answers, and
+ * the crisis language detected during the intake chat
+ */
+export interface NoteInput {
+  summary: ClinicalSummary;
+  phq9Responses: number[];
+  safetyEvents: SafetyEvent[];
+}
+
+/**
+ * Format-neutral content of a section; the renderer turns it into Markdown or plain text
+ */
+export type NoteBlock =
+  | { kind: 'text'; label?: string; text: string }
+  | { kind: 'list'; label?: string; items: string[] };
+
+export interface NoteSection {
+  heading: string;
+  build: (input: NoteInput) => NoteBlock[];
+}
+
+export interface NoteTemplate {
+  id: NoteTemplateId;
+  /** Display name, e.g. "SOAP Note" */
+  name: string;
+  description: string;
+  sections: NoteSection[];
+}
@@ -0,0 +1,254 @@
+/**
+ * Summary PDF
+ *
+ * Renders a reviewed ClinicalSummary as the PDF document the clinic files:
+ * a header with clinic and patient identifiers, the narrative sections under
+ * the same headings as the summary agent, a PHQ-9 item-by-item table with the
+ * severity band, other instrument scores, the safety screening and any crisis
+ * language detected during the intake chat, and the
+ * generation timestamp on every page. Original-language patient quotes are
+ * printed under the sections they support.
+ *
+ *   CLINIC_NAME   name printed in the document header (default: Psychiatry Intake Assistant)
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import {
+  CITABLE_SECTIONS,
+  CitableSection,
+  ClinicalSummary,
+  RESULTS_HEADINGS,
+  SECTION_LABELS,
+} from '@/lib/agents/summary-agent';
+import { PHQ9, getItemOptions, getMaxScore, getSeverity, scoreInstrument } from '@/lib/instruments';
+import { SafetyEvent, formatSafetyEvent } from '@/lib/safety/crisis-detector';
+import { formatRiskFlag } from '@/lib/safety/suicide-risk';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/i18n';
+
+export interface SummaryDocumentInput {
+  summary: ClinicalSummary;
+  // PHQ-9 item answers in item order (-1 for unanswered)
+  phq9Responses: number[];
+  // Crisis language detected during the intake chat
+  safetyEvents: SafetyEvent[];
+  // Submission id, or null for a summary that has not been submitted yet
+  reference: string | null;
+  generatedAt?: Date;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+
+const BODY_SIZE = 10;
+const HEADING_SIZE = 12;
+const LINE_GAP = 4;
+const QUOTE_INDENT = 12;
+const MUTED = rgb(0.35, 0.35, 0.35);
+
+export function getClinicName(): string {
+  return process.env.CLINIC_NAME || 'Psychiatry Intake Assistant';
+}
+
+/**
+ * Replaces characters the standard PDF fonts cannot encode (WinAnsi only)
+ */
+function toEncodable(text: string, font: PDFFont): string {
+  return Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, '  '))
+    .map((ch) => {
+      if (ch === '\n') return ch;
+      try {
+        font.encodeText(ch);
+        return ch;
+      } catch {
+        return '?';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Wraps text to a width, keeping explicit line breaks and splitting words
+ * that are too long for a line on their own
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  const fits = (s: string) => font.widthOfTextAtSize(s, size) <= maxWidth;
+
+  toEncodable(text, font)
+    .split('\n')
+    .forEach((paragraph) => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (fits(candidate)) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        line = '';
+        while (!fits(word)) {
+          let cut = word.length - 1;
+          while (cut > 1 && !fits(word.slice(0, cut))) cut--;
+          lines.push(word.slice(0, cut));
+          word = word.slice(cut);
+        }
+        line = word;
+      });
+      lines.push(line);
+    });
+
+  return lines;
+}
+
+/**
+ * Renders the summary document and returns the PDF bytes
+ */
+export async function renderSummaryPDF(input: SummaryDocumentInput): Promise<Uint8Array> {
+  const { summary, phq9Responses, safetyEvents } = input;
+  const generatedAt = (input.generatedAt ?? new Date()).toISOString();
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Psychiatric Intake Summary${summary.name ? ` - ${summary.name}` : ''}`);
+  doc.setCreator(getClinicName());
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const writeLines = (lines: string[], font: PDFFont, size: number, x = MARGIN, color = rgb(0, 0, 0)) => {
+    lines.forEach((line) => {
+      ensureSpace(size + LINE_GAP);
+      y -= size;
+      page.drawText(line, { x, y, size, font, color });
+      y -= LINE_GAP;
+    });
+  };
+
+  const paragraph = (text: string, font = regular, size = BODY_SIZE) => {
+    writeLines(wrapText(text || 'Not reported', font, size, CONTENT_WIDTH), font, size);
+  };
+
+  // The patient's original-language words, indented under the English section
+  const quotes = (section: CitableSection) => {
+    summary.originalQuotes?.[section]?.forEach((quote) => {
+      const lines = wrapText(`“${quote}”`, regular, BODY_SIZE, CONTENT_WIDTH - QUOTE_INDENT);
+      writeLines(lines, regular, BODY_SIZE, MARGIN + QUOTE_INDENT, MUTED);
+    });
+  };
+
+  const heading = (text: string) => {
+    // Keep a heading on the same page as the first lines under it
+    ensureSpace(HEADING_SIZE + BODY_SIZE * 3);
+    y -= 10;
+    writeLines([toEncodable(text, bold)], bold, HEADING_SIZE);
+    page.drawLine({
+      start: { x: MARGIN, y: y + 1 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y + 1 },
+      thickness: 0.5,
+      color: MUTED,
+    });
+    y -= 4;
+  };
+
+  // Header: clinic, document title, and patient identifiers
+  writeLines([toEncodable(getClinicName(), bold)], bold, 16);
+  writeLines(['Psychiatric Intake Summary'], regular, 12, MARGIN, MUTED);
+  y -= 6;
+  [
+    `Patient: ${summary.name || 'Not provided'}`,
+    `Date of Birth: ${summary.dob || 'Not provided'}`,
+    `Reference: ${input.reference ?? 'Not yet submitted'}`,
+    `Generated: ${generatedAt}`,
+  ].forEach((line) => writeLines(wrapText(line, regular, BODY_SIZE, CONTENT_WIDTH), regular, BODY_SIZE));
+
+  // A risk flag or crisis language is stated first so it cannot be missed
+  const hasRiskFlag = !!summary.riskFlag && summary.riskFlag.level !== 'none';
+  if (hasRiskFlag || safetyEvents.length > 0) {
+    heading(RESULTS_HEADINGS.safety);
+    if (summary.riskFlag && hasRiskFlag) paragraph(formatRiskFlag(summary.riskFlag), bold);
+    if (safetyEvents.length > 0) {
+      paragraph('Crisis language detected during intake:', bold);
+      safetyEvents.forEach((event) => paragraph(`- ${formatSafetyEvent(event)}`));
+    }
+  }
+
+  heading('Patient Information');
+  [
+    ['Gender', summary.gender],
+    ['Pronouns', summary.pronouns],
+    ['Race/Ethnicity', summary.raceEthnicity],
+    ['Phone', summary.phone],
+    ['Email', summary.email],
+    ['Address', summary.address],
+    ['Emergency Contact', summary.emergencyContact],
+    ['Intake Language', getLanguageName(summary.language ?? DEFAULT_LANGUAGE)],
+  ].forEach(([label, value]) => paragraph(`${label}: ${value || 'Not provided'}`));
+
+  CITABLE_SECTIONS.filter((s) => s !== 'additionalNotes').forEach((section) => {
+    heading(SECTION_LABELS[section]);
+    paragraph(summary[section]);
+    quotes(section);
+  });
+
+  // PHQ-9 item table
+  heading(RESULTS_HEADINGS.phq9);
+  const answerX = MARGIN + CONTENT_WIDTH - 150;
+  const itemWidth = answerX - MARGIN - 30;
+  PHQ9.items.forEach((item, idx) => {
+    const value = phq9Responses[idx];
+    const option = getItemOptions(PHQ9, item).find((o) => o.value === value);
+    const itemLines = wrapText(`${idx + 1}. ${item.text}`, regular, BODY_SIZE, itemWidth);
+    ensureSpace(itemLines.length * (BODY_SIZE + LINE_GAP));
+    const rowTop = y;
+    writeLines(itemLines, regular, BODY_SIZE);
+    page.drawText(option ? `${option.label} (${option.value})` : 'Not answered', {
+      x: answerX,
+      y: rowTop - BODY_SIZE,
+      size: BODY_SIZE,
+      font: regular,
+    });
+  });
+  const phq9Total = scoreInstrument(PHQ9, phq9Responses);
+  y -= 4;
+  paragraph(
+    `Total: ${phq9Total} / ${getMaxScore(PHQ9)}    Severity: ${getSeverity(PHQ9, phq9Total)}`,
+    bold
+  );
+
+  const otherScores = summary.instrumentScores?.filter((s) => s.instrumentId !== 'phq9') ?? [];
+  if (otherScores.length > 0) {
+    heading(RESULTS_HEADINGS.otherInstruments);
+    otherScores.forEach((s) => paragraph(`${s.name}: ${s.score} / ${s.maxScore} (${s.severity})`));
+  }
+
+  if (summary.additionalNotes.trim()) {
+    heading(SECTION_LABELS.additionalNotes);
+    paragraph(summary.additionalNotes);
+    quotes('additionalNotes');
+  }
+
+  // Footer on every page
+  const pages = doc.getPages();
+  pages.forEach((p, idx) => {
+    p.drawText(`Generated ${generatedAt}  |  Page ${idx + 1} of ${pages.length}`, {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    });
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,163 @@
+/**
+ * PHI De-identification
+ *
+ * Replaces protected health information in model requests with consistent
+ * placeholders ([NAME_1], [PHONE_1], ...) and puts the real values back into
+ * model output. Everything here is pure and runs offline; the LLM layer applies
+ * it to every request (see lib/llm/deidentifying-provider.ts).
+ *
+ *   PHI_DEIDENTIFICATION   on | off (default: on)
+ *   PHI_RECOGNIZERS        comma-separated recognizers to run
+ *                          (default: name,date,phone,email,address,ssn,identifier)
+ */
+
+import { PHI_RECOGNIZERS } from '@/lib/phi/recognizers';
+import { PHIRecognizer, PHIType, PHIVault, RecognizerId } from '@/lib/phi/types';
+
+export * from '@/lib/phi/types';
+export { PHI_RECOGNIZERS } from '@/lib/phi/recognizers';
+
+export interface PHIConfig {
+  enabled: boolean;
+  recognizers: PHIRecognizer[];
+}
+
+interface TextMessage {
+  role: string;
+  content: string;
+}
+
+const PLACEHOLDER_PATTERN = /\[([A-Z]+_\d+)\]/g;
+
+// Longest possible placeholder, e.g. "[IDENTIFIER_999]"; used to hold back a partial one while streaming
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+export function isRecognizerId(value: string): value is RecognizerId {
+  return value in PHI_RECOGNIZERS;
+}
+
+/**
+ * Reads the de-identification configuration from environment variables
+ */
+export function getPHIConfig(): PHIConfig {
+  const configured = process.env.PHI_RECOGNIZERS;
+  const ids = configured
+    ? configured.split(',').map((id) => id.trim()).filter(Boolean)
+    : Object.keys(PHI_RECOGNIZERS);
+
+  ids.filter((id) => !isRecognizerId(id)).forEach((id) => console.warn(`Unknown PHI recognizer "${id}" ignored`));
+
+  return {
+    enabled: process.env.PHI_DEIDENTIFICATION !== 'off',
+    recognizers: ids.filter(isRecognizerId).map((id) => PHI_RECOGNIZERS[id]),
+  };
+}
+
+export function createPHIVault(): PHIVault {
+  return { placeholderFor: new Map(), valueOf: new Map(), counts: {} };
+}
+
+function register(vault: PHIVault, type: PHIType, value: string): void {
+  if (vault.placeholderFor.has(value)) return;
+
+  const count = (vault.counts[type] ?? 0) + 1;
+  vault.counts[type] = count;
+  const placeholder = `[${type.toUpperCase()}_${count}]`;
+  vault.placeholderFor.set(value, placeholder);
+  vault.valueOf.set(placeholder, value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replaces every value in the vault, longest first so a full name wins over its parts
+ */
+function replaceValues(text: string, vault: PHIVault): string {
+  if (vault.placeholderFor.size === 0) return text;
+
+  const alternatives = Array.from(vault.placeholderFor.keys())
+    .sort((a, b) => b.length - a.length)
+    .map((value) => `${/^\w/.test(value) ? '\\b' : ''}${escapeRegExp(value)}${/\w$/.test(value) ? '\\b' : ''}`);
+  const pattern = new RegExp(alternatives.join('|'), 'g');
+
+  return text.replace(pattern, (match) => vault.placeholderFor.get(match) ?? match);
+}
+
+/**
+ * Finds PHI across all messages and replaces it with placeholders. Messages
+ * are scanned together so a value gets the same placeholder everywhere.
+ * System messages are scanned too, since condensed conversation notes carry
+ * the patient's words there.
+ */
+export function deidentifyMessages<M extends TextMessage>(
+  messages: M[],
+  recognizers: PHIRecognizer[],
+  vault: PHIVault = createPHIVault()
+): { messages: M[]; vault: PHIVault } {
+  const transcript = messages
+    .map((msg) => `${msg.role}: ${msg.content}`)
+    .join('\n\n');
+
+  recognizers.forEach((recognizer) => {
+    recognizer.find(transcript).forEach((value) => register(vault, recognizer.type, value));
+  });
+
+  return {
+    messages: messages.map((msg) => ({ ...msg, content: replaceValues(msg.content, vault) })),
+    vault,
+  };
+}
+
+/**
+ * De-identifies a single piece of text
+ */
+export function deidentifyText(
+  text: string,
+  recognizers: PHIRecognizer[],
+  vault: PHIVault = createPHIVault()
+): { text: string; vault: PHIVault } {
+  const result = deidentifyMessages([{ role: 'user', content: text }], recognizers, vault);
+  return { text: result.messages[0].content, vault: result.vault };
+}
+
+/**
+ * Puts the real values back in place of placeholders. `encode` formats a value
+ * for its surroundings, e.g. JSON string escaping for JSON output.
+ */
+export function reidentify(text: string, vault: PHIVault, encode: (value: string) => string = (v) => v): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+    const value = vault.valueOf.get(placeholder);
+    return value === undefined ? placeholder : encode(value);
+  });
+}
+
+/**
+ * Escapes a value for use inside a JSON string
+ */
+export function encodeJSONString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+/**
+ * Re-identifies a text stream, holding back a placeholder split across chunks
+ * until it is complete
+ */
+export async function* reidentifyStream(stream: AsyncIterable<string>, vault: PHIVault): AsyncIterable<string> {
+  let pending = '';
+
+  for await (const chunk of stream) {
+    pending += chunk;
+
+    const open = pending.lastIndexOf('[');
+    const heldBack =
+      open >= 0 && pending.indexOf(']', open) === -1 && pending.length - open < MAX_PLACEHOLDER_LENGTH;
+    const ready = heldBack ? pending.slice(0, open) : pending;
+    pending = heldBack ? pending.slice(open) : '';
+
+    if (ready) yield reidentify(ready, vault);
+  }
+
+  if (pending) yield reidentify(pending, vault);
+}
@@ -0,0 +1,91 @@
+/**
+ * PHI Recognizer Tests
+ *
+ * Each recognizer against the phrasings an intake produces, and the
+ * de-identification of a chat transcript built from them.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PHI_RECOGNIZERS, deidentifyMessages, reidentify } from '@/lib/phi';
+
+const ALL_RECOGNIZERS = Object.values(PHI_RECOGNIZERS);
+
+function findNames(text: string): string[] {
+  return PHI_RECOGNIZERS.name.find(text);
+}
+
+describe('name recognizer', () => {
+  it('finds self-introductions with their parts', () => {
+    expect(findNames('user: Hi, my name is Jane Doe and I have been anxious.')).toEqual(['Jane Doe', 'Jane', 'Doe']);
+    expect(findNames('user: Me llamo Ana María López.')).toContain('Ana María López');
+  });
+
+  it('finds relatives and titled names', () => {
+    expect(findNames('user: My sister Mary lives with me.')).toContain('Mary');
+    expect(findNames('user: My therapist is Dr. Okafor.')).toContain('Okafor');
+    expect(findNames('user: Mi hermana se llama Rosa.')).toContain('Rosa');
+  });
+
+  it('finds the name that opens an answer to a name question, however long the answer', () => {
+    const text =
+      'assistant: Thank you. What is your full name?\n\n' +
+      'user: Will Smith. My phone is 555-123-4567 and I live at 12 Main Street, and I work nights at the hospital downtown.';
+
+    expect(findNames(text)).toEqual(['Will Smith', 'Will', 'Smith']);
+  });
+
+  it('skips the words an answer opens with', () => {
+    expect(findNames("assistant: What should I call you?\n\nuser: Sure, it's Sam Lee.")).toContain('Sam Lee');
+    expect(findNames("assistant: What's your name?\n\nuser: I'm Priya.")).toContain('Priya');
+    expect(findNames('assistant: ¿Cuál es su nombre?\n\nuser: Soy Lucía Torres, tengo 30 años.')).toContain('Lucía Torres');
+  });
+
+  it('reads answers in a numbered transcript', () => {
+    const text = '[3] assistant: Who is your emergency contact?\n\n[4] user: Maria Gomez, my aunt, at 555-201-9988.';
+    expect(findNames(text)).toContain('Maria Gomez');
+  });
+
+  it('does not take capitalized words from the rest of the answer', () => {
+    const names = findNames(
+      'assistant: What is your full name?\n\nuser: Will Smith. I moved here from Ohio and work at Target.'
+    );
+    expect(names).not.toContain('Ohio');
+    expect(names).not.toContain('Target');
+  });
+
+  it('ignores answers to other questions', () => {
+    expect(findNames('assistant: What brings you in today?\n\nuser: Anxiety, mostly at work.')).toEqual([]);
+  });
+});
+
+describe('other recognizers', () => {
+  it.each([
+    ['date', 'I was born on 03/14/1983, or March 14, 1983.', ['03/14/1983', 'March 14, 1983']],
+    ['phone', 'Call me at (555) 201-4433 or 555.318.9021.', ['(555) 201-4433', '555.318.9021']],
+    ['email', 'Email jane.doe+intake@example.org please.', ['jane.doe+intake@example.org']],
+    ['address', 'I live at 12 Main Street, Apt 4B, Springfield, IL 62704.', ['12 Main Street, Apt 4B, Springfield, IL 62704']],
+    ['ssn', 'My SSN is 123-45-6789.', ['123-45-6789']],
+    ['identifier', 'My MRN: A1234567 is on the card.', ['A1234567']],
+  ] as const)('%s recognizer', (id, text, expected) => {
+    expect(PHI_RECOGNIZERS[id].find(text)).toEqual(expect.arrayContaining([...expected]));
+  });
+});
+
+describe('deidentifyMessages', () => {
+  it('replaces a long answer to the name question and restores it', () => {
+    const messages = [
+      { role: 'assistant', content: 'What is your full name?' },
+      {
+        role: 'user',
+        content: 'Will Smith. My phone is 555-123-4567 and I live at 12 Main Street in Springfield.',
+      },
+      { role: 'assistant', content: 'Thanks, Will. When did this start?' },
+    ];
+
+    const { messages: deidentified, vault } = deidentifyMessages(messages, ALL_RECOGNIZERS);
+
+    expect(deidentified[1].content).toBe('[NAME_1]. My phone is [PHONE_1] and I live at [ADDRESS_1] in Springfield.');
+    expect(deidentified[2].content).toBe('Thanks, [NAME_2]. When did this start?');
+    deidentified.forEach((msg, idx) => expect(reidentify(msg.content, vault)).toBe(messages[idx].content));
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * PHI Recognizers
+ *
+ * Pattern-based recognizers for the identifiers an intake conversation collects.
+ * Names are found from context (self-introductions, relatives, titles, and
+ * answers to a question asking for a name) since they have no fixed format.
+ * Context cues cover every intake language.
+ */
+
+import { PHIRecognizer, RecognizerId } from '@/lib/phi/types';
+
+const MONTHS =
+  'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+
+const STREET_SUFFIXES = [
+  'Street', 'St', 'Avenue', 'Ave', 'Road', 'Rd', 'Boulevard', 'Blvd', 'Lane', 'Ln', 'Drive', 'Dr',
+  'Court', 'Ct', 'Way', 'Place', 'Pl', 'Terrace', 'Ter', 'Circle', 'Cir', 'Highway', 'Hwy', 'Parkway', 'Pkwy',
+];
+
+// Either case for the first letter, so "Main street" and "Main Street" both match
+const STREET_SUFFIX = STREET_SUFFIXES.map((s) => `[${s[0]}${s[0].toLowerCase()}]${s.slice(1)}`).join('|');
+
+const RELATIONS =
+  'mother|mom|father|dad|sister|brother|wife|husband|partner|boyfriend|girlfriend|fianc[eé]e?|son|daughter|' +
+  'friend|aunt|uncle|grandmother|grandma|grandfather|grandpa|cousin|roommate|therapist|psychiatrist|doctor|counselor';
+
+const RELATIONS_ES =
+  'madre|mam[aá]|padre|pap[aá]|hermana|hermano|esposa|esposo|pareja|novia|novio|hija|hijo|amiga|amigo|t[ií]a|t[ií]o|' +
+  'abuela|abuelo|prima|primo|terapeuta|psiquiatra|m[eé]dica|m[eé]dico|doctora|doctor|consejera|consejero';
+
+// Capitalized words that follow name cues but are not names
+const NOT_NAMES = new Set([
+  'I', 'It', "It's", 'Its', 'My', 'The', 'A', 'An', 'And', 'But', 'Just', 'Yes', 'No', 'Not', 'Sure', 'Well', 'Hi',
+  'Hello', 'Thanks', 'Thank', 'Okay', 'Ok', 'Dr', 'Mr', 'Mrs', 'Ms', 'Miss', 'Mx', 'Is', 'Name', 'Call', 'Me',
+  'Mi', 'Es', 'Se', 'Llamo', 'Hola', 'Gracias', 'Bueno', 'Pues', 'Dra', 'Sr', 'Sra', 'Srta',
+]);
+
+// Words an answer may open with before the name itself: "Sure, it's Jane Doe", "Soy Ana"
+const ANSWER_OPENER =
+  "(?:(?:Yes|Yeah|Sure|Okay|Ok|S[ií]|Claro|Bueno|Pues)[,.!]?\\s+)?(?:(?:[Ii]t'?s|[Ii]t is|I'?m|I am|[Tt]his is|[Ss]oy|[Ee]s)\\s+)?";
+
+const NAME_WORD = "[A-ZÁÉÍÓÚÑ][a-záéíóúñü]+(?:[-'][A-ZÁÉÍÓÚÑ]?[a-záéíóúñü]+)?";
+
+/**
+ * Collects every match of a pattern, taking the given capture group
+ */
+function matchAll(text: string, pattern: RegExp, group = 0): string[] {
+  const values: string[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (match[group]) values.push(match[group].trim());
+  }
+  return values;
+}
+
+/**
+ * Drops leading and trailing words that are not part of a name
+ */
+function cleanName(candidate: string): string | null {
+  const words = candidate.split(/\s+/).filter(Boolean);
+  while (words.length > 0 && NOT_NAMES.has(words[0])) words.shift();
+  while (words.length > 0 && NOT_NAMES.has(words[words.length - 1])) words.pop();
+  return words.length > 0 ? words.join(' ') : null;
+}
+
+/**
+ * A full name and its parts, so "Jane" is replaced when "Jane Doe" was given
+ */
+function withNameParts(names: string[]): string[] {
+  const values = new Set<string>();
+  names.forEach((name) => {
+    values.add(name);
+    name.split(/\s+/).filter((part) => part.length > 2 && !NOT_NAMES.has(part)).forEach((part) => values.add(part));
+  });
+  return Array.from(values);
+}
+
+const nameRecognizer: PHIRecognizer = {
+  id: 'name',
+  type: 'name',
+  find: (text) => {
+    const name = `(${NAME_WORD}(?:\\s+${NAME_WORD}){0,3})`;
+    const candidates = [
+      // "My name is Jane Doe", "call me Jane", "me llamo Ana"
+      ...matchAll(
+        text,
+        new RegExp(`\\b(?:[Mm]y (?:full |legal |first |last )?name is|[Nn]ame's|[Cc]all me|I go by|[Mm]e llamo|[Mm]i nombre (?:completo )?es)\\s+${name}`),
+        1
+      ),
+      // "my sister Mary", "my therapist is Dr. Lee", "mi hermana se llama Rosa"
+      ...matchAll(text, new RegExp(`\\b[Mm]y (?:${RELATIONS})(?:'s name is| is| named|,)?\\s+(?:Dr\\.?\\s+)?${name}`), 1),
+      ...matchAll(text, new RegExp(`\\b[Mm]i (?:${RELATIONS_ES})(?: se llama| es|,)?\\s+(?:Dra?\\.?\\s+)?${name}`), 1),
+      // "Dr. Lee", "Mrs. Alvarez", "Sra. Gómez"
+      ...matchAll(text, new RegExp(`\\b(?:Dr|Mr|Mrs|Ms|Mx|Dra|Sr|Sra|Srta)\\.?\\s+${name}`), 1),
+      // The name an answer to a name question starts with: "Will Smith. My phone is ..."
+      ...matchAll(
+        text,
+        /(?:your (?:full |legal |preferred )?name|what should I call you|emergency contact|su nombre|c[oó]mo se llama|contacto de emergencia)[^\n]*\?[^\n]*\n\n(?:\[\d+\] )?user: ([^\n]+)/i,
+        1
+      ).flatMap((answer) => matchAll(answer, new RegExp(`^${ANSWER_OPENER}${name}`), 1)),
+    ];
+
+    return withNameParts(
+      candidates.map(cleanName).filter((value): value is string => value !== null)
+    );
+  },
+};
+
+const dateRecognizer: PHIRecognizer = {
+  id: 'date',
+  type: 'date',
+  find: (text) => [
+    ...matchAll(text, /\b\d{1,2}[/-]\d{1,2}[/-](?:\d{4}|\d{2})\b/),
+    ...matchAll(text, /\b\d{4}-\d{2}-\d{2}\b/),
+    ...matchAll(text, new RegExp(`\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`)),
+    ...matchAll(text, new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?(?:${MONTHS})\\.?,?\\s+\\d{4}\\b`)),
+  ],
+};
+
+const phoneRecognizer: PHIRecognizer = {
+  id: 'phone',
+  type: 'phone',
+  find: (text) => [
+    ...matchAll(text, /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/),
+    ...matchAll(text, /\b\d{3}-\d{4}\b/),
+  ],
+};
+
+const emailRecognizer: PHIRecognizer = {
+  id: 'email',
+  type: 'email',
+  find: (text) => matchAll(text, /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/),
+};
+
+const addressRecognizer: PHIRecognizer = {
+  id: 'address',
+  type: 'address',
+  find: (text) =>
+    matchAll(
+      text,
+      new RegExp(
+        `\\b\\d{1,6}\\s+(?:[A-Z0-9][A-Za-z0-9.'-]*\\s+){1,4}(?:${STREET_SUFFIX})\\b\\.?` +
+          // Unit, then city, state, and ZIP when given
+          `(?:,?\\s+(?:Apt|Apartment|Unit|Suite|Ste|#)\\.?\\s*[A-Za-z0-9-]+)?` +
+          `(?:,\\s*[A-Z][A-Za-z.'-]*(?:\\s+[A-Z][A-Za-z.'-]*){0,2})?(?:,?\\s+[A-Z]{2})?(?:\\s+\\d{5}(?:-\\d{4})?)?`
+      )
+    ),
+};
+
+const ssnRecognizer: PHIRecognizer = {
+  id: 'ssn',
+  type: 'ssn',
+  find: (text) => matchAll(text, /\b\d{3}-\d{2}-\d{4}\b/),
+};
+
+const identifierRecognizer: PHIRecognizer = {
+  id: 'identifier',
+  type: 'identifier',
+  find: (text) =>
+    matchAll(
+      text,
+      /\b(?:MRN|[Mm]edical record(?: number)?|[Mm]ember (?:ID|number)|[Ii]nsurance (?:ID|number)|[Pp]olicy (?:number|#))[:#\s]+(?:is\s+)?([A-Z0-9][A-Z0-9-]{4,})\b/,
+      1
+    ),
+};
+
+export const PHI_RECOGNIZERS: Record<RecognizerId, PHIRecognizer> = {
+  name: nameRecognizer,
+  date: dateRecognizer,
+  phone: phoneRecognizer,
+  email: emailRecognizer,
+  address: addressRecognizer,
+  ssn: ssnRecognizer,
+  identifier: identifierRecognizer,
+};
@@ -0,0 +1,31 @@
+/**
+ * PHI Types
+ *
+ * Recognizers find protected health information in text; the vault maps each
+ * value found to the placeholder the model sees in its place.
+ */
+
+export type PHIType = 'name' | 'date' | 'phone' | 'email' | 'address' | 'ssn' | 'identifier';
+
+export type RecognizerId = 'name' | 'date' | 'phone' | 'email' | 'address' | 'ssn' | 'identifier';
+
+export interface PHIRecognizer {
+  id: RecognizerId;
+  type: PHIType;
+  /**
+   * Returns the PHI values found in the text. The text is the whole request as
+   * a transcript ("role: content" blocks), so a recognizer can use the question
+   * a patient message answers as context.
+   */
+  find: (text: string) => string[];
+}
+
+/**
+ * Placeholders issued for one model request. Values are replaced exactly as
+ * found, and the same value always gets the same placeholder.
+ */
+export interface PHIVault {
+  placeholderFor: Map<string, string>;
+  valueOf: Map<string, string>;
+  counts: Partial<Record<PHIType, number>>;
+}
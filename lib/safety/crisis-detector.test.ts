@@ -0,0 +1,130 @@
+/**
+ * Crisis Detector Tests
+ *
+ * Lexicon coverage for each category, and denials that must not raise an alert.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Language } from '@/lib/i18n';
+import { CrisisCategory, classifyCrisisRisk, detectCrisisLanguage } from '@/lib/safety/crisis-detector';
+
+function categoryOf(text: string, language: Language = 'en'): CrisisCategory | null {
+  return detectCrisisLanguage(text, language).category;
+}
+
+describe('detectCrisisLanguage', () => {
+  it.each<[string, CrisisCategory]>([
+    ["I'm going to kill myself tonight", 'imminent'],
+    ['I took all my pills', 'imminent'],
+    ['I have a plan to end my life', 'plan'],
+    ['I wrote a suicide note', 'plan'],
+    ["I'm gonna end it", 'intent'],
+    ['im going to end it all', 'intent'],
+    ['i want to kms', 'intent'],
+    ["I'll kill myself", 'intent'],
+    ['I want to die', 'ideation'],
+    ['honestly i just wanna die', 'ideation'],
+    ['kms', 'ideation'],
+    ["I've been suicidal for weeks", 'ideation'],
+    ["Sometimes I don't want to wake up", 'ideation'],
+    ["I can't go on anymore", 'ideation'],
+    ['I have no job and I want to die', 'ideation'],
+    ["I told them I'm not suicidal, but I am suicidal", 'ideation'],
+    ['honestly no one cares I want to kill myself', 'intent'],
+    ["no one knows I'm suicidal", 'ideation'],
+    ['I never told anyone I want to die', 'ideation'],
+    ['I have no energy I want to die', 'ideation'],
+  ])('detects "%s" as %s', (text, category) => {
+    expect(categoryOf(text)).toBe(category);
+  });
+
+  it('reads curly apostrophes as straight ones', () => {
+    expect(categoryOf('I’m gonna end it')).toBe('intent');
+    expect(categoryOf('I’m not suicidal')).toBeNull();
+  });
+
+  it.each([
+    "I'm not suicidal",
+    'I have never been suicidal',
+    "I don't want to die",
+    "I'm not going to kill myself",
+    "I'm not going to kill myself tonight",
+    "I don't have a plan to kill myself",
+    'I would never kms',
+    'No thoughts of suicide',
+    'Denies suicidal ideation',
+  ])('does not flag the denial "%s"', (text) => {
+    expect(detectCrisisLanguage(text)).toEqual({
+      detected: false,
+      category: null,
+      level: 'none',
+      source: null,
+      matches: [],
+    });
+  });
+
+  it.each([
+    "I'm going to end it with my boyfriend",
+    'The movie was to die for',
+    'My back is killing me',
+  ])('does not flag the everyday phrase "%s"', (text) => {
+    expect(categoryOf(text)).toBeNull();
+  });
+
+  it('reports the risk level for the category', () => {
+    expect(detectCrisisLanguage('I want to die').level).toBe('moderate');
+    expect(detectCrisisLanguage('i want to kms').level).toBe('high');
+  });
+});
+
+describe('detectCrisisLanguage in Spanish', () => {
+  it.each<[string, CrisisCategory]>([
+    ['Voy a matarme esta noche', 'imminent'],
+    ['Me tomé todas las pastillas', 'imminent'],
+    ['Tengo un plan para quitarme la vida', 'plan'],
+    ['Escribí una carta de despedida', 'plan'],
+    ['Quiero matarme', 'intent'],
+    ['me voy a suicidar', 'intent'],
+    ['Me quiero morir', 'ideation'],
+    ['A veces quisiera estar muerta', 'ideation'],
+    ['He tenido pensamientos suicidas', 'ideation'],
+    ['Ya no quiero vivir', 'ideation'],
+    ['No tengo trabajo y me quiero morir', 'ideation'],
+    ['no duermo quiero morir', 'ideation'],
+  ])('detects "%s" as %s', (text, category) => {
+    expect(categoryOf(text, 'es')).toBe(category);
+  });
+
+  it.each([
+    'No quiero matarme',
+    'No me quiero morir',
+    'Nunca he pensado en suicidarme',
+    'No tengo pensamientos suicidas',
+    'Jamás me haría daño',
+    'No tengo un plan para matarme',
+    'No voy a matarme hoy',
+  ])('does not flag the denial "%s"', (text) => {
+    expect(categoryOf(text, 'es')).toBeNull();
+  });
+
+  it('does not flag everyday phrases', () => {
+    expect(categoryOf('Me corto el pelo cada mes', 'es')).toBeNull();
+    expect(categoryOf('Tengo una preocupación por el trabajo', 'es')).toBeNull();
+  });
+
+  it('falls back to the English lexicon when the patient switches language', () => {
+    expect(categoryOf("Honestly I'm gonna end it", 'es')).toBe('intent');
+  });
+});
+
+describe('classifyCrisisRisk', () => {
+  it('returns the lexicon result without a provider', async () => {
+    const detection = await classifyCrisisRisk("I'm gonna end it", 'en');
+    expect(detection).toMatchObject({ detected: true, category: 'intent', source: 'lexicon' });
+  });
+
+  it('screens in the conversation language', async () => {
+    const detection = await classifyCrisisRisk('me quiero morir', 'es');
+    expect(detection).toMatchObject({ detected: true, category: 'ideation', source: 'lexicon' });
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Crisis Language Detector
+ *
+ * Server-side risk classifier that runs on each patient message before it reaches
+ * the intake agent. Uses a local lexicon in the patient's language, optionally
+ * backed by model scoring, to catch suicidal ideation, intent, plan, or imminent danger.
+ */
+
+import type { LLMProvider } from '@/lib/llm/types';
+import { Language } from '@/lib/i18n';
+import { RiskLevel } from '@/lib/safety/suicide-risk';
+
+export type CrisisCategory = 'ideation' | 'intent' | 'plan' | 'imminent';
+
+export interface CrisisDetection {
+  detected: boolean;
+  category: CrisisCategory | null;
+  level: RiskLevel;
+  source: 'lexicon' | 'model' | null;
+  matches: string[];
+}
+
+/**
+ * Structured event sent to the client when crisis language is detected
+ */
+export interface SafetyEvent {
+  type: 'crisis_detected';
+  category: CrisisCategory;
+  level: RiskLevel;
+  source: 'lexicon' | 'model';
+  detectedAt: string;
+}
+
+/**
+ * Fixed response streamed in place of the intake turn when crisis language is
+ * detected, in the patient's language
+ */
+export const CRISIS_RESPONSE_MESSAGES: Record<Language, string> = {
+  en: `I'm really glad you told me this, and I want to make sure you're safe right now.
+
+If you are thinking about ending your life or hurting yourself, please reach out for help immediately:
+- Call or text 988 to reach the Suicide & Crisis Lifeline (24/7)
+- Text HOME to 741741 to reach the Crisis Text Line
+- If you are in immediate danger, call 911 or go to your nearest emergency room
+
+This assessment is not an emergency service, and I can't send help to you. Please contact one of these services now. When you're safe and ready, we can continue.`,
+  es: `Me alegra mucho que me lo haya contado, y quiero asegurarme de que esté a salvo en este momento.
+
+Si está pensando en quitarse la vida o en hacerse daño, busque ayuda de inmediato:
+- Llame o envíe un mensaje de texto al 988 para comunicarse con la Línea 988 de Prevención del Suicidio y Crisis (24/7; oprima 2 para español)
+- Envíe AYUDA al 741741, o escriba por WhatsApp al 442-AYUDAME, para comunicarse con Crisis Text Line en español
+- Si está en peligro inmediato, llame al 911 o vaya a la sala de emergencias más cercana
+
+Esta evaluación no es un servicio de emergencias y no puedo enviarle ayuda. Comuníquese ahora con uno de estos servicios. Cuando esté a salvo y listo(a), podemos continuar.`,
+};
+
+const CATEGORY_LEVELS: Record<CrisisCategory, RiskLevel> = {
+  ideation: 'moderate',
+  intent: 'high',
+  plan: 'high',
+  imminent: 'high',
+};
+
+interface CrisisLexicon {
+  /** Patterns per category, ordered from most to least severe */
+  categories: Array<{ category: CrisisCategory; patterns: RegExp[] }>;
+  /**
+   * A negation that governs an ideation match, i.e. is followed only by verbs
+   * and function words up to it ("I have never been suicidal", "I don't have a
+   * plan to kill myself"). Any other word, such as a subject, ends it, so "no one
+   * knows I'm suicidal" and "I have no energy I want to die" are still detected.
+   * Intent, plan, and imminent matches are never treated as denied; their
+   * patterns are written so a negated statement does not match them.
+   */
+  negation: RegExp;
+}
+
+/**
+ * Crisis lexicon per language. Apostrophes and accents are optional where
+ * patients commonly leave them out when typing on a phone.
+ */
+const CRISIS_LEXICON: Record<Language, CrisisLexicon> = {
+  en: {
+    categories: [
+      {
+        category: 'imminent',
+        patterns: [
+          /\b(i'?m|i am) (going to|gonna|about to) (kill myself|kms|end (it|my life)|take my (own )?life)\b.*\b(now|tonight|today)\b/i,
+          /\b(took|swallowed|have taken) (all|a bunch of|too many) (my )?(pills|meds|medications?)\b/i,
+          /\b(this is|these are) my (last|final) (words|message|goodbye)\b/i,
+          /\b(i'?m|i am) (standing|sitting) on (the|a) (ledge|edge|bridge|roof)\b/i,
+        ],
+      },
+      {
+        category: 'plan',
+        patterns: [
+          /\b(i have|i'?ve got|i made|i'?ve made) a plan to (kill myself|kms|die|end (it|my life))\b/i,
+          /\b(i|i'?m|i am|i'?ve been) plan(ning)? (to|on) (kill(ing)? myself|kms|end(ing)? (it|my life)|take my (own )?life)\b/i,
+          /\b(bought|got|have) (a gun|the pills|a rope)\b.*\b(kill myself|kms|end (it|my life)|die)\b/i,
+          /\b(wrote|written|writing) (a|my) (suicide|goodbye) note\b/i,
+        ],
+      },
+      {
+        category: 'intent',
+        patterns: [
+          // A bare "end it" counts here, but not "end it with" someone
+          /\b(i'?m|i am) (going to|gonna) (kill myself|kms|end (it( all)?|my life)(?! with\b)|take my (own )?life)\b/i,
+          /\bi (will|want to|wanna|intend to) (kill myself|kms|end my life|end it all|take my (own )?life|hurt myself)\b/i,
+          /\bi'?ll (kill myself|kms|end my life|end it all|take my (own )?life)\b/i,
+          /\b(i'?m|i am) (ready|done) to die\b/i,
+        ],
+      },
+      {
+        category: 'ideation',
+        patterns: [
+          /\b(suicidal|suicide)\b/i,
+          /\bkill(ing)? myself\b/i,
+          /\bkms\b/i,
+          /\bunalive (myself|me)\b/i,
+          /\bend(ing)? (it all|my life)\b/i,
+          /\b((want|wish|wishing) to|wanna) die\b/i,
+          /\b(want|wish|wishing) (i was|i were|to be) dead\b/i,
+          /\b(don'?t|do not) want to (live|be alive|exist|wake up)\b/i,
+          /\bbetter off dead\b/i,
+          /\b(hurt|harm|cut|cutting) myself\b/i,
+          /\bno reason to (live|go on)\b/i,
+          /\b(can'?t|cannot) go on (anymore|any more|living)\b/i,
+        ],
+      },
+    ],
+    negation:
+      /\b(not|never|no|don'?t|didn'?t|doesn'?t|haven'?t|hasn'?t|wouldn'?t|won'?t|denies|deny|denied)(\s+(have|has|had|having|feel|felt|feeling|want|wanted|wanna|be|been|being|ever|really|going|gonna|to|a|any|thoughts?|of|plans?|intentions?|urges?|think|thinking|thought|about|would|will))*\s*$/i,
+  },
+  // \b only sees ASCII letters, so it is not used next to accented letters.
+  // Spanish drops the subject, so intent, plan, and imminent patterns look
+  // behind for a negation directly before the verb ("No quiero matarme").
+  es: {
+    categories: [
+      {
+        category: 'imminent',
+        patterns: [
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\b(voy a|estoy a punto de) (matarme|suicidarme|quitarme la vida|acabar con (todo|mi vida))\b.*\b(ahora|esta noche|hoy)\b/i,
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\bme voy a (matar|suicidar|quitar la vida)\b.*\b(ahora|esta noche|hoy)\b/i,
+          /\b(me )?(tom[eé]|trag[uú][eé]|he tomado) (todas (mis|las)|un mont[oó]n de|demasiadas) (pastillas|medicinas|medicamentos)\b/i,
+          /\b(estas son|este es) mis? ([uú]ltimas palabras|[uú]ltimo mensaje|despedida)/i,
+          /\bestoy (parad[oa]|sentad[oa]) en (el|la|un|una) (borde|puente|azotea|techo|cornisa)\b/i,
+        ],
+      },
+      {
+        category: 'plan',
+        patterns: [
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\btengo un plan para (matarme|suicidarme|quitarme la vida|morir|acabar con (todo|mi vida))/i,
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\b(planeo|estoy planeando|planeando) (matarme|suicidarme|quitarme la vida|acabar con mi vida)/i,
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\b(compr[eé]|consegu[ií]|tengo) (un arma|una pistola|las pastillas|una cuerda)\b.*\b(matarme|suicidarme|quitarme la vida|morir)\b/i,
+          /\b(escrib[ií]|he escrito|estoy escribiendo) (una|mi) (nota|carta) (de suicidio|de despedida|suicida)/i,
+        ],
+      },
+      {
+        category: 'intent',
+        patterns: [
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\b(quiero|pienso|voy a) (matarme|suicidarme|quitarme la vida|acabar con (todo|mi vida))/i,
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\bme (quiero|voy a) (matar|suicidar|quitar la vida)\b/i,
+          /(?<!(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco)\s)\bestoy (list[oa]|decidid[oa]) (para|a) morir/i,
+        ],
+      },
+      {
+        category: 'ideation',
+        patterns: [
+          /\bsuicid/i,
+          /\bmatarme\b/i,
+          /\bquitarme la vida\b/i,
+          /\bacabar con mi vida\b/i,
+          /\b(me quiero|quiero|quisiera|deseo) morir(me)?\b/i,
+          /\b(quisiera|desear[ií]a|ojal[aá]) (estar muert[oa]|no (haber nacido|despertar))/i,
+          /\bno quiero (vivir|seguir viviendo|despertar|existir)\b/i,
+          /\bmejor muert[oa]\b/i,
+          /\b(hacerme|me hago|me hice) da[nñ]o\b/i,
+          /\b(cortarme|me corto|me cort[eé]) (las venas|los brazos|las piernas|las mu[nñ]ecas)\b/i,
+          /\bno tengo (razones|motivos|raz[oó]n|motivo) para (vivir|seguir)/i,
+          /\bya no (puedo|aguanto) m[aá]s\b/i,
+        ],
+      },
+    ],
+    negation:
+      /(^|[\s¿¡])(no|nunca|jam[aá]s|tampoco|niego|niega)(\s+(me|he|ha|tengo|tiene|tenido|siento|sentido|quiero|pienso|pensado|pensamientos?|ideas?|ganas|deseos?|de|en|un|una|plan|para|ning[uú]na?|voy|a|har[ií]a|estoy))*\s*$/i,
+  },
+};
+
+/**
+ * Returns the first occurrence of a pattern that the negation does not govern,
+ * so an earlier denial does not hide a later admission
+ */
+function findAffirmed(text: string, pattern: RegExp, negation: RegExp | null): string | null {
+  const global = new RegExp(pattern.source, `${pattern.flags}g`);
+  let match: RegExpExecArray | null;
+
+  while ((match = global.exec(text)) !== null) {
+    if (!negation || !negation.test(text.slice(0, match.index))) return match[0];
+  }
+
+  return null;
+}
+
+function detectWithLexicon(text: string, lexicon: CrisisLexicon): CrisisDetection {
+  for (const { category, patterns } of lexicon.categories) {
+    const negation = category === 'ideation' ? lexicon.negation : null;
+    const matches: string[] = [];
+
+    for (const pattern of patterns) {
+      const match = findAffirmed(text, pattern, negation);
+      if (match) matches.push(match);
+    }
+
+    if (matches.length > 0) {
+      return {
+        detected: true,
+        category,
+        level: CATEGORY_LEVELS[category],
+        source: 'lexicon',
+        matches,
+      };
+    }
+  }
+
+  return { detected: false, category: null, level: 'none', source: null, matches: [] };
+}
+
+/**
+ * Classifies a single message using the lexicon for the conversation language.
+ * Patients often switch to English mid-conversation, so other languages fall
+ * back to the English lexicon when their own finds nothing.
+ */
+export function detectCrisisLanguage(text: string, language: Language = 'en'): CrisisDetection {
+  // Phone keyboards type curly apostrophes ("I’m"); the patterns expect straight ones
+  const normalized = text.replace(/[\u2018\u2019]/g, "'");
+
+  const detection = detectWithLexicon(normalized, CRISIS_LEXICON[language]);
+  if (detection.detected || language === 'en') return detection;
+
+  return detectWithLexicon(normalized, CRISIS_LEXICON.en);
+}
+
+/**
+ * Checks whether optional model scoring is enabled
+ */
+export function isModelScoringEnabled(): boolean {
+  return process.env.CRISIS_MODEL_SCORING === 'true';
+}
+
+/**
+ * Scores a message with the provider's self-harm classifier.
+ * Returns a non-detection if the model call fails so the lexicon result stands.
+ */
+export async function scoreCrisisWithModel(
+  provider: LLMProvider,
+  text: string
+): Promise<CrisisDetection> {
+  try {
+    const score = await provider.scoreSelfHarm?.(text);
+
+    if (score?.intent) {
+      return { detected: true, category: 'intent', level: 'high', source: 'model', matches: [] };
+    }
+    if (score?.selfHarm) {
+      return { detected: true, category: 'ideation', level: 'moderate', source: 'model', matches: [] };
+    }
+  } catch (error) {
+    console.error('Crisis model scoring error:', error);
+  }
+
+  return { detected: false, category: null, level: 'none', source: null, matches: [] };
+}
+
+/**
+ * Runs the lexicon and, when enabled, model scoring on a message.
+ * The lexicon result wins when both detect; model scoring only runs on lexicon misses.
+ */
+export async function classifyCrisisRisk(
+  text: string,
+  language: Language,
+  provider?: LLMProvider
+): Promise<CrisisDetection> {
+  const lexiconResult = detectCrisisLanguage(text, language);
+  if (lexiconResult.detected || !provider?.scoreSelfHarm || !isModelScoringEnabled()) {
+    return lexiconResult;
+  }
+
+  return scoreCrisisWithModel(provider, text);
+}
+
+/**
+ * Formats a safety event as one line for notes and documents,
+ * e.g. "Imminent (high risk, lexicon) at 2026-03-02T15:04:05.000Z"
+ */
+export function formatSafetyEvent(event: SafetyEvent): string {
+  const category = event.category.charAt(0).toUpperCase() + event.category.slice(1);
+  return `${category} (${event.level} risk, ${event.source}) at ${event.detectedAt}`;
+}
+
+/**
+ * Builds the client-facing safety event for a positive detection
+ */
+export function createSafetyEvent(detection: CrisisDetection): SafetyEvent | null {
+  if (!detection.detected || !detection.category || !detection.source) return null;
+
+  return {
+    type: 'crisis_detected',
+    category: detection.category,
+    level: detection.level,
+    source: detection.source,
+    detectedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Suicide Risk Screening
+ *
+ * Columbia Suicide Severity Rating Scale (C-SSRS) style screener used as a
+ * structured follow-up whenever PHQ-9 item 9 is answered with a non-zero value.
+ * Produces a risk flag that is carried through the assessment and summary.
+ */
+
+export type RiskLevel = 'none' | 'low' | 'moderate' | 'high';
+
+export type CSSRSQuestionId =
+  | 'wish_dead'
+  | 'suicidal_thoughts'
+  | 'method'
+  | 'intent'
+  | 'plan'
+  | 'behavior'
+  | 'behavior_recent';
+
+export interface CSSRSQuestion {
+  id: CSSRSQuestionId;
+  text: string;
+  /** Risk level implied by a "yes" answer */
+  riskIfYes: RiskLevel;
+  /** Whether the question should be asked given the answers so far */
+  isApplicable: (answers: CSSRSAnswers) => boolean;
+}
+
+export type CSSRSAnswers = Partial<Record<CSSRSQuestionId, boolean>>;
+
+export interface CSSRSResponse {
+  questionId: CSSRSQuestionId;
+  question: string;
+  answer: boolean;
+}
+
+export interface RiskFlag {
+  level: RiskLevel;
+  phq9Item9: number;
+  cssrsResponses: CSSRSResponse[];
+  reasons: string[];
+  flaggedAt: string;
+}
+
+/**
+ * Index of the PHQ-9 item asking about thoughts of self-harm
+ */
+export const PHQ9_SELF_HARM_ITEM_INDEX = 8;
+
+/**
+ * C-SSRS screener questions, asked in order. Questions 3-5 are only asked
+ * when suicidal thoughts are endorsed; the recency question only follows
+ * a reported suicidal behavior.
+ */
+export const CSSRS_QUESTIONS: CSSRSQuestion[] = [
+  {
+    id: 'wish_dead',
+    text: 'In the past month, have you wished you were dead or wished you could go to sleep and not wake up?',
+    riskIfYes: 'low',
+    isApplicable: () => true,
+  },
+  {
+    id: 'suicidal_thoughts',
+    text: 'In the past month, have you actually had any thoughts of killing yourself?',
+    riskIfYes: 'low',
+    isApplicable: () => true,
+  },
+  {
+    id: 'method',
+    text: 'Have you been thinking about how you might do this?',
+    riskIfYes: 'moderate',
+    isApplicable: (answers) => answers.suicidal_thoughts === true,
+  },
+  {
+    id: 'intent',
+    text: 'Have you had these thoughts and had some intention of acting on them?',
+    riskIfYes: 'high',
+    isApplicable: (answers) => answers.suicidal_thoughts === true,
+  },
+  {
+    id: 'plan',
+    text: 'Have you started to work out or worked out the details of how to kill yourself? Do you intend to carry out this plan?',
+    riskIfYes: 'high',
+    isApplicable: (answers) => answers.suicidal_thoughts === true,
+  },
+  {
+    id: 'behavior',
+    text: 'Have you ever done anything, started to do anything, or prepared to do anything to end your life?',
+    riskIfYes: 'moderate',
+    isApplicable: () => true,
+  },
+  {
+    id: 'behavior_recent',
+    text: 'Was this within the past 3 months?',
+    riskIfYes: 'high',
+    isApplicable: (answers) => answers.behavior === true,
+  },
+];
+
+const RISK_ORDER: RiskLevel[] = ['none', 'low', 'moderate', 'high'];
+
+/**
+ * Returns the more severe of two risk levels
+ */
+export function maxRiskLevel(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Returns the screener questions that apply given the current answers
+ */
+export function getApplicableQuestions(answers: CSSRSAnswers): CSSRSQuestion[] {
+  return CSSRS_QUESTIONS.filter((q) => q.isApplicable(answers));
+}
+
+/**
+ * Checks whether every applicable screener question has been answered
+ */
+export function isScreenerComplete(answers: CSSRSAnswers): boolean {
+  return getApplicableQuestions(answers).every((q) => answers[q.id] !== undefined);
+}
+
+/**
+ * Checks whether a PHQ-9 item 9 value requires the suicide risk follow-up
+ */
+export function requiresRiskFollowUp(phq9Item9: number): boolean {
+  return phq9Item9 > 0;
+}
+
+/**
+ * Evaluates screener answers into a risk flag. Any positive PHQ-9 item 9
+ * response is at least low risk, regardless of screener answers.
+ */
+export function evaluateSuicideRisk(phq9Item9: number, answers: CSSRSAnswers): RiskFlag {
+  let level: RiskLevel = requiresRiskFollowUp(phq9Item9) ? 'low' : 'none';
+  const reasons: string[] = [];
+
+  if (requiresRiskFollowUp(phq9Item9)) {
+    reasons.push(`PHQ-9 item 9 answered ${phq9Item9} / 3`);
+  }
+
+  const cssrsResponses: CSSRSResponse[] = [];
+  for (const question of getApplicableQuestions(answers)) {
+    const answer = answers[question.id];
+    if (answer === undefined) continue;
+
+    cssrsResponses.push({ questionId: question.id, question: question.text, answer });
+    if (answer) {
+      level = maxRiskLevel(level, question.riskIfYes);
+      reasons.push(`C-SSRS: ${question.text}`);
+    }
+  }
+
+  return {
+    level,
+    phq9Item9,
+    cssrsResponses,
+    reasons,
+    flaggedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Human-readable label for a risk level
+ */
+export function getRiskLevelLabel(level: RiskLevel): string {
+  switch (level) {
+    case 'high':
+      return 'High Suicide Risk';
+    case 'moderate':
+      return 'Moderate Suicide Risk';
+    case 'low':
+      return 'Low Suicide Risk';
+    default:
+      return 'No Suicide Risk Identified';
+  }
+}
+
+/**
+ * Formats a risk flag as plain text for inclusion in prompts and notes
+ */
+export function formatRiskFlag(flag: RiskFlag): string {
+  const lines = [`${getRiskLevelLabel(flag.level)} (PHQ-9 item 9: ${flag.phq9Item9} / 3)`];
+  for (const response of flag.cssrsResponses) {
+    lines.push(`- ${response.question} ${response.answer ? 'Yes' : 'No'}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,122 @@
+/**
+ * Session Encryption
+ *
+ * AES-GCM encryption for assessment data kept in browser storage.
+ * The key is generated once per browser as a non-extractable CryptoKey and kept
+ * in IndexedDB, so ciphertext copied out of localStorage cannot be decrypted.
+ */
+
+const KEY_DB_NAME = 'psych-intake';
+const KEY_STORE = 'keys';
+const KEY_ID = 'session-key';
+
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * Whether this browser context can encrypt (Web Crypto needs a secure context)
+ */
+export function isEncryptionAvailable(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    !!window.crypto?.subtle &&
+    typeof window.indexedDB !== 'undefined'
+  );
+}
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runKeyStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openKeyDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(KEY_STORE, mode);
+    const request = action(tx.objectStore(KEY_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      const existing = await runKeyStore<CryptoKey | undefined>('readonly', (store) => store.get(KEY_ID));
+      if (existing) return existing;
+
+      const key = await window.crypto.subtle.generateKey(
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+      await runKeyStore('readwrite', (store) => store.put(key, KEY_ID));
+      return key;
+    })();
+    // Allow a retry after a transient IndexedDB failure
+    keyPromise.catch(() => {
+      keyPromise = null;
+    });
+  }
+  return keyPromise;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encrypts a JSON-serializable value with a fresh IV
+ */
+export async function encryptJSON(value: unknown): Promise<EncryptedPayload> {
+  const key = await getEncryptionKey();
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypts a payload produced by encryptJSON. Throws if the key or data do not match.
+ */
+export async function decryptJSON<T>(payload: EncryptedPayload): Promise<T> {
+  const key = await getEncryptionKey();
+  const plaintext = await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.ciphertext)
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
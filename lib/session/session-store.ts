@@ -0,0 +1,145 @@
+/**
+ * Session Store
+ *
+ * Saves the in-progress assessment to localStorage, encrypted, under a resumable
+ * session id. Sessions expire a fixed time after they were started
+ * (NEXT_PUBLIC_SESSION_TTL_HOURS, default 24); expired sessions are removed
+ * whenever the store is read. Nothing is stored when encryption is unavailable.
+ */
+
+import {
+  EncryptedPayload,
+  decryptJSON,
+  encryptJSON,
+  isEncryptionAvailable,
+} from '@/lib/session/encryption';
+
+const SESSION_KEY_PREFIX = 'psych-intake:session:';
+const ACTIVE_SESSION_KEY = 'psych-intake:active-session';
+
+export const SESSION_TTL_MS =
+  (Number(process.env.NEXT_PUBLIC_SESSION_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+/**
+ * Envelope written to localStorage; only the timestamps are stored in clear text
+ */
+interface StoredSession extends EncryptedPayload {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+export interface SavedSession<T> {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+  data: T;
+}
+
+/**
+ * Generates a random, unguessable session id
+ */
+export function createSessionId(): string {
+  const bytes = window.crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function readStoredSession(id: string): StoredSession | null {
+  const raw = window.localStorage.getItem(SESSION_KEY_PREFIX + id);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as StoredSession;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Id of the session most recently saved in this browser
+ */
+export function getActiveSessionId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(ACTIVE_SESSION_KEY);
+}
+
+/**
+ * Removes expired or unreadable sessions from storage
+ */
+export function purgeExpiredSessions(now: number = Date.now()): void {
+  const storage = window.localStorage;
+  const ids: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(SESSION_KEY_PREFIX)) {
+      ids.push(key.slice(SESSION_KEY_PREFIX.length));
+    }
+  }
+
+  ids.forEach((id) => {
+    const stored = readStoredSession(id);
+    if (!stored || typeof stored.expiresAt !== 'number' || stored.expiresAt <= now) {
+      deleteSession(id);
+    }
+  });
+}
+
+/**
+ * Encrypts and saves session data, keeping the original start time for expiry
+ */
+export async function saveSession<T>(id: string, data: T): Promise<void> {
+  if (!isEncryptionAvailable()) return;
+
+  const now = Date.now();
+  const createdAt = readStoredSession(id)?.createdAt ?? now;
+  const payload = await encryptJSON(data);
+  const stored: StoredSession = {
+    id,
+    ...payload,
+    createdAt,
+    updatedAt: now,
+    expiresAt: createdAt + SESSION_TTL_MS,
+  };
+
+  window.localStorage.setItem(SESSION_KEY_PREFIX + id, JSON.stringify(stored));
+  window.localStorage.setItem(ACTIVE_SESSION_KEY, id);
+}
+
+/**
+ * Loads and decrypts a session. Returns null if it is missing, expired, or
+ * cannot be decrypted (for example after the browser's key store was cleared).
+ */
+export async function loadSession<T>(id: string): Promise<SavedSession<T> | null> {
+  if (!isEncryptionAvailable()) return null;
+
+  purgeExpiredSessions();
+  const stored = readStoredSession(id);
+  if (!stored) return null;
+
+  try {
+    const data = await decryptJSON<T>(stored);
+    return {
+      id: stored.id,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+      expiresAt: stored.expiresAt,
+      data,
+    };
+  } catch (error) {
+    console.warn('Discarding saved session that could not be decrypted:', error);
+    deleteSession(id);
+    return null;
+  }
+}
+
+/**
+ * Removes a session from storage
+ */
+export function deleteSession(id: string): void {
+  window.localStorage.removeItem(SESSION_KEY_PREFIX + id);
+  if (window.localStorage.getItem(ACTIVE_SESSION_KEY) === id) {
+    window.localStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+}
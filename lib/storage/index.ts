@@ -0,0 +1,36 @@
+/**
+ * Submission Storage Selection
+ *
+ * Returns the submission store used by the API routes. Submissions are kept in
+ * a local SQLite database.
+ *
+ *   SUBMISSIONS_DB_PATH   database file (default: data/submissions.db)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createSQLiteSubmissionStore } from '@/lib/storage/sqlite-store';
+import { SubmissionStore } from '@/lib/storage/types';
+
+export * from '@/lib/storage/types';
+
+/**
+ * Reads the database location from the environment
+ */
+export function getSubmissionsDBPath(): string {
+  return process.env.SUBMISSIONS_DB_PATH || path.join(process.cwd(), 'data', 'submissions.db');
+}
+
+let cachedStore: SubmissionStore | null = null;
+
+/**
+ * Returns the submission store, opened once per server process
+ */
+export function getSubmissionStore(): SubmissionStore {
+  if (!cachedStore) {
+    const filename = getSubmissionsDBPath();
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    cachedStore = createSQLiteSubmissionStore(filename);
+  }
+  return cachedStore;
+}
@@ -0,0 +1,179 @@
+/**
+ * SQLite Submission Store
+ *
+ * Stores submissions in a local SQLite database. The summary, PHQ-9 answers,
+ * transcript, and safety events are kept as JSON columns so the schema does not
+ * change every time the summary gains a field, along with the agent's draft and the
+ * patient's edits to it. Clinician notes live in their own table.
+ */
+
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { SummaryFieldChange } from '@/lib/agents/summary-diff';
+import {
+  ClinicianNote,
+  NewSubmission,
+  Submission,
+  SubmissionFilter,
+  SubmissionStatus,
+  SubmissionStore,
+} from '@/lib/storage/types';
+
+interface SubmissionRow {
+  id: string;
+  status: SubmissionStatus;
+  created_at: string;
+  updated_at: string;
+  summary: string;
+  draft: string | null;
+  edits: string;
+  phq9_responses: string;
+  transcript: string;
+  safety_events: string;
+}
+
+interface NoteRow {
+  id: string;
+  submission_id: string;
+  text: string;
+  author: string;
+  created_at: string;
+}
+
+const CREATE_SUBMISSIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS submissions (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('received', 'reviewed', 'closed')),
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    draft TEXT,
+    edits TEXT NOT NULL DEFAULT '[]',
+    phq9_responses TEXT NOT NULL,
+    transcript TEXT NOT NULL,
+    safety_events TEXT NOT NULL
+  )
+`;
+
+const CREATE_NOTES_TABLE = `
+  CREATE TABLE IF NOT EXISTS submission_notes (
+    id TEXT PRIMARY KEY,
+    submission_id TEXT NOT NULL REFERENCES submissions(id),
+    text TEXT NOT NULL,
+    author TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )
+`;
+
+// Columns added after the first release, for databases created before them
+const ADDED_SUBMISSION_COLUMNS: Array<[string, string]> = [
+  ['draft', 'TEXT'],
+  ['edits', "TEXT NOT NULL DEFAULT '[]'"],
+];
+
+function toNote(row: NoteRow): ClinicianNote {
+  return { id: row.id, text: row.text, author: row.author, createdAt: row.created_at };
+}
+
+function toSubmission(row: SubmissionRow, notes: ClinicianNote[]): Submission {
+  return {
+    id: row.id,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    summary: JSON.parse(row.summary),
+    draft: row.draft ? JSON.parse(row.draft) : null,
+    edits: JSON.parse(row.edits),
+    phq9Responses: JSON.parse(row.phq9_responses),
+    transcript: JSON.parse(row.transcript),
+    safetyEvents: JSON.parse(row.safety_events),
+    notes,
+  };
+}
+
+export function createSQLiteSubmissionStore(filename: string): SubmissionStore {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(CREATE_SUBMISSIONS_TABLE);
+  db.exec(CREATE_NOTES_TABLE);
+
+  const columns = new Set(
+    db.prepare<[], { name: string }>('PRAGMA table_info(submissions)').all().map((c) => c.name)
+  );
+  ADDED_SUBMISSION_COLUMNS.filter(([name]) => !columns.has(name)).forEach(([name, definition]) => {
+    db.exec(`ALTER TABLE submissions ADD COLUMN ${name} ${definition}`);
+  });
+
+  const getRow = db.prepare<[string], SubmissionRow>('SELECT * FROM submissions WHERE id = ?');
+  const getNotes = db.prepare<[string], NoteRow>(
+    'SELECT * FROM submission_notes WHERE submission_id = ? ORDER BY created_at'
+  );
+
+  const load = (row: SubmissionRow): Submission => toSubmission(row, getNotes.all(row.id).map(toNote));
+
+  return {
+    async create(input: NewSubmission, edits: SummaryFieldChange[]): Promise<Submission> {
+      const now = new Date().toISOString();
+      const row: SubmissionRow = {
+        id: randomUUID(),
+        status: 'received',
+        created_at: now,
+        updated_at: now,
+        summary: JSON.stringify(input.summary),
+        draft: input.draft ? JSON.stringify(input.draft) : null,
+        edits: JSON.stringify(edits),
+        phq9_responses: JSON.stringify(input.phq9Responses),
+        transcript: JSON.stringify(input.transcript),
+        safety_events: JSON.stringify(input.safetyEvents),
+      };
+
+      db.prepare(
+        `INSERT INTO submissions (id, status, created_at, updated_at, summary, draft, edits, phq9_responses, transcript, safety_events)
+         VALUES (@id, @status, @created_at, @updated_at, @summary, @draft, @edits, @phq9_responses, @transcript, @safety_events)`
+      ).run(row);
+
+      return toSubmission(row, []);
+    },
+
+    async get(id: string): Promise<Submission | null> {
+      const row = getRow.get(id);
+      return row ? load(row) : null;
+    },
+
+    async list(filter: SubmissionFilter = {}): Promise<Submission[]> {
+      const rows = filter.status
+        ? db
+            .prepare<[string], SubmissionRow>('SELECT * FROM submissions WHERE status = ? ORDER BY created_at DESC')
+            .all(filter.status)
+        : db.prepare<[], SubmissionRow>('SELECT * FROM submissions ORDER BY created_at DESC').all();
+      return rows.map(load);
+    },
+
+    async updateStatus(id: string, status: SubmissionStatus): Promise<Submission | null> {
+      const result = db
+        .prepare('UPDATE submissions SET status = ?, updated_at = ? WHERE id = ?')
+        .run(status, new Date().toISOString(), id);
+      if (result.changes === 0) return null;
+
+      const row = getRow.get(id);
+      return row ? load(row) : null;
+    },
+
+    async addNote(id: string, text: string, author: string): Promise<ClinicianNote | null> {
+      if (!getRow.get(id)) return null;
+
+      const row: NoteRow = {
+        id: randomUUID(),
+        submission_id: id,
+        text,
+        author,
+        created_at: new Date().toISOString(),
+      };
+      db.prepare(
+        'INSERT INTO submission_notes (id, submission_id, text, author, created_at) VALUES (@id, @submission_id, @text, @author, @created_at)'
+      ).run(row);
+
+      return toNote(row);
+    },
+  };
+}
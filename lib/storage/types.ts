@@ -0,0 +1,66 @@
+/**
+ * Submission Storage Types
+ *
+ * Shape of a submitted assessment and the interface every storage backend implements.
+ */
+
+import { ClinicalSummary } from '@/lib/agents/summary-agent';
+import { SummaryFieldChange } from '@/lib/agents/summary-diff';
+import { SafetyEvent } from '@/lib/safety/crisis-detector';
+
+export type SubmissionStatus = 'received' | 'reviewed' | 'closed';
+
+export const SUBMISSION_STATUSES: SubmissionStatus[] = ['received', 'reviewed', 'closed'];
+
+export interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Data sent by the patient when they submit their assessment
+ */
+export interface NewSubmission {
+  summary: ClinicalSummary;
+  // Summary as the summary agent drafted it, before the patient's edits (null if none was generated)
+  draft: ClinicalSummary | null;
+  // PHQ-9 item answers in item order (0-3)
+  phq9Responses: number[];
+  transcript: TranscriptMessage[];
+  safetyEvents: SafetyEvent[];
+}
+
+/**
+ * Free-text note added by a clinician while reviewing a submission
+ */
+export interface ClinicianNote {
+  id: string;
+  text: string;
+  // Username of the clinician who wrote the note
+  author: string;
+  createdAt: string;
+}
+
+export interface Submission extends NewSubmission {
+  id: string;
+  status: SubmissionStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Fields the patient changed from the draft, recorded on submission
+  edits: SummaryFieldChange[];
+  notes: ClinicianNote[];
+}
+
+export interface SubmissionFilter {
+  status?: SubmissionStatus;
+}
+
+export interface SubmissionStore {
+  create(input: NewSubmission, edits: SummaryFieldChange[]): Promise<Submission>;
+  get(id: string): Promise<Submission | null>;
+  list(filter?: SubmissionFilter): Promise<Submission[]>;
+  // Returns null when no submission has the given id
+  updateStatus(id: string, status: SubmissionStatus): Promise<Submission | null>;
+  // Returns null when no submission has the given id
+  addNote(id: string, text: string, author: string): Promise<ClinicianNote | null>;
+}
@@ -0,0 +1,50 @@
+/**
+ * Submission Validation Tests
+ *
+ * The PHQ-9 score a client reports against the total of its answers.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { FIXTURE_PHQ9_RESPONSES, createFixtureSummary } from '@/lib/agents/summary-fixtures';
+import { validateNewSubmission } from '@/lib/storage/validation';
+
+function createBody(overrides: Record<string, unknown> = {}) {
+  return {
+    summary: createFixtureSummary(),
+    draft: createFixtureSummary(),
+    phq9Responses: FIXTURE_PHQ9_RESPONSES,
+    transcript: [{ role: 'user', content: 'I feel low.' }],
+    safetyEvents: [],
+    ...overrides,
+  };
+}
+
+describe('validateNewSubmission', () => {
+  it('accepts a score that matches the answers', () => {
+    expect(validateNewSubmission(createBody())).toMatchObject({
+      errors: [],
+      value: { phq9Responses: FIXTURE_PHQ9_RESPONSES },
+    });
+  });
+
+  it('rejects a summary score that differs from the answers', () => {
+    const result = validateNewSubmission(createBody({ summary: createFixtureSummary({ phq9Score: 3 }) }));
+
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual([{ field: 'summary.phq9Score', message: 'expected 12, the total of phq9Responses' }]);
+  });
+
+  it('rejects a draft score that differs from the answers', () => {
+    const result = validateNewSubmission(createBody({ draft: createFixtureSummary({ phq9Score: 27 }) }));
+
+    expect(result.value).toBeNull();
+    expect(result.errors.map((e) => e.field)).toEqual(['draft.phq9Score']);
+  });
+
+  it('stores the severity of the recomputed score', () => {
+    const result = validateNewSubmission(
+      createBody({ summary: createFixtureSummary({ phq9Severity: 'Minimal or No Depression' }) })
+    );
+    expect(result.value?.summary.phq9Severity).toBe('Moderate Depression');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Submission Validation
+ *
+ * Checks a submission request body before it is stored. The summary is checked
+ * against the ClinicalSummary schema and the same field rules the summary form
+ * applies; the other parts are checked structurally. The PHQ-9 score is
+ * recomputed from the answers, so a summary or draft that reports a different
+ * total is rejected and the stored severity always matches the answers.
+ */
+
+import { SchemaError, SchemaResult, validateClinicalSummary } from '@/lib/agents/summary-schema';
+import { validateSummaryRules } from '@/lib/agents/summary-rules';
+import { LANGUAGES, isLanguage } from '@/lib/i18n';
+import { PHQ9, getSeverity, scoreInstrument } from '@/lib/instruments';
+import {
+  NewSubmission,
+  SUBMISSION_STATUSES,
+  SubmissionStatus,
+  TranscriptMessage,
+} from '@/lib/storage/types';
+
+function isTranscriptMessage(value: unknown): value is TranscriptMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Record<string, unknown>;
+  return (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string';
+}
+
+export function isSubmissionStatus(value: unknown): value is SubmissionStatus {
+  return SUBMISSION_STATUSES.includes(value as SubmissionStatus);
+}
+
+/**
+ * A complete set of PHQ-9 answers, in item order
+ */
+export function isPHQ9Answers(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === PHQ9.items.length &&
+    value.every((v) => Number.isInteger(v) && v >= 0 && v <= 3)
+  );
+}
+
+/**
+ * Validates the body of a new submission
+ */
+export function validateNewSubmission(data: unknown): SchemaResult<NewSubmission> {
+  if (typeof data !== 'object' || data === null) {
+    return { value: null, errors: [{ field: '(root)', message: 'expected object' }] };
+  }
+
+  const body = data as Record<string, unknown>;
+  const errors: SchemaError[] = [];
+
+  const summary = validateClinicalSummary(body.summary);
+  errors.push(...summary.errors.map((e) => ({ ...e, field: `summary.${e.field}` })));
+  if (summary.value) {
+    errors.push(...validateSummaryRules(summary.value).map((e) => ({ ...e, field: `summary.${e.field}` })));
+    if (!isLanguage(summary.value.language)) {
+      errors.push({ field: 'summary.language', message: `expected one of ${Object.keys(LANGUAGES).join(', ')}` });
+    }
+  }
+
+  // Clients that never generated a draft omit it
+  const draft = body.draft == null ? null : validateClinicalSummary(body.draft);
+  errors.push(...(draft?.errors ?? []).map((e) => ({ ...e, field: `draft.${e.field}` })));
+
+  const phq9Responses = body.phq9Responses;
+  if (!isPHQ9Answers(phq9Responses)) {
+    errors.push({
+      field: 'phq9Responses',
+      message: `expected ${PHQ9.items.length} answers between 0 and 3`,
+    });
+  }
+
+  if (!Array.isArray(body.transcript) || !body.transcript.every(isTranscriptMessage)) {
+    errors.push({ field: 'transcript', message: 'expected an array of { role, content } messages' });
+  }
+
+  if (isPHQ9Answers(phq9Responses)) {
+    const score = scoreInstrument(PHQ9, phq9Responses);
+    const reported: Array<[string, number | undefined]> = [
+      ['summary.phq9Score', summary.value?.phq9Score],
+      ['draft.phq9Score', draft?.value?.phq9Score],
+    ];
+    reported
+      .filter(([, value]) => value !== undefined && value !== score)
+      .forEach(([field]) => errors.push({ field, message: `expected ${score}, the total of phq9Responses` }));
+  }
+
+  const safetyEvents = body.safetyEvents ?? [];
+  if (!Array.isArray(safetyEvents)) {
+    errors.push({ field: 'safetyEvents', message: 'expected an array' });
+  }
+
+  if (errors.length > 0 || !summary.value) {
+    return { value: null, errors };
+  }
+
+  const phq9Severity = getSeverity(PHQ9, summary.value.phq9Score);
+
+  return {
+    value: {
+      summary: { ...summary.value, phq9Severity },
+      draft: draft?.value ?? null,
+      phq9Responses: phq9Responses as number[],
+      transcript: body.transcript as TranscriptMessage[],
+      safetyEvents: safetyEvents as NewSubmission['safetyEvents'],
+    },
+    errors: [],
+  };
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllowedRoles } from '@/lib/auth/access';
+import { SESSION_COOKIE, getAuthConfigError, getAuthSecret } from '@/lib/auth/config';
+import { verifySessionToken } from '@/lib/auth/session-token';
+
+/**
+ * Auth Middleware
+ *
+ * Checks the signed session cookie on every page and API request against the
+ * route access rules. Unauthenticated page requests are sent to /login;
+ * API requests get 401, and requests from the wrong role get 403.
+ */
+
+function jsonError(error: string, status: number) {
+  return new NextResponse(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const allowed = getAllowedRoles(pathname, req.method);
+  if (allowed === 'public') {
+    return NextResponse.next();
+  }
+
+  const configError = getAuthConfigError();
+  if (configError) {
+    return jsonError(configError, 500);
+  }
+
+  const isApi = pathname.startsWith('/api/');
+  const session = await verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value, getAuthSecret());
+
+  if (!session) {
+    if (isApi) return jsonError('Authentication required', 401);
+
+    const loginUrl = new URL('/login', req.url);
+    loginUrl.searchParams.set('next', pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!allowed.includes(session.role)) {
+    if (isApi) return jsonError('You do not have access to this resource', 403);
+    return NextResponse.redirect(new URL('/', req.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Everything except Next.js assets and static files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
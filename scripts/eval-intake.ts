@@ -0,0 +1,180 @@
+/**
+ * Intake Evaluation
+ *
+ * Runs the simulated patients in lib/eval through the chat and summary routes
+ * in-process and prints each run's scores. Uses the mock provider unless
+ * LLM_PROVIDER is set, so runs are reproducible by default; set it to evaluate
+ * a prompt change against a real model.
+ *
+ *   npm run eval:intake
+ *   npm run eval:intake -- --persona terse,declining --mode simulated --max-turns 20 --json
+ *
+ *   --persona     comma-separated persona ids (default: all)
+ *   --mode        scripted | simulated (default: scripted)
+ *   --max-turns   patient turns before a run is stopped (default: 30)
+ *   --json        print full results, including transcripts and summaries
+ */
+
+import { NextRequest } from 'next/server';
+import { POST as chatRoute } from '@/app/api/chat/route';
+import { POST as summaryRoute } from '@/app/api/summary/route';
+import { createChatStreamParser } from '@/lib/chat/stream';
+import { getLLMProvider } from '@/lib/llm';
+import {
+  DEFAULT_MAX_TURNS,
+  IntakeEvalResult,
+  IntakeEvalSteps,
+  IntakeEvalTransition,
+  PatientMode,
+  createScriptedPatient,
+  createSimulatedPatient,
+  runIntakeEval,
+} from '@/lib/eval/harness';
+import { PATIENT_PERSONAS, PatientPersona, getPersona } from '@/lib/eval/personas';
+
+interface EvalOptions {
+  personas: PatientPersona[];
+  mode: PatientMode;
+  maxTurns: number;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): EvalOptions {
+  const value = (flag: string) => {
+    const idx = args.indexOf(flag);
+    return idx === -1 ? undefined : args[idx + 1];
+  };
+
+  const ids = value('--persona')?.split(',').map((id) => id.trim()).filter(Boolean);
+  const personas = ids ? ids.map((id) => getPersona(id) ?? id) : PATIENT_PERSONAS;
+  const unknown = personas.filter((persona): persona is string => typeof persona === 'string');
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown persona: ${unknown.join(', ')}. Available: ${PATIENT_PERSONAS.map((p) => p.id).join(', ')}`
+    );
+  }
+
+  const mode = value('--mode') ?? 'scripted';
+  if (mode !== 'scripted' && mode !== 'simulated') {
+    throw new Error(`Unknown mode: ${mode}. Use scripted or simulated`);
+  }
+
+  const maxTurns = parseInt(value('--max-turns') ?? String(DEFAULT_MAX_TURNS), 10);
+  if (!Number.isInteger(maxTurns) || maxTurns < 1) {
+    throw new Error('--max-turns must be a positive integer');
+  }
+
+  return { personas: personas as PatientPersona[], mode, maxTurns, json: args.includes('--json') };
+}
+
+function jsonRequest(path: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Calls the route handlers directly, as the intake page would over HTTP
+ */
+const routeSteps: IntakeEvalSteps = {
+  async chat(transcript, persona) {
+    const response = await chatRoute(jsonRequest('/api/chat', { messages: transcript, language: persona.language }));
+    if (!response.ok || !response.body) {
+      throw new Error(`Chat route returned ${response.status}: ${await response.text()}`);
+    }
+
+    const parser = createChatStreamParser();
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    let reply = '';
+    let transition: IntakeEvalTransition | null = null;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      const events = parser.push(done ? decoder.decode() : decoder.decode(value, { stream: true }));
+      for (const event of events) {
+        if (event.type === 'token') reply += event.text;
+        if (event.type === 'transition') transition = { transition: event.transition, reason: event.reason };
+        if (event.type === 'error') throw new Error(`Chat stream error: ${event.message}`);
+      }
+      if (done) break;
+    }
+
+    return { reply, transition };
+  },
+
+  async summarize(transcript, persona) {
+    const response = await summaryRoute(
+      jsonRequest('/api/summary', {
+        conversationHistory: transcript,
+        instrumentResponses: { phq9: persona.phq9Responses },
+        riskFlag: null,
+        language: persona.language,
+      })
+    );
+    if (!response.ok) {
+      console.warn(`Summary for ${persona.id} failed (${response.status}): ${await response.text()}`);
+      return null;
+    }
+    return response.json();
+  },
+};
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${Math.round(value * 100)}%`;
+}
+
+function printTable(results: IntakeEvalResult[]): void {
+  const header = ['persona', 'mode', 'completed', 'ended by', 'turns', 'coverage', 'one-question', 'repeats', 'summary'];
+  const rows = results.map((r) => [
+    r.persona,
+    r.mode,
+    r.completed ? 'yes' : 'no',
+    r.endedBy ?? 'run limit',
+    String(r.patientTurns),
+    percent(r.scores.topicCoverage),
+    percent(r.scores.oneQuestionCompliance),
+    String(r.scores.repeatedQuestions),
+    percent(r.scores.summaryCompleteness),
+  ]);
+  const widths = header.map((h, col) => Math.max(h.length, ...rows.map((row) => row[col].length)));
+  const format = (row: string[]) => row.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd();
+
+  console.log(format(header));
+  rows.forEach((row) => console.log(format(row)));
+
+  results.forEach((r) => {
+    if (r.scores.missingTopics.length > 0) {
+      console.log(`\n${r.persona}: topics not covered: ${r.scores.missingTopics.join('; ')}`);
+    }
+    if (r.scores.missingSummaryFields.length > 0) {
+      console.log(`\n${r.persona}: summary fields left empty: ${r.scores.missingSummaryFields.join(', ')}`);
+    }
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || 'mock';
+
+  const results: IntakeEvalResult[] = [];
+  for (const persona of options.personas) {
+    const patient = options.mode === 'simulated'
+      ? createSimulatedPatient(persona, getLLMProvider())
+      : createScriptedPatient(persona);
+    results.push(await runIntakeEval(persona, patient, routeSteps, { mode: options.mode, maxTurns: options.maxTurns }));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    printTable(results);
+  }
+}
+
+main().catch((error) => {
+  console.error('Intake evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Vitest Configuration
+ *
+ * Tests run in Node against the mock LLM provider, so they need no network
+ * access or API keys. The alias mirrors the "@/*" path in tsconfig.json.
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules', '.next'],
+  },
+});